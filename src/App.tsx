@@ -1,4 +1,5 @@
 import React, { useEffect, useRef, useState } from 'react';
+import { MonitorX } from 'lucide-react';
 import GameEngine from './engine/GameEngine';
 import HUD from './components/HUD';
 import MissionBriefing from './components/MissionBriefing';
@@ -27,6 +28,8 @@ function App() {
   const [loadingProgress, setLoadingProgress] = useState(0);
   const [loadingStatus, setLoadingStatus] = useState('Initializing Deep Black Systems...');
   const [initError, setInitError] = useState<string | null>(null);
+  // Set while the graphics context is gone; the game stays mounted and recovers in place
+  const [graphicsStatus, setGraphicsStatus] = useState<'lost' | 'failed' | null>(null);
 
   useEffect(() => {
     const initializeGame = async () => {
@@ -51,6 +54,11 @@ function App() {
           
           await engine.initialize();
           engineRef.current = engine;
+          engine.onEvent = (event) => {
+            if (event.type === 'context-lost') setGraphicsStatus('lost');
+            if (event.type === 'context-restored') setGraphicsStatus(null);
+            if (event.type === 'context-restore-failed') setGraphicsStatus('failed');
+          };
           
           setLoadingStatus('Synchronizing neural interface...');
           setLoadingProgress(75);
@@ -91,9 +99,9 @@ function App() {
     };
   }, []);
 
-  const handleStartMission = (missionId: string) => {
+  const handleStartMission = async (missionId: string) => {
     if (engineRef.current) {
-      engineRef.current.startMission(missionId);
+      await engineRef.current.startMission(missionId);
       setGameState(prev => ({ 
         ...prev, 
         isPlaying: true,
@@ -199,6 +207,32 @@ function App() {
           engine={engineRef.current}
         />
       )}
+      
+      {/* Graphics Recovery */}
+      {graphicsStatus && (
+        <div className="absolute top-1/3 left-1/2 -translate-x-1/2 z-50">
+          <div className={`flex items-center space-x-3 px-4 py-3 rounded-lg backdrop-blur-sm border font-mono text-xs ${
+            graphicsStatus === 'lost'
+              ? 'bg-amber-900/70 border-amber-500/50 text-amber-300'
+              : 'bg-red-900/70 border-red-500/50 text-red-300'
+          }`}>
+            <MonitorX className={`w-4 h-4 ${graphicsStatus === 'lost' ? 'animate-pulse' : ''}`} />
+            <span>
+              {graphicsStatus === 'lost'
+                ? 'GRAPHICS LINK LOST - SIMULATION PAUSED, RECOVERING...'
+                : 'GRAPHICS RECOVERY FAILED'}
+            </span>
+            {graphicsStatus === 'failed' && (
+              <button
+                onClick={() => window.location.reload()}
+                className="px-3 py-1 bg-red-600 hover:bg-red-500 rounded text-white transition-colors"
+              >
+                RELOAD
+              </button>
+            )}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
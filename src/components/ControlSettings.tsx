@@ -0,0 +1,240 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, Download, Gamepad2, Plus, RotateCcw, Upload, X } from 'lucide-react';
+import { ControlAction, InputBinding, InputProfile, KeyboardLayout } from '../types/GameTypes';
+import GameEngine from '../engine/GameEngine';
+import { ACTION_LABELS, BUILT_IN_PROFILES, CONTROL_ACTIONS, describeBinding } from '../engine/InputBindings';
+
+interface ControlSettingsProps {
+  engine: GameEngine;
+  onClose: () => void;
+}
+
+interface PendingBinding {
+  action: ControlAction;
+  binding: InputBinding;
+  conflicts: ControlAction[];
+}
+
+const ControlSettings: React.FC<ControlSettingsProps> = ({ engine, onClose }) => {
+  const bindings = engine.getInputBindings();
+  const [profile, setProfile] = useState<InputProfile>(() => bindings.getProfile());
+  const [capturing, setCapturing] = useState<ControlAction | null>(null);
+  const [pending, setPending] = useState<PendingBinding | null>(null);
+  const [importText, setImportText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // Never leave the input manager listening once the screen is gone
+  useEffect(() => () => engine.cancelBindingCapture(), [engine]);
+
+  const refresh = () => setProfile(bindings.getProfile());
+
+  const startCapture = (action: ControlAction) => {
+    setPending(null);
+    setError(null);
+    setCapturing(action);
+    engine.captureNextBinding((binding) => {
+      setCapturing(null);
+      if (!binding) return;
+
+      const conflicts = bindings.findConflicts(action, binding);
+      if (conflicts.length > 0) {
+        // Let the pilot confirm before stealing a binding from another action
+        setPending({ action, binding, conflicts });
+      } else {
+        bindings.bind(action, binding);
+        refresh();
+      }
+    });
+  };
+
+  const cancelCapture = () => {
+    engine.cancelBindingCapture();
+    setCapturing(null);
+  };
+
+  const confirmPending = () => {
+    if (!pending) return;
+    bindings.bind(pending.action, pending.binding);
+    setPending(null);
+    refresh();
+  };
+
+  const removeBinding = (action: ControlAction, binding: InputBinding) => {
+    bindings.unbind(action, binding);
+    refresh();
+  };
+
+  const selectPreset = (name: string) => {
+    bindings.usePreset(name);
+    setPending(null);
+    refresh();
+  };
+
+  const selectLayout = (layout: KeyboardLayout) => {
+    bindings.setKeyboardLayout(layout);
+    refresh();
+  };
+
+  const exportProfile = () => {
+    const blob = new Blob([bindings.exportProfile()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `manta-controls-${profile.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importProfile = (json: string) => {
+    try {
+      bindings.importProfile(json);
+      setImportText('');
+      setError(null);
+      refresh();
+    } catch (importError) {
+      setError(importError instanceof Error ? importError.message : 'Failed to import profile');
+    }
+  };
+
+  const importFile = async (file: File | undefined) => {
+    if (file) {
+      importProfile(await file.text());
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 flex items-center justify-center bg-black/60 pointer-events-auto z-20">
+      <div className="w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-black/90 backdrop-blur-sm border border-cyan-500/50 rounded-lg p-4 font-mono">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center space-x-2 text-cyan-400">
+            <Gamepad2 className="w-5 h-5" />
+            <h3 className="font-bold">CONTROL BINDINGS</h3>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Profile selection */}
+        <div className="flex flex-wrap items-center gap-2 mb-4 text-xs">
+          <span className="text-gray-300">Preset:</span>
+          {BUILT_IN_PROFILES.map(preset => (
+            <button
+              key={preset.name}
+              onClick={() => selectPreset(preset.name)}
+              className={`px-2 py-1 rounded ${
+                profile.name === preset.name ? 'bg-cyan-600/80 text-white' : 'bg-gray-800/60 text-cyan-400 hover:bg-gray-700/60'
+              }`}
+            >
+              {preset.name}
+            </button>
+          ))}
+          <span className="text-gray-300 ml-4">Key labels:</span>
+          <select
+            value={profile.keyboardLayout}
+            onChange={(e) => selectLayout(e.target.value as KeyboardLayout)}
+            className="bg-gray-800 text-cyan-300 rounded px-2 py-1"
+          >
+            <option value="qwerty">QWERTY</option>
+            <option value="azerty">AZERTY</option>
+          </select>
+        </div>
+
+        {capturing && (
+          <div className="flex items-center justify-between mb-3 px-3 py-2 rounded bg-cyan-900/60 border border-cyan-500/50 text-xs text-cyan-200">
+            <span>Press a key, button, stick or gesture for {ACTION_LABELS[capturing]} (Esc to cancel)</span>
+            <button onClick={cancelCapture} className="text-cyan-300 hover:text-white">Cancel</button>
+          </div>
+        )}
+
+        {pending && (
+          <div className="mb-3 px-3 py-2 rounded bg-amber-900/60 border border-amber-500/50 text-xs text-amber-200">
+            <div className="flex items-center space-x-2 mb-2">
+              <AlertTriangle className="w-4 h-4" />
+              <span>
+                {describeBinding(pending.binding, profile.keyboardLayout)} is already bound to{' '}
+                {pending.conflicts.map(action => ACTION_LABELS[action]).join(', ')}
+              </span>
+            </div>
+            <div className="flex space-x-2">
+              <button onClick={confirmPending} className="px-2 py-1 rounded bg-amber-600/80 text-white">
+                Move to {ACTION_LABELS[pending.action]}
+              </button>
+              <button onClick={() => setPending(null)} className="px-2 py-1 rounded bg-gray-800/80 text-amber-200">
+                Keep existing
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Binding table */}
+        <div className="space-y-1 mb-4">
+          {CONTROL_ACTIONS.map(action => (
+            <div key={action} className="flex items-center justify-between py-1 border-b border-gray-800">
+              <span className="text-xs text-gray-300 w-32">{ACTION_LABELS[action]}</span>
+              <div className="flex flex-wrap flex-1 gap-1 justify-end">
+                {profile.bindings[action].map(binding => (
+                  <span
+                    key={describeBinding(binding)}
+                    className="flex items-center space-x-1 px-2 py-0.5 rounded bg-gray-800 text-cyan-300 text-xs"
+                  >
+                    <span>{describeBinding(binding, profile.keyboardLayout)}</span>
+                    <button onClick={() => removeBinding(action, binding)} className="text-gray-500 hover:text-red-400">
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+                <button
+                  onClick={() => startCapture(action)}
+                  className={`flex items-center px-2 py-0.5 rounded text-xs ${
+                    capturing === action ? 'bg-cyan-600/80 text-white animate-pulse' : 'bg-gray-800/60 text-cyan-400 hover:bg-gray-700/60'
+                  }`}
+                >
+                  <Plus className="w-3 h-3" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Import / export */}
+        <div className="space-y-2 text-xs">
+          <div className="flex items-center space-x-2">
+            <button onClick={exportProfile} className="flex items-center space-x-1 px-2 py-1 rounded bg-gray-800/60 text-cyan-400 hover:bg-gray-700/60">
+              <Download className="w-3 h-3" />
+              <span>Export JSON</span>
+            </button>
+            <label className="flex items-center space-x-1 px-2 py-1 rounded bg-gray-800/60 text-cyan-400 hover:bg-gray-700/60 cursor-pointer">
+              <Upload className="w-3 h-3" />
+              <span>Import file</span>
+              <input type="file" accept="application/json,.json" className="hidden" onChange={(e) => importFile(e.target.files?.[0])} />
+            </label>
+            <button
+              onClick={() => selectPreset('Default')}
+              className="flex items-center space-x-1 px-2 py-1 rounded bg-gray-800/60 text-cyan-400 hover:bg-gray-700/60"
+            >
+              <RotateCcw className="w-3 h-3" />
+              <span>Reset</span>
+            </button>
+          </div>
+          <textarea
+            value={importText}
+            onChange={(e) => setImportText(e.target.value)}
+            placeholder="Paste a profile JSON here"
+            className="w-full h-20 bg-gray-900 text-cyan-200 rounded p-2 border border-gray-700"
+          />
+          <button
+            onClick={() => importProfile(importText)}
+            disabled={importText.trim().length === 0}
+            className="px-2 py-1 rounded bg-cyan-700/70 text-white disabled:opacity-40"
+          >
+            Import pasted profile
+          </button>
+          {error && <div className="text-red-400">{error}</div>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ControlSettings;
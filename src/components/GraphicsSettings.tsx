@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { Monitor, X } from 'lucide-react';
+import { QualityLevel, QualitySettings } from '../types/GameTypes';
+import GameEngine from '../engine/GameEngine';
+import { QUALITY_LEVELS, RENDER_SCALE_PRESETS, TARGET_FRAME_RATES } from '../engine/QualityPreferences';
+import { POST_PROCESS_PRESETS } from '../engine/PostProcessor';
+import { SHADOW_PRESETS } from '../engine/ShadowRenderer';
+import { PARTICLE_BUDGETS } from '../engine/ParticleSystem';
+import { TERRAIN_LOD_PRESETS } from '../engine/TerrainRenderer';
+
+interface GraphicsSettingsProps {
+  engine: GameEngine;
+  onClose: () => void;
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+// What each preset turns on, as shown next to the level buttons
+function describePreset(level: QualityLevel): [string, string][] {
+  const post = POST_PROCESS_PRESETS[level];
+  const shadows = SHADOW_PRESETS[level];
+  const effects = [post.bloom && 'bloom', post.toneMapping && 'tone mapping', post.refraction && 'refraction'].filter(Boolean);
+  return [
+    ['Render scale', percent(RENDER_SCALE_PRESETS[level])],
+    ['Anti-aliasing', post.samples > 0 ? `${post.samples}x MSAA` : 'Off'],
+    ['Shadows', shadows.enabled ? `${shadows.resolution}px × ${shadows.cascades}, ${shadows.distance} m` : 'Off'],
+    ['Post effects', effects.length > 0 ? effects.join(', ') : 'Off'],
+    ['Particles', percent(PARTICLE_BUDGETS[level])],
+    ['Terrain detail', `${TERRAIN_LOD_PRESETS[level].toFixed(1)}×`]
+  ];
+}
+
+const GraphicsSettings: React.FC<GraphicsSettingsProps> = ({ engine, onClose }) => {
+  const [settings, setSettings] = useState<QualitySettings>(() => engine.getQualitySettings());
+  const [renderScale, setRenderScale] = useState(() => engine.getRenderScale());
+
+  // Dynamic resolution moves the scale on its own, so keep the readout live
+  useEffect(() => {
+    const interval = setInterval(() => setRenderScale(engine.getRenderScale()), 500);
+    return () => clearInterval(interval);
+  }, [engine]);
+
+  const update = (changes: Partial<QualitySettings>) => {
+    engine.setQualitySettings(changes);
+    setSettings(engine.getQualitySettings());
+    setRenderScale(engine.getRenderScale());
+  };
+
+  return (
+    <div className="absolute inset-0 flex items-center justify-center bg-black/60 pointer-events-auto z-20">
+      <div className="w-full max-w-md max-h-[90vh] overflow-y-auto bg-black/90 backdrop-blur-sm border border-cyan-500/50 rounded-lg p-4 font-mono">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center space-x-2 text-cyan-400">
+            <Monitor className="w-5 h-5" />
+            <h3 className="font-bold">GRAPHICS QUALITY</h3>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Preset selection */}
+        <div className="grid grid-cols-4 gap-2 mb-3 text-xs">
+          {QUALITY_LEVELS.map(level => (
+            <button
+              key={level}
+              onClick={() => update({ level })}
+              className={`px-2 py-1 rounded uppercase ${
+                settings.level === level ? 'bg-cyan-600/80 text-white' : 'bg-gray-800/60 text-cyan-400 hover:bg-gray-700/60'
+              }`}
+            >
+              {level}
+            </button>
+          ))}
+        </div>
+
+        <div className="space-y-1 mb-4">
+          {describePreset(settings.level).map(([label, value]) => (
+            <div key={label} className="flex items-center justify-between py-1 border-b border-gray-800 text-xs">
+              <span className="text-gray-300">{label}</span>
+              <span className="text-cyan-300">{value}</span>
+            </div>
+          ))}
+        </div>
+
+        {/* Dynamic resolution */}
+        <div className="space-y-2 text-xs">
+          <label className="flex items-center justify-between">
+            <span className="text-gray-300">Dynamic resolution</span>
+            <input
+              type="checkbox"
+              checked={settings.dynamicResolution}
+              onChange={(e) => update({ dynamicResolution: e.target.checked })}
+              className="accent-cyan-500"
+            />
+          </label>
+          <div className={`flex items-center justify-between ${settings.dynamicResolution ? '' : 'opacity-40'}`}>
+            <span className="text-gray-300">Target frame rate</span>
+            <div className="flex space-x-2">
+              {TARGET_FRAME_RATES.map(rate => (
+                <button
+                  key={rate}
+                  onClick={() => update({ targetFrameRate: rate })}
+                  disabled={!settings.dynamicResolution}
+                  className={`px-2 py-1 rounded ${
+                    settings.targetFrameRate === rate ? 'bg-cyan-600/80 text-white' : 'bg-gray-800/60 text-cyan-400 hover:bg-gray-700/60'
+                  }`}
+                >
+                  {rate} fps
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-gray-300">Current render scale</span>
+            <span className="text-cyan-300">{percent(renderScale)}</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GraphicsSettings;
@@ -1,7 +1,21 @@
 import React, { useState, useEffect } from 'react';
-import { Activity, Zap, Eye, Radar, Settings } from 'lucide-react';
-import { GameState } from '../types/GameTypes';
+import { Activity, Zap, Eye, Radar, Settings, Thermometer, ChevronUp, ChevronDown, BatteryWarning, Navigation, Gamepad2, Camera, Monitor, Gauge } from 'lucide-react';
+import { CameraMode, FlightMode, FlightState, GameState, PowerConsumer, PowerState, SystemState, ThermalState } from '../types/GameTypes';
 import GameEngine from '../engine/GameEngine';
+import { FLIGHT_MODES } from '../engine/FlightComputer';
+import { CAMERA_MODES } from '../engine/CameraSystem';
+import ControlSettings from './ControlSettings';
+import GraphicsSettings from './GraphicsSettings';
+import PerformanceOverlay from './PerformanceOverlay';
+
+const FLIGHT_MODE_LABELS: Record<FlightMode, string> = {
+  'manual': 'MAN',
+  'stabilize': 'STAB',
+  'hover': 'HOVER',
+  'altitude-hold': 'ALT',
+  'heading-hold': 'HDG',
+  'waypoint': 'WPT'
+};
 
 interface HUDProps {
   gameState: GameState;
@@ -11,9 +25,21 @@ interface HUDProps {
 
 const HUD: React.FC<HUDProps> = ({ gameState, onSystemUpdate, engine }) => {
   const [showSystemPanel, setShowSystemPanel] = useState(false);
+  const [showControlSettings, setShowControlSettings] = useState(false);
+  const [showGraphicsSettings, setShowGraphicsSettings] = useState(false);
+  const [showPerformance, setShowPerformance] = useState(false);
   const [altitude, setAltitude] = useState(100);
   const [speed, setSpeed] = useState(0);
   const [heading, setHeading] = useState(0);
+  const [throttle, setThrottle] = useState(0);
+  const [liveSystems, setLiveSystems] = useState<SystemState>(gameState.systems);
+  const [thermal, setThermal] = useState<ThermalState | null>(null);
+  const [power, setPower] = useState<PowerState | null>(null);
+  const [flightState, setFlightState] = useState<FlightState>('airborne');
+  const [flightMode, setFlightMode] = useState<FlightMode>('stabilize');
+  const [cameraMode, setCameraMode] = useState<CameraMode>('chase');
+  const [cameraFov, setCameraFov] = useState(() => engine?.getCameraFov() ?? 60);
+  const [waypointIndex, setWaypointIndex] = useState(0);
 
   useEffect(() => {
     // Update HUD readings from engine
@@ -23,6 +49,19 @@ const HUD: React.FC<HUDProps> = ({ gameState, onSystemUpdate, engine }) => {
         const velocity = engine.physicsEngine?.getVelocity() || { x: 0, y: 0, z: 0 };
         const currentSpeed = Math.sqrt(velocity.x ** 2 + velocity.y ** 2 + velocity.z ** 2);
         setSpeed(Math.round(currentSpeed * 10) / 10);
+        const telemetry = engine.physicsEngine.getTelemetry();
+        setAltitude(Math.round(telemetry.altitudeAGL));
+        setHeading(Math.round(telemetry.heading) % 360);
+        setThrottle(Math.round(engine.getPilotControls().throttle * 100));
+        setFlightState(engine.physicsEngine.getFlightState());
+        setFlightMode(engine.getFlightMode());
+        setCameraMode(engine.getCameraMode());
+        setCameraFov(engine.getCameraFov());
+        
+        // Simulated subsystem values (coil heat, cloak integrity, automatic shutdowns)
+        setLiveSystems(engine.getSystemStates());
+        setThermal(engine.physicsEngine.getThermalState());
+        setPower(engine.physicsEngine.getPowerState());
       }
     }, 100);
 
@@ -38,8 +77,54 @@ const HUD: React.FC<HUDProps> = ({ gameState, onSystemUpdate, engine }) => {
     }
   };
 
+  const movePowerPriority = (consumer: PowerConsumer, direction: -1 | 1) => {
+    if (!engine || !power) return;
+    
+    const priorities = [...power.priorities];
+    const index = priorities.indexOf(consumer);
+    const target = index + direction;
+    if (target < 0 || target >= priorities.length) return;
+    
+    [priorities[index], priorities[target]] = [priorities[target], priorities[index]];
+    engine.setPowerPriorities(priorities);
+    setPower({ ...power, priorities });
+  };
+
+  const selectFlightMode = (mode: FlightMode) => {
+    if (!engine) return;
+    
+    if (mode === 'waypoint') {
+      // Re-selecting WPT steps to the next mission waypoint
+      const waypoints = engine.getMissionWaypoints();
+      if (waypoints.length > 0) {
+        const nextIndex = flightMode === 'waypoint' ? (waypointIndex + 1) % waypoints.length : waypointIndex;
+        setWaypointIndex(nextIndex);
+        engine.setAutopilotTargets({ waypoint: waypoints[nextIndex] });
+      }
+    }
+    
+    engine.setFlightMode(mode);
+    setFlightMode(mode);
+    
+    if (navigator.vibrate) {
+      navigator.vibrate(30);
+    }
+  };
+
+  const selectCameraMode = (mode: CameraMode) => {
+    if (!engine) return;
+    engine.setCameraMode(mode);
+    setCameraMode(mode);
+  };
+
+  const changeCameraFov = (degrees: number) => {
+    if (!engine) return;
+    engine.setCameraFov(degrees);
+    setCameraFov(engine.getCameraFov());
+  };
+
   const toggleCloaking = () => {
-    const newState = !gameState.systems.cloaking.active;
+    const newState = !liveSystems.cloaking.active;
     onSystemUpdate('cloaking', { active: newState });
     
     // Strong haptic feedback for cloaking
@@ -56,14 +141,20 @@ const HUD: React.FC<HUDProps> = ({ gameState, onSystemUpdate, engine }) => {
           <div className="grid grid-cols-3 gap-4 text-cyan-400 font-mono">
             {/* Altitude */}
             <div className="text-center">
-              <div className="text-xs text-cyan-300">ALT</div>
+              <div className="text-xs text-cyan-300">ALT AGL</div>
               <div className="text-2xl font-bold">{altitude}m</div>
+              {flightState !== 'airborne' && (
+                <div className={`text-xs font-bold ${flightState === 'crashed' ? 'text-red-400 animate-pulse' : 'text-green-400'}`}>
+                  {flightState === 'crashed' ? 'CRASHED' : 'LANDED'}
+                </div>
+              )}
             </div>
             
             {/* Speed */}
             <div className="text-center">
               <div className="text-xs text-cyan-300">SPD</div>
               <div className="text-2xl font-bold">{speed}</div>
+              <div className="text-xs text-cyan-300">THR {throttle}%</div>
             </div>
             
             {/* Heading */}
@@ -93,14 +184,14 @@ const HUD: React.FC<HUDProps> = ({ gameState, onSystemUpdate, engine }) => {
           <button
             onClick={toggleCloaking}
             className={`flex items-center space-x-2 px-3 py-2 rounded-lg backdrop-blur-sm border transition-all duration-300 ${
-              gameState.systems.cloaking.active
+              liveSystems.cloaking.active
                 ? 'bg-purple-900/70 border-purple-500/50 text-purple-300'
                 : 'bg-black/70 border-gray-500/30 text-gray-400'
             }`}
           >
             <Eye className="w-4 h-4" />
             <span className="text-xs font-mono">
-              {gameState.systems.cloaking.active ? 'CLOAKED' : 'VISIBLE'}
+              {liveSystems.cloaking.active ? 'CLOAKED' : 'VISIBLE'}
             </span>
           </button>
 
@@ -108,12 +199,55 @@ const HUD: React.FC<HUDProps> = ({ gameState, onSystemUpdate, engine }) => {
           <div className="flex items-center space-x-2 bg-black/70 backdrop-blur-sm border border-green-500/30 rounded-lg px-3 py-2">
             <Radar className="w-4 h-4 text-green-400" />
             <div className="w-16 h-2 bg-gray-700 rounded-full overflow-hidden">
-              <div className="h-full bg-gradient-to-r from-green-400 to-green-600 w-full" />
+              <div
+                className="h-full bg-gradient-to-r from-green-400 to-green-600 transition-all duration-300"
+                style={{ width: `${(power ? power.allocations.sensors.ratio : 1) * 100}%` }}
+              />
             </div>
           </div>
         </div>
       </div>
 
+      {/* Flight Control Computer */}
+      <div className="absolute left-4 top-1/2 -translate-y-1/2 pointer-events-auto">
+        <div className="bg-black/70 backdrop-blur-sm border border-cyan-500/30 rounded-lg p-2 space-y-1">
+          <div className="flex items-center justify-center space-x-1 text-cyan-300 mb-1">
+            <Navigation className="w-3 h-3" />
+            <span className="text-[10px] font-mono">FCC</span>
+          </div>
+          {FLIGHT_MODES.map(mode => (
+            <button
+              key={mode}
+              onClick={() => selectFlightMode(mode)}
+              className={`block w-16 py-1 rounded text-xs font-mono transition-colors ${
+                flightMode === mode
+                  ? 'bg-cyan-600/80 text-white'
+                  : 'bg-gray-800/60 text-cyan-400 hover:bg-gray-700/60'
+              }`}
+            >
+              {FLIGHT_MODE_LABELS[mode]}
+              {mode === 'waypoint' && flightMode === 'waypoint' && ` ${waypointIndex + 1}`}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Thermal Warning */}
+      {thermal && thermal.status !== 'nominal' && (
+        <div className="absolute top-36 left-1/2 -translate-x-1/2 pointer-events-none">
+          <div className={`flex items-center space-x-2 px-4 py-2 rounded-lg backdrop-blur-sm border font-mono text-xs ${
+            thermal.status === 'warning'
+              ? 'bg-amber-900/70 border-amber-500/50 text-amber-300'
+              : 'bg-red-900/70 border-red-500/50 text-red-300 animate-pulse'
+          }`}>
+            <Thermometer className="w-4 h-4" />
+            <span>
+              {thermal.status === 'shutdown' ? 'THERMAL SHUTDOWN' : thermal.status === 'critical' ? 'COIL OVERHEAT - THRUST LIMITED' : 'THERMAL WARNING'}
+            </span>
+          </div>
+        </div>
+      )}
+
       {/* Touch Flight Controls - Mobile Optimized */}
       <div className="absolute bottom-4 left-4 right-4 pointer-events-auto md:hidden">
         <div className="grid grid-cols-2 gap-4">
@@ -154,11 +288,79 @@ const HUD: React.FC<HUDProps> = ({ gameState, onSystemUpdate, engine }) => {
         <Settings className="w-6 h-6 text-cyan-400" />
       </button>
 
+      {/* Control Bindings Toggle */}
+      <button
+        onClick={() => setShowControlSettings(true)}
+        className="absolute bottom-4 right-20 w-12 h-12 bg-black/70 backdrop-blur-sm border border-cyan-500/30 rounded-lg flex items-center justify-center pointer-events-auto"
+      >
+        <Gamepad2 className="w-6 h-6 text-cyan-400" />
+      </button>
+
+      {showControlSettings && engine && (
+        <ControlSettings engine={engine} onClose={() => setShowControlSettings(false)} />
+      )}
+
+      {/* Graphics Quality Toggle */}
+      <button
+        onClick={() => setShowGraphicsSettings(true)}
+        className="absolute bottom-4 right-36 w-12 h-12 bg-black/70 backdrop-blur-sm border border-cyan-500/30 rounded-lg flex items-center justify-center pointer-events-auto"
+      >
+        <Monitor className="w-6 h-6 text-cyan-400" />
+      </button>
+
+      {showGraphicsSettings && engine && (
+        <GraphicsSettings engine={engine} onClose={() => setShowGraphicsSettings(false)} />
+      )}
+
+      {/* Performance Overlay Toggle */}
+      <button
+        onClick={() => setShowPerformance(!showPerformance)}
+        className="absolute bottom-4 right-52 w-12 h-12 bg-black/70 backdrop-blur-sm border border-cyan-500/30 rounded-lg flex items-center justify-center pointer-events-auto"
+      >
+        <Gauge className="w-6 h-6 text-cyan-400" />
+      </button>
+
+      {showPerformance && engine && (
+        <PerformanceOverlay engine={engine} onClose={() => setShowPerformance(false)} />
+      )}
+
       {/* Advanced Systems Panel */}
       {showSystemPanel && (
-        <div className="absolute bottom-20 right-4 w-80 bg-black/90 backdrop-blur-sm border border-cyan-500/50 rounded-lg p-4 pointer-events-auto">
+        <div className="absolute bottom-20 right-4 w-80 max-h-[70vh] overflow-y-auto bg-black/90 backdrop-blur-sm border border-cyan-500/50 rounded-lg p-4 pointer-events-auto">
           <h3 className="text-cyan-400 font-bold mb-4">SYSTEM DIAGNOSTICS</h3>
           
+          {/* Camera */}
+          <div className="mb-4">
+            <h4 className="text-cyan-400 text-sm mb-2 flex items-center space-x-1">
+              <Camera className="w-3 h-3" />
+              <span>CAMERA</span>
+            </h4>
+            <div className="grid grid-cols-4 gap-1 mb-2">
+              {CAMERA_MODES.map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => selectCameraMode(mode)}
+                  className={`py-1 rounded text-xs font-mono uppercase transition-colors ${
+                    cameraMode === mode
+                      ? 'bg-cyan-600/80 text-white'
+                      : 'bg-gray-800/60 text-cyan-400 hover:bg-gray-700/60'
+                  }`}
+                >
+                  {mode}
+                </button>
+              ))}
+            </div>
+            <label className="text-xs text-gray-300">Field of View: {cameraFov}°</label>
+            <input
+              type="range"
+              min="40"
+              max="110"
+              value={cameraFov}
+              onChange={(e) => changeCameraFov(parseInt(e.target.value))}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+            />
+          </div>
+
           {/* Propulsion Controls */}
           <div className="mb-4">
             <h4 className="text-blue-400 text-sm mb-2">PROPULSION MATRIX</h4>
@@ -174,17 +376,6 @@ const HUD: React.FC<HUDProps> = ({ gameState, onSystemUpdate, engine }) => {
                   className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer slider-thumb"
                 />
               </div>
-              <div>
-                <label className="text-xs text-gray-300">Coil Temperature: {Math.round(gameState.systems.propulsion.coilTemp * 100)}%</label>
-                <input
-                  type="range"
-                  min="0"
-                  max="100"
-                  value={gameState.systems.propulsion.coilTemp * 100}
-                  onChange={(e) => handlePropulsionChange('coilTemp', parseInt(e.target.value) / 100)}
-                  className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
-                />
-              </div>
               <div>
                 <label className="text-xs text-gray-300">Anti-Gravity: {Math.round(gameState.systems.propulsion.antiGravity * 100)}%</label>
                 <input
@@ -199,17 +390,113 @@ const HUD: React.FC<HUDProps> = ({ gameState, onSystemUpdate, engine }) => {
             </div>
           </div>
 
+          {/* Power Distribution */}
+          {power && (
+            <div className="mb-4">
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-yellow-400 text-sm">POWER DISTRIBUTION</h4>
+                {power.brownout && (
+                  <span className="flex items-center space-x-1 text-xs text-red-400 animate-pulse">
+                    <BatteryWarning className="w-3 h-3" />
+                    <span>BROWNOUT</span>
+                  </span>
+                )}
+              </div>
+              <div className="flex items-center justify-between text-xs text-gray-300 mb-1">
+                <span>Reactor Load:</span>
+                <span className={power.brownout ? 'text-red-300' : 'text-yellow-300'}>
+                  {power.totalDemand.toFixed(1)} / {power.reactorOutput.toFixed(1)} MW
+                </span>
+              </div>
+              <div className="w-full h-2 bg-gray-700 rounded-full mb-2">
+                <div
+                  className={`h-full rounded-full transition-all duration-300 ${power.brownout ? 'bg-red-500' : 'bg-gradient-to-r from-yellow-600 to-yellow-400'}`}
+                  style={{ width: `${Math.min(1, power.totalDemand / power.reactorOutput) * 100}%` }}
+                />
+              </div>
+              <div className="space-y-1">
+                {power.priorities.map((consumer, index) => {
+                  const allocation = power.allocations[consumer];
+                  return (
+                    <div key={consumer} className="flex items-center space-x-2">
+                      <span className="w-4 text-xs text-gray-500">{index + 1}</span>
+                      <span className="w-20 text-xs text-gray-300 uppercase">{consumer}</span>
+                      <div className="flex-1 h-2 bg-gray-700 rounded-full">
+                        <div
+                          className={`h-full rounded-full transition-all duration-300 ${allocation.ratio < 1 ? 'bg-red-500' : 'bg-yellow-400'}`}
+                          style={{ width: `${allocation.ratio * 100}%` }}
+                        />
+                      </div>
+                      <span className="w-12 text-right text-xs text-gray-400">{allocation.supplied.toFixed(1)}</span>
+                      <button
+                        onClick={() => movePowerPriority(consumer, -1)}
+                        disabled={index === 0}
+                        className="text-yellow-400 disabled:text-gray-600"
+                      >
+                        <ChevronUp className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => movePowerPriority(consumer, 1)}
+                        disabled={index === power.priorities.length - 1}
+                        className="text-yellow-400 disabled:text-gray-600"
+                      >
+                        <ChevronDown className="w-4 h-4" />
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {/* Thermal Status */}
+          <div className="mb-4">
+            <h4 className="text-orange-400 text-sm mb-2">THERMAL REGULATION</h4>
+            <div className="space-y-2">
+              <div>
+                <div className="flex items-center justify-between">
+                  <span className="text-xs text-gray-300">Coil Temperature:</span>
+                  <span className="text-xs text-orange-300">{Math.round(liveSystems.propulsion.coilTemp * 100)}%</span>
+                </div>
+                <div className="w-full h-2 bg-gray-700 rounded-full mt-1">
+                  <div
+                    className="h-full bg-gradient-to-r from-orange-600 to-red-500 rounded-full transition-all duration-300"
+                    style={{ width: `${liveSystems.propulsion.coilTemp * 100}%` }}
+                  />
+                </div>
+              </div>
+              <div>
+                <div className="flex items-center justify-between">
+                  <span className="text-xs text-gray-300">Cloak Skin Heat:</span>
+                  <span className="text-xs text-orange-300">{Math.round(liveSystems.cloaking.heat * 100)}%</span>
+                </div>
+                <div className="w-full h-2 bg-gray-700 rounded-full mt-1">
+                  <div
+                    className="h-full bg-gradient-to-r from-orange-600 to-red-500 rounded-full transition-all duration-300"
+                    style={{ width: `${liveSystems.cloaking.heat * 100}%` }}
+                  />
+                </div>
+              </div>
+              {thermal && (
+                <div className="flex items-center justify-between text-xs">
+                  <span className="text-gray-300">Radiators: {Math.round(thermal.radiatorEfficiency * 100)}%</span>
+                  <span className="text-gray-300">Thrust Limit: {Math.round(thermal.thrustLimit * 100)}%</span>
+                </div>
+              )}
+            </div>
+          </div>
+
           {/* Cloaking Status */}
           <div className="mb-4">
             <h4 className="text-purple-400 text-sm mb-2">METAMATERIAL CLOAK</h4>
             <div className="flex items-center justify-between">
               <span className="text-xs text-gray-300">Integrity:</span>
-              <span className="text-xs text-purple-300">{Math.round(gameState.systems.cloaking.integrity * 100)}%</span>
+              <span className="text-xs text-purple-300">{Math.round(liveSystems.cloaking.integrity * 100)}%</span>
             </div>
             <div className="w-full h-2 bg-gray-700 rounded-full mt-1">
               <div 
                 className="h-full bg-gradient-to-r from-purple-600 to-purple-400 rounded-full transition-all duration-300"
-                style={{ width: `${gameState.systems.cloaking.integrity * 100}%` }}
+                style={{ width: `${liveSystems.cloaking.integrity * 100}%` }}
               />
             </div>
           </div>
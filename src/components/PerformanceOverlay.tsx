@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import { Download, Gauge, X } from 'lucide-react';
+import { CpuTimingCategory, PerformanceSample } from '../types/GameTypes';
+import GameEngine from '../engine/GameEngine';
+import { CPU_TIMING_CATEGORIES } from '../engine/PerformanceMonitor';
+
+interface PerformanceOverlayProps {
+  engine: GameEngine;
+  onClose: () => void;
+}
+
+const GRAPH_WIDTH = 256;
+const GRAPH_HEIGHT = 64;
+const GRAPH_SAMPLES = 256; // one per pixel column
+const GRAPH_RANGE = 50; // ms at the top of the graph
+const FRAME_BUDGETS = [1000 / 60, 1000 / 30]; // ms, drawn as guides
+
+const CATEGORY_COLORS: Record<CpuTimingCategory, string> = {
+  input: 'text-green-400',
+  physics: 'text-amber-400',
+  audio: 'text-pink-400',
+  render: 'text-cyan-400'
+};
+
+const average = (samples: PerformanceSample[], value: (sample: PerformanceSample) => number) =>
+  samples.length > 0 ? samples.reduce((total, sample) => total + value(sample), 0) / samples.length : 0;
+
+const formatCount = (count: number) =>
+  count >= 1e6 ? `${(count / 1e6).toFixed(1)}M` : count >= 1e3 ? `${(count / 1e3).toFixed(1)}k` : `${Math.round(count)}`;
+
+// The most recent second of frames, for steady readouts
+function lastSecond(history: PerformanceSample[]): PerformanceSample[] {
+  let elapsed = 0;
+  let start = history.length;
+  while (start > 0 && elapsed < 1000) {
+    start--;
+    elapsed += history[start].frameTime;
+  }
+  return history.slice(start);
+}
+
+function graphLine(samples: PerformanceSample[], value: (sample: PerformanceSample) => number | null): string {
+  const offset = GRAPH_SAMPLES - samples.length;
+  return samples
+    .map((sample, index) => [index, value(sample)] as const)
+    .filter((point): point is readonly [number, number] => point[1] !== null)
+    .map(([index, time]) => `${offset + index},${GRAPH_HEIGHT * (1 - Math.min(time, GRAPH_RANGE) / GRAPH_RANGE)}`)
+    .join(' ');
+}
+
+const PerformanceOverlay: React.FC<PerformanceOverlayProps> = ({ engine, onClose }) => {
+  const [history, setHistory] = useState<PerformanceSample[]>([]);
+
+  // Recording runs only while the overlay is open
+  useEffect(() => {
+    engine.setPerformanceMonitoring(true);
+    const interval = setInterval(() => setHistory(engine.getPerformanceHistory()), 250);
+    return () => {
+      clearInterval(interval);
+      engine.setPerformanceMonitoring(false);
+    };
+  }, [engine]);
+
+  const exportCapture = () => {
+    const blob = new Blob([engine.exportPerformanceCapture()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `manta-performance-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const graphed = history.slice(-GRAPH_SAMPLES);
+  const recent = lastSecond(history);
+  const latest = history.length > 0 ? history[history.length - 1] : null;
+  const frameTime = average(recent, sample => sample.frameTime);
+  const gpuSamples = recent.filter(sample => sample.gpuTime !== null);
+
+  const readouts: [string, string][] = latest ? [
+    ['Draw calls', formatCount(latest.drawCalls)],
+    ['Triangles', formatCount(latest.triangles)],
+    ['Buffer memory', `${(latest.bufferMemory / (1024 * 1024)).toFixed(1)} MB`],
+    ['Audio nodes', `${latest.audioNodes}`],
+    ['Terrain chunks', `${latest.terrainChunks}`],
+    ['Buildings', formatCount(latest.buildings)]
+  ] : [];
+
+  return (
+    <div className="absolute left-4 bottom-20 w-72 bg-black/80 backdrop-blur-sm border border-cyan-500/30 rounded-lg p-3 pointer-events-auto font-mono text-xs">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-2 text-cyan-400">
+          <Gauge className="w-4 h-4" />
+          <h3 className="font-bold">PERFORMANCE</h3>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={exportCapture}
+            disabled={history.length === 0}
+            className="flex items-center space-x-1 px-2 py-0.5 rounded bg-gray-800/60 text-cyan-400 hover:bg-gray-700/60 disabled:opacity-40"
+          >
+            <Download className="w-3 h-3" />
+            <span>JSON</span>
+          </button>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* Frame, CPU and GPU time, newest on the right */}
+      <svg viewBox={`0 0 ${GRAPH_WIDTH} ${GRAPH_HEIGHT}`} className="w-full h-16 bg-gray-900/60 rounded mb-2" preserveAspectRatio="none">
+        {FRAME_BUDGETS.map(budget => (
+          <line
+            key={budget}
+            x1={0}
+            x2={GRAPH_WIDTH}
+            y1={GRAPH_HEIGHT * (1 - budget / GRAPH_RANGE)}
+            y2={GRAPH_HEIGHT * (1 - budget / GRAPH_RANGE)}
+            stroke="rgb(75 85 99)"
+            strokeDasharray="4 4"
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+        <polyline points={graphLine(graphed, sample => sample.frameTime)} fill="none" stroke="rgb(34 211 238)" vectorEffect="non-scaling-stroke" />
+        <polyline points={graphLine(graphed, sample => sample.cpuTime)} fill="none" stroke="rgb(251 191 36)" vectorEffect="non-scaling-stroke" />
+        <polyline points={graphLine(graphed, sample => sample.gpuTime)} fill="none" stroke="rgb(192 132 252)" vectorEffect="non-scaling-stroke" />
+      </svg>
+
+      <div className="flex justify-between mb-2">
+        <span className="text-cyan-400">Frame {frameTime.toFixed(1)} ms ({frameTime > 0 ? Math.round(1000 / frameTime) : 0} fps)</span>
+        <span className="text-purple-400">
+          GPU {gpuSamples.length > 0 ? `${average(gpuSamples, sample => sample.gpuTime ?? 0).toFixed(1)} ms` : 'n/a'}
+        </span>
+      </div>
+
+      {/* CPU time by subsystem, averaged over the last second */}
+      <div className="mb-2">
+        <div className="flex justify-between text-amber-300">
+          <span>CPU</span>
+          <span>{average(recent, sample => sample.cpuTime).toFixed(2)} ms</span>
+        </div>
+        {CPU_TIMING_CATEGORIES.map(category => (
+          <div key={category} className="flex justify-between pl-2">
+            <span className={CATEGORY_COLORS[category]}>{category}</span>
+            <span className="text-gray-300">{average(recent, sample => sample.cpu[category]).toFixed(2)} ms</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-0.5">
+        {readouts.map(([label, value]) => (
+          <div key={label} className="flex justify-between">
+            <span className="text-gray-400">{label}</span>
+            <span className="text-cyan-300">{value}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PerformanceOverlay;
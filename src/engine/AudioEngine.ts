@@ -1,9 +1,103 @@
+import { mat4, vec3 } from 'gl-matrix';
+import { AmbientCue, EnvironmentDescriptor, GameEvent, PropKind, PropPlacement, SystemState, Transform, Vector3 } from '../types/GameTypes';
+import CameraSystem from './CameraSystem';
+import { SceneNode } from './SceneGraph';
+
+// A looping cue heard from a point in the world, at full level within refDistance metres
+export type SpatialCue = AmbientCue & { refDistance: number };
+
+// A sound fixed to a scene node, heard through its own panner
+export interface SoundEmitter {
+  node: SceneNode;
+  panner: PannerNode;
+  sources: (OscillatorNode | AudioBufferSourceNode)[]; // detuned together for Doppler
+  position: vec3;
+  velocity: vec3; // m/s, from the node's movement
+  placed: boolean; // position holds a real reading
+}
+
+// What each kind of prop sounds like up close
+const PROP_SOUNDS: { [kind in PropKind]: SpatialCue | null } = {
+  'radar-site': { type: 'tone', frequency: 100, gain: 0.4, modulationRate: 0.25, refDistance: 40 }, // transformer hum, swelling with the sweep
+  'target': { type: 'noise', cutoff: 350, gain: 0.3, modulationRate: 0.1, refDistance: 30 }, // hangar ventilation
+  'beacon': null
+};
+
+const SPEED_OF_SOUND = 343; // m/s
+const MIN_DOPPLER_RATIO = 0.5;
+const MAX_DOPPLER_RATIO = 2;
+const PARAMETER_SMOOTHING = 0.03; // s, time constant for per-frame parameter changes
+
+const toListener = vec3.create();
+
+// Frequency ratio heard from a moving source by a moving listener
+function dopplerRatio(source: vec3, sourceVelocity: vec3, listener: vec3, listenerVelocity: vec3): number {
+  vec3.subtract(toListener, listener, source);
+  const distance = vec3.length(toListener);
+  if (distance < 1e-3) return 1;
+  // Closing speeds along the line between them
+  const sourceApproach = vec3.dot(sourceVelocity, toListener) / distance;
+  const listenerApproach = -vec3.dot(listenerVelocity, toListener) / distance;
+  const ratio = (SPEED_OF_SOUND + listenerApproach) / Math.max(SPEED_OF_SOUND - sourceApproach, 1);
+  return Math.max(MIN_DOPPLER_RATIO, Math.min(MAX_DOPPLER_RATIO, ratio));
+}
+
+// Pitch shift in cents for the detune parameter
+const ratioToCents = (ratio: number): number => 1200 * Math.log2(ratio);
+
+// Glides to per-frame values so movement doesn't zipper; the first placement jumps straight there
+function setParameter(parameter: AudioParam, value: number, time: number, immediate: boolean): void {
+  if (immediate) {
+    parameter.setValueAtTime(value, time);
+  } else {
+    parameter.setTargetAtTime(value, time, PARAMETER_SMOOTHING);
+  }
+}
+
+// Older WebKit only has the setter methods
+function setPannerPosition(panner: PannerNode, [x, y, z]: vec3, time: number, immediate: boolean): void {
+  if (panner.positionX) {
+    setParameter(panner.positionX, x, time, immediate);
+    setParameter(panner.positionY, y, time, immediate);
+    setParameter(panner.positionZ, z, time, immediate);
+  } else {
+    panner.setPosition(x, y, z);
+  }
+}
+
 export default class AudioEngine {
   private audioContext: AudioContext | null = null;
   private masterGain: GainNode | null = null;
   private plasmaOscillators: OscillatorNode[] = [];
+  private plasmaGains: GainNode[] = [];
+  // The craft's hum reaches the master either head-locked (cockpit) or through a panner at the craft
+  private plasmaPanner: PannerNode | null = null;
+  private plasmaHeadLocked: GainNode | null = null;
+  private plasmaWorld: GainNode | null = null;
+  private plasmaPosition = vec3.create();
+  private plasmaVelocity = vec3.create();
   private systemSounds: { [key: string]: AudioBuffer } = {};
   
+  // Environment ambience: looping sources feeding one bus, replaced per environment
+  private ambienceBus: GainNode | null = null;
+  private ambienceSources: AudioScheduledSourceNode[] = [];
+  private noiseBuffer: AudioBuffer | null = null;
+  
+  // Every source from start until it ends, for the performance overlay
+  private activeSources: Set<AudioScheduledSourceNode> = new Set();
+  
+  // The listener rides the active camera; emitters follow their scene nodes
+  private listenerPosition = vec3.create();
+  private listenerVelocity = vec3.create();
+  private listenerPlaced = false;
+  private emitters: SoundEmitter[] = [];
+  private propEmitters: SoundEmitter[] = [];
+  private emitterPosition = vec3.create();
+  private extrapolated = vec3.create();
+  
+  private readonly PLASMA_REF_DISTANCE = 25; // m, about the chase camera's reach, so the hum holds its cockpit level there
+  private readonly TELEPORT_DISTANCE = 50; // m off the path the last velocity predicts, beyond which a move is a jump
+  
   async initialize(): Promise<void> {
     try {
       this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
@@ -20,14 +114,36 @@ export default class AudioEngine {
     }
   }
   
+  private track<T extends AudioScheduledSourceNode>(source: T): T {
+    this.activeSources.add(source);
+    source.addEventListener('ended', () => this.activeSources.delete(source));
+    return source;
+  }
+  
+  // Playing sources; the rest of the graph only runs while they feed it
+  getActiveNodeCount(): number {
+    return this.activeSources.size;
+  }
+  
   private createPlasmaOscillators(): void {
     if (!this.audioContext || !this.masterGain) return;
     
+    const plasmaBus = this.audioContext.createGain();
+    this.plasmaHeadLocked = this.audioContext.createGain();
+    this.plasmaWorld = this.audioContext.createGain();
+    this.plasmaPanner = this.createPanner(this.PLASMA_REF_DISTANCE);
+    plasmaBus.connect(this.plasmaHeadLocked);
+    plasmaBus.connect(this.plasmaPanner);
+    this.plasmaPanner.connect(this.plasmaWorld);
+    this.plasmaHeadLocked.connect(this.masterGain);
+    this.plasmaWorld.connect(this.masterGain);
+    this.plasmaHeadLocked.gain.value = 0;
+    
     // Create three oscillators for the plasma rings (432.7 THz fundamental)
     const frequencies = [432.7, 865.4, 1298.1]; // Harmonics
     
     for (let i = 0; i < 3; i++) {
-      const oscillator = this.audioContext.createOscillator();
+      const oscillator = this.track(this.audioContext.createOscillator());
       const gain = this.audioContext.createGain();
       
       oscillator.type = 'sine';
@@ -35,21 +151,28 @@ export default class AudioEngine {
       gain.gain.value = 0.0; // Start silent
       
       oscillator.connect(gain);
-      gain.connect(this.masterGain);
+      gain.connect(plasmaBus);
       
       oscillator.start();
       this.plasmaOscillators.push(oscillator);
+      this.plasmaGains.push(gain);
     }
   }
   
-  update(deltaTime: number, systemStates: any, craftTransform: any): void {
+  update(
+    deltaTime: number,
+    systemStates: SystemState,
+    craftTransform: Transform,
+    craftVelocity: Vector3,
+    camera: CameraSystem
+  ): void {
     if (!this.audioContext || !this.masterGain) return;
     
     // Update plasma ring audio based on propulsion state
     this.updatePlasmaAudio(systemStates.propulsion);
     
-    // Update 3D spatial audio positioning
-    this.updateSpatialAudio(craftTransform);
+    // Place the listener and every emitter for this frame
+    this.updateSpatialAudio(deltaTime, camera, craftTransform, craftVelocity);
     
     // Handle cloaking audio effects
     if (systemStates.cloaking.active) {
@@ -57,7 +180,7 @@ export default class AudioEngine {
     }
   }
   
-  private updatePlasmaAudio(propulsion: any): void {
+  private updatePlasmaAudio(propulsion: SystemState['propulsion']): void {
     if (this.plasmaOscillators.length === 0) return;
     
     const intensity = propulsion.plasmaRate * propulsion.antiGravity;
@@ -65,7 +188,7 @@ export default class AudioEngine {
     
     // Modulate oscillator volumes and frequencies
     this.plasmaOscillators.forEach((oscillator, index) => {
-      const gainNode = oscillator.context.createGain();
+      const gainNode = this.plasmaGains[index];
       const baseFreq = 432.7 * (index + 1);
       const freqModulation = temperature * 50; // Temperature affects frequency
       
@@ -82,9 +205,127 @@ export default class AudioEngine {
     });
   }
   
-  private updateSpatialAudio(transform: any): void {
-    // Implement 3D audio positioning based on craft movement
-    // This would use Web Audio API's PannerNode for true 3D audio
+  private updateSpatialAudio(deltaTime: number, camera: CameraSystem, craftTransform: Transform, craftVelocity: Vector3): void {
+    const time = this.audioContext!.currentTime;
+    
+    const { position } = craftTransform;
+    vec3.set(this.plasmaPosition, position.x, position.y, position.z);
+    vec3.set(this.plasmaVelocity, craftVelocity.x, craftVelocity.y, craftVelocity.z);
+    
+    // A camera riding the craft moves with it; otherwise the listener's velocity comes from the camera's own movement
+    const listenerPlaced = this.listenerPlaced;
+    this.trackVelocity(this.listenerPosition, this.listenerVelocity, camera.getPosition(), deltaTime, listenerPlaced);
+    if (camera.getMode() === 'chase' || camera.getMode() === 'cockpit') {
+      vec3.copy(this.listenerVelocity, this.plasmaVelocity);
+    }
+    this.listenerPlaced = true;
+    this.placeListener(camera.getViewMatrix(), time, !listenerPlaced);
+    
+    for (const emitter of this.emitters) {
+      mat4.getTranslation(this.emitterPosition, emitter.node.worldMatrix);
+      this.trackVelocity(emitter.position, emitter.velocity, this.emitterPosition, deltaTime, emitter.placed);
+      setPannerPosition(emitter.panner, emitter.position, time, !emitter.placed);
+      emitter.placed = true;
+      
+      const cents = ratioToCents(dopplerRatio(emitter.position, emitter.velocity, this.listenerPosition, this.listenerVelocity));
+      emitter.sources.forEach(source => source.detune.setTargetAtTime(cents, time, PARAMETER_SMOOTHING));
+    }
+    
+    // The craft's own hum stays head-locked from the cockpit, and is placed at the craft from outside
+    if (!this.plasmaPanner || !this.plasmaHeadLocked || !this.plasmaWorld) return;
+    const headLocked = camera.getMode() === 'cockpit';
+    this.plasmaHeadLocked.gain.setTargetAtTime(headLocked ? 1 : 0, time, PARAMETER_SMOOTHING);
+    this.plasmaWorld.gain.setTargetAtTime(headLocked ? 0 : 1, time, PARAMETER_SMOOTHING);
+    
+    setPannerPosition(this.plasmaPanner, this.plasmaPosition, time, !listenerPlaced);
+    const cents = headLocked
+      ? 0
+      : ratioToCents(dopplerRatio(this.plasmaPosition, this.plasmaVelocity, this.listenerPosition, this.listenerVelocity));
+    this.plasmaOscillators.forEach(oscillator => oscillator.detune.setTargetAtTime(cents, time, PARAMETER_SMOOTHING));
+  }
+  
+  // Velocity from the change in position. A first reading, or a jump well off the path the last velocity
+  // predicts (mission start, a camera switch), reads as standing still; fast continuous movement does not.
+  private trackVelocity(position: vec3, velocity: vec3, next: vec3, deltaTime: number, placed: boolean): void {
+    vec3.scaleAndAdd(this.extrapolated, position, velocity, deltaTime);
+    const jumped = vec3.distance(this.extrapolated, next) > this.TELEPORT_DISTANCE;
+    if (placed && deltaTime > 0 && !jumped) {
+      vec3.subtract(velocity, next, position);
+      vec3.scale(velocity, velocity, 1 / deltaTime);
+    } else {
+      vec3.zero(velocity);
+    }
+    vec3.copy(position, next);
+  }
+  
+  // The view matrix's rows are the camera's axes in world space
+  private placeListener(view: mat4, time: number, immediate: boolean): void {
+    const listener = this.audioContext!.listener;
+    const [x, y, z] = this.listenerPosition;
+    const forward = [-view[2], -view[6], -view[10]];
+    const up = [view[1], view[5], view[9]];
+    if (listener.positionX) {
+      setParameter(listener.positionX, x, time, immediate);
+      setParameter(listener.positionY, y, time, immediate);
+      setParameter(listener.positionZ, z, time, immediate);
+      setParameter(listener.forwardX, forward[0], time, immediate);
+      setParameter(listener.forwardY, forward[1], time, immediate);
+      setParameter(listener.forwardZ, forward[2], time, immediate);
+      setParameter(listener.upX, up[0], time, immediate);
+      setParameter(listener.upY, up[1], time, immediate);
+      setParameter(listener.upZ, up[2], time, immediate);
+    } else {
+      listener.setPosition(x, y, z);
+      listener.setOrientation(forward[0], forward[1], forward[2], up[0], up[1], up[2]);
+    }
+  }
+  
+  private createPanner(refDistance: number): PannerNode {
+    const panner = this.audioContext!.createPanner();
+    panner.panningModel = 'HRTF';
+    panner.distanceModel = 'inverse';
+    panner.refDistance = refDistance;
+    panner.rolloffFactor = 1;
+    return panner;
+  }
+  
+  // Plays the cue from the node's position until detached
+  attachSound(node: SceneNode, cue: SpatialCue): SoundEmitter | null {
+    if (!this.audioContext || !this.masterGain) return null;
+    
+    const panner = this.createPanner(cue.refDistance);
+    panner.connect(this.masterGain);
+    const emitter: SoundEmitter = {
+      node,
+      panner,
+      sources: this.startCue(cue, panner),
+      position: vec3.create(),
+      velocity: vec3.create(),
+      placed: false
+    };
+    this.emitters.push(emitter);
+    return emitter;
+  }
+  
+  detachSound(emitter: SoundEmitter): void {
+    const index = this.emitters.indexOf(emitter);
+    if (index === -1) return;
+    this.emitters.splice(index, 1);
+    emitter.sources.forEach(source => source.stop());
+    emitter.panner.disconnect();
+  }
+  
+  // Replaces the previous props' sounds; nodes line up with the placements by index
+  attachPropSounds(props: PropPlacement[], nodes: SceneNode[]): void {
+    this.propEmitters.forEach(emitter => this.detachSound(emitter));
+    this.propEmitters = [];
+    props.forEach((placement, index) => {
+      const cue = PROP_SOUNDS[placement.kind];
+      const emitter = cue && nodes[index] ? this.attachSound(nodes[index], cue) : null;
+      if (emitter) {
+        this.propEmitters.push(emitter);
+      }
+    });
   }
   
   private applyDistortionEffects(cloakingIntegrity: number): void {
@@ -121,7 +362,7 @@ export default class AudioEngine {
     if (!this.audioContext || !this.masterGain) return;
     
     // Create a sweep effect for cloaking activation
-    const oscillator = this.audioContext.createOscillator();
+    const oscillator = this.track(this.audioContext.createOscillator());
     const gain = this.audioContext.createGain();
     
     oscillator.type = 'sine';
@@ -154,7 +395,7 @@ export default class AudioEngine {
     if (!this.audioContext || !this.masterGain) return;
     
     // Create a brief ping sound for sensor activation
-    const oscillator = this.audioContext.createOscillator();
+    const oscillator = this.track(this.audioContext.createOscillator());
     const gain = this.audioContext.createGain();
     
     oscillator.type = 'sine';
@@ -170,6 +411,136 @@ export default class AudioEngine {
     oscillator.stop(this.audioContext.currentTime + 0.1);
   }
   
+  playEventSound(event: GameEvent): void {
+    if (!this.audioContext || !this.masterGain) return;
+    
+    // Alert tones: pitch and repeat count scale with severity
+    switch (event.type) {
+      case 'thermal-warning':
+        this.playAlertTone(660, 2);
+        break;
+      case 'thermal-shutdown':
+        this.playAlertTone(330, 4);
+        break;
+      case 'thermal-recovered':
+      case 'power-restored':
+        this.playAlertTone(880, 1);
+        break;
+      case 'power-brownout':
+      case 'controller-disconnected':
+        this.playAlertTone(440, 2);
+        break;
+      case 'cloak-collapse':
+        this.playAlertTone(220, 3);
+        break;
+      case 'touchdown':
+      case 'controller-connected':
+        this.playAlertTone(660, 1);
+        break;
+      case 'crash':
+        this.playAlertTone(110, 6);
+        break;
+    }
+  }
+  
+  private playAlertTone(frequency: number, repeats: number): void {
+    if (!this.audioContext || !this.masterGain) return;
+    
+    for (let i = 0; i < repeats; i++) {
+      const startTime = this.audioContext.currentTime + i * 0.25;
+      const oscillator = this.track(this.audioContext.createOscillator());
+      const gain = this.audioContext.createGain();
+      
+      oscillator.type = 'square';
+      oscillator.frequency.value = frequency;
+      
+      gain.gain.setValueAtTime(0.08, startTime);
+      gain.gain.exponentialRampToValueAtTime(0.01, startTime + 0.15);
+      
+      oscillator.connect(gain);
+      gain.connect(this.masterGain);
+      
+      oscillator.start(startTime);
+      oscillator.stop(startTime + 0.15);
+    }
+  }
+  
+  loadEnvironment(environment: EnvironmentDescriptor): void {
+    this.stopAmbience();
+    if (!this.audioContext || !this.masterGain) return;
+    
+    this.ambienceBus = this.audioContext.createGain();
+    this.ambienceBus.connect(this.masterGain);
+    for (const cue of environment.ambience) {
+      this.ambienceSources.push(...this.startCue(cue, this.ambienceBus));
+    }
+  }
+  
+  // Starts a looping cue into the destination; returns its sources so they can be detuned and stopped
+  private startCue(cue: AmbientCue, destination: AudioNode): SoundEmitter['sources'] {
+    if (!this.audioContext) return [];
+    const sources: SoundEmitter['sources'] = [];
+    
+    const gain = this.audioContext.createGain();
+    gain.gain.value = cue.gain;
+    gain.connect(destination);
+    
+    if (cue.type === 'tone') {
+      const oscillator = this.track(this.audioContext.createOscillator());
+      oscillator.type = 'sine';
+      oscillator.frequency.value = cue.frequency;
+      oscillator.connect(gain);
+      oscillator.start();
+      sources.push(oscillator);
+    } else {
+      const noise = this.track(this.audioContext.createBufferSource());
+      noise.buffer = this.getNoiseBuffer();
+      noise.loop = true;
+      const filter = this.audioContext.createBiquadFilter();
+      filter.type = 'lowpass';
+      filter.frequency.value = cue.cutoff;
+      noise.connect(filter);
+      filter.connect(gain);
+      noise.start();
+      sources.push(noise);
+    }
+    
+    // Slow swell so the sound never feels static
+    if (cue.modulationRate > 0) {
+      const lfo = this.track(this.audioContext.createOscillator());
+      const depth = this.audioContext.createGain();
+      lfo.frequency.value = cue.modulationRate;
+      depth.gain.value = cue.gain * 0.5;
+      lfo.connect(depth);
+      depth.connect(gain.gain);
+      lfo.start();
+      sources.push(lfo);
+    }
+    return sources;
+  }
+  
+  // Two seconds of white noise, looped by every noise cue
+  private getNoiseBuffer(): AudioBuffer {
+    if (!this.noiseBuffer) {
+      const context = this.audioContext!;
+      this.noiseBuffer = context.createBuffer(1, context.sampleRate * 2, context.sampleRate);
+      const samples = this.noiseBuffer.getChannelData(0);
+      for (let i = 0; i < samples.length; i++) {
+        samples[i] = Math.random() * 2 - 1;
+      }
+    }
+    return this.noiseBuffer;
+  }
+  
+  private stopAmbience(): void {
+    this.ambienceSources.forEach(source => source.stop());
+    this.ambienceSources = [];
+    if (this.ambienceBus) {
+      this.ambienceBus.disconnect();
+      this.ambienceBus = null;
+    }
+  }
+  
   playMissionAudio(missionType: string): void {
     console.log(`Playing mission audio for: ${missionType}`);
     // Load and play mission-specific audio
@@ -177,8 +548,12 @@ export default class AudioEngine {
   
   cleanup(): void {
     if (this.audioContext) {
+      this.stopAmbience();
+      [...this.emitters].forEach(emitter => this.detachSound(emitter));
+      this.propEmitters = [];
       this.plasmaOscillators.forEach(osc => osc.stop());
       this.audioContext.close();
     }
+    this.activeSources.clear();
   }
 }
\ No newline at end of file
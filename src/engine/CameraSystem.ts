@@ -0,0 +1,217 @@
+import { mat4, quat, vec3 } from 'gl-matrix';
+import { CameraMode, ControlAxes, Transform } from '../types/GameTypes';
+
+export const CAMERA_MODES: CameraMode[] = ['chase', 'cockpit', 'orbit', 'free'];
+
+// Critically damped spring (closed form), stable for any frame time
+function smoothDamp(current: number, target: number, velocity: { value: number }, smoothTime: number, deltaTime: number): number {
+  const omega = 2 / smoothTime;
+  const x = omega * deltaTime;
+  const decay = 1 / (1 + x + 0.48 * x * x + 0.235 * x * x * x);
+  const change = current - target;
+  const temp = (velocity.value + omega * change) * deltaTime;
+  velocity.value = (velocity.value - omega * temp) * decay;
+  return target + (change + temp) * decay;
+}
+
+export default class CameraSystem {
+  private mode: CameraMode = 'chase';
+  private fov = 60; // degrees, vertical
+
+  private position = vec3.fromValues(0, 108, 30);
+  private viewMatrix = mat4.create();
+  private springVelocity = [{ value: 0 }, { value: 0 }, { value: 0 }];
+
+  // Orbit and free-fly angles (rad)
+  private orbitYaw = 0;
+  private orbitPitch = 0.3;
+  private orbitDistance = 30;
+  private freeYaw = 0;
+  private freePitch = 0;
+
+  // Chase rig
+  private chaseDistance = 24;
+  private readonly CHASE_HEIGHT = 6;
+  private readonly CHASE_LOOK_AHEAD = 12;
+  private readonly CHASE_SMOOTH_TIME = 0.25; // s
+  private readonly MIN_CHASE_DISTANCE = 12;
+  private readonly MAX_CHASE_DISTANCE = 80;
+
+  // Eye point in craft body space
+  private readonly COCKPIT_EYE = vec3.fromValues(0, 1.3, -3.5);
+
+  private readonly MIN_ORBIT_DISTANCE = 8;
+  private readonly MAX_ORBIT_DISTANCE = 400;
+  private readonly MAX_ORBIT_PITCH = 1.45;
+  private readonly LOOK_SENSITIVITY = 0.005; // rad per pixel
+  private readonly ZOOM_SENSITIVITY = 0.001;
+
+  // Free-fly speed (m/s), boosted by the throttle lever
+  private readonly FREE_SPEED = 20;
+  private readonly FREE_BOOST_SPEED = 180;
+
+  private readonly MIN_FOV = 40;
+  private readonly MAX_FOV = 110;
+
+  setMode(mode: CameraMode, craftTransform: Transform): void {
+    if (mode === this.mode) return;
+
+    const craft = this.craftPosition(craftTransform);
+    const offset = vec3.subtract(vec3.create(), this.position, craft);
+
+    if (mode === 'orbit') {
+      // Start orbiting from wherever the camera is now
+      this.orbitDistance = Math.min(this.MAX_ORBIT_DISTANCE, Math.max(this.MIN_ORBIT_DISTANCE, vec3.length(offset)));
+      this.orbitYaw = Math.atan2(offset[0], offset[2]);
+      this.orbitPitch = Math.asin(Math.max(-1, Math.min(1, offset[1] / Math.max(vec3.length(offset), 1e-3))));
+    } else if (mode === 'free') {
+      // Keep looking at the craft from the current spot
+      this.freeYaw = Math.atan2(offset[0], offset[2]);
+      this.freePitch = Math.asin(Math.max(-1, Math.min(1, -offset[1] / Math.max(vec3.length(offset), 1e-3))));
+    } else if (mode === 'chase') {
+      this.springVelocity.forEach(velocity => { velocity.value = 0; });
+    }
+
+    this.mode = mode;
+  }
+
+  getMode(): CameraMode {
+    return this.mode;
+  }
+
+  setFov(degrees: number): void {
+    this.fov = Math.max(this.MIN_FOV, Math.min(this.MAX_FOV, degrees));
+  }
+
+  getFov(): number {
+    return this.fov;
+  }
+
+  // Pointer drags steer the orbit and free cameras; other modes ignore them
+  rotate(deltaX: number, deltaY: number): void {
+    if (this.mode === 'orbit') {
+      this.orbitYaw -= deltaX * this.LOOK_SENSITIVITY;
+      this.orbitPitch = Math.max(-this.MAX_ORBIT_PITCH, Math.min(this.MAX_ORBIT_PITCH, this.orbitPitch + deltaY * this.LOOK_SENSITIVITY));
+    } else if (this.mode === 'free') {
+      this.freeYaw -= deltaX * this.LOOK_SENSITIVITY;
+      this.freePitch = Math.max(-this.MAX_ORBIT_PITCH, Math.min(this.MAX_ORBIT_PITCH, this.freePitch - deltaY * this.LOOK_SENSITIVITY));
+    }
+  }
+
+  // Positive zooms out
+  zoom(delta: number): void {
+    const scale = Math.exp(delta * this.ZOOM_SENSITIVITY);
+    if (this.mode === 'orbit') {
+      this.orbitDistance = Math.max(this.MIN_ORBIT_DISTANCE, Math.min(this.MAX_ORBIT_DISTANCE, this.orbitDistance * scale));
+    } else if (this.mode === 'chase') {
+      this.chaseDistance = Math.max(this.MIN_CHASE_DISTANCE, Math.min(this.MAX_CHASE_DISTANCE, this.chaseDistance * scale));
+    }
+  }
+
+  // Called once per rendered frame with the interpolated craft transform
+  update(deltaTime: number, craftTransform: Transform, controls: ControlAxes): void {
+    switch (this.mode) {
+      case 'chase':
+        this.updateChase(deltaTime, craftTransform);
+        break;
+      case 'cockpit':
+        this.updateCockpit(craftTransform);
+        break;
+      case 'orbit':
+        this.updateOrbit(craftTransform);
+        break;
+      case 'free':
+        this.updateFree(deltaTime, controls);
+        break;
+    }
+  }
+
+  // Snap into place, e.g. after the craft is teleported on mission start
+  reset(craftTransform: Transform): void {
+    this.springVelocity.forEach(velocity => { velocity.value = 0; });
+    const rotation = this.craftRotation(craftTransform);
+    const behind = vec3.transformQuat(vec3.create(), vec3.fromValues(0, 0, this.chaseDistance), rotation);
+    vec3.add(this.position, this.craftPosition(craftTransform), behind);
+    this.position[1] += this.CHASE_HEIGHT;
+  }
+
+  getViewMatrix(): mat4 {
+    return this.viewMatrix;
+  }
+
+  getPosition(): vec3 {
+    return this.position;
+  }
+
+  private craftPosition(craftTransform: Transform): vec3 {
+    const { x, y, z } = craftTransform.position;
+    return vec3.fromValues(x, y, z);
+  }
+
+  private craftRotation(craftTransform: Transform): quat {
+    const { x, y, z, w } = craftTransform.rotation;
+    return quat.fromValues(x, y, z, w);
+  }
+
+  private updateChase(deltaTime: number, craftTransform: Transform): void {
+    const craft = this.craftPosition(craftTransform);
+    const forward = vec3.transformQuat(vec3.create(), vec3.fromValues(0, 0, -1), this.craftRotation(craftTransform));
+
+    // Trail behind the heading only, so rolls and loops do not swing the camera around
+    const flatForward = vec3.fromValues(forward[0], 0, forward[2]);
+    if (vec3.length(flatForward) < 1e-3) {
+      vec3.set(flatForward, 0, 0, -1);
+    }
+    vec3.normalize(flatForward, flatForward);
+
+    const target = vec3.scaleAndAdd(vec3.create(), craft, flatForward, -this.chaseDistance);
+    target[1] += this.CHASE_HEIGHT;
+
+    for (let axis = 0; axis < 3; axis++) {
+      this.position[axis] = smoothDamp(this.position[axis], target[axis], this.springVelocity[axis], this.CHASE_SMOOTH_TIME, deltaTime);
+    }
+
+    const lookAt = vec3.scaleAndAdd(vec3.create(), craft, forward, this.CHASE_LOOK_AHEAD);
+    mat4.lookAt(this.viewMatrix, this.position, lookAt, vec3.fromValues(0, 1, 0));
+  }
+
+  private updateCockpit(craftTransform: Transform): void {
+    const rotation = this.craftRotation(craftTransform);
+    const eye = vec3.transformQuat(vec3.create(), this.COCKPIT_EYE, rotation);
+    vec3.add(this.position, this.craftPosition(craftTransform), eye);
+
+    // The view is the inverse of the eye's world transform
+    const world = mat4.fromRotationTranslation(mat4.create(), rotation, this.position);
+    mat4.invert(this.viewMatrix, world);
+  }
+
+  private updateOrbit(craftTransform: Transform): void {
+    const craft = this.craftPosition(craftTransform);
+    const horizontal = Math.cos(this.orbitPitch) * this.orbitDistance;
+    vec3.set(
+      this.position,
+      craft[0] + Math.sin(this.orbitYaw) * horizontal,
+      craft[1] + Math.sin(this.orbitPitch) * this.orbitDistance,
+      craft[2] + Math.cos(this.orbitYaw) * horizontal
+    );
+    mat4.lookAt(this.viewMatrix, this.position, craft, vec3.fromValues(0, 1, 0));
+  }
+
+  // Pitch axis flies forward and back, yaw strafes, lift rises and sinks
+  private updateFree(deltaTime: number, controls: ControlAxes): void {
+    const forward = vec3.fromValues(
+      -Math.sin(this.freeYaw) * Math.cos(this.freePitch),
+      Math.sin(this.freePitch),
+      -Math.cos(this.freeYaw) * Math.cos(this.freePitch)
+    );
+    const right = vec3.fromValues(Math.cos(this.freeYaw), 0, -Math.sin(this.freeYaw));
+    const speed = (this.FREE_SPEED + this.FREE_BOOST_SPEED * controls.throttle) * deltaTime;
+
+    vec3.scaleAndAdd(this.position, this.position, forward, -controls.pitch * speed);
+    vec3.scaleAndAdd(this.position, this.position, right, -controls.yaw * speed);
+    this.position[1] += controls.lift * speed;
+
+    const target = vec3.add(vec3.create(), this.position, forward);
+    mat4.lookAt(this.viewMatrix, this.position, target, vec3.fromValues(0, 1, 0));
+  }
+}
@@ -0,0 +1,152 @@
+import { CityClearing, CitySettings, EnvironmentDescriptor, TerrainGenerator } from '../types/GameTypes';
+import { CollisionBox } from './CollisionWorld';
+import { hash2D } from './Noise';
+import { UrbanHeightField } from './Terrain';
+
+type UrbanSettings = Extract<TerrainGenerator, { generator: 'urban' }>;
+
+export interface Building {
+  x: number; // footprint centre, m
+  z: number;
+  width: number; // along x, m
+  depth: number; // along z, m
+  base: number; // ground under the footprint, m
+  height: number; // base to roof, m
+  style: number; // 0..1, picks the facade shade and window pattern
+  beacon: boolean; // tall enough to carry an obstruction light
+}
+
+// One street block's buildings, a contiguous run of the layout's list
+export interface CityBlock {
+  minX: number;
+  minZ: number;
+  maxX: number;
+  maxZ: number;
+  minY: number; // lowest ground, m
+  maxY: number; // highest roof, m
+  start: number;
+  count: number;
+}
+
+export interface CityLayout {
+  buildings: Building[];
+  blocks: CityBlock[];
+}
+
+const SIDEWALK = 5; // m between the street and the lots, clear of the kerb ramp
+const MIN_FOOTPRINT = 10; // m
+const MAX_SETBACK = 6; // m from each lot edge
+const MAX_LOTS = 3; // per block side
+const PROP_CLEARANCE = 40; // m kept open around every prop
+const BEACON_HEIGHT = 60; // m
+
+// Walls run this far below the base, so no building floats where the ground dips
+export const FOUNDATION_DEPTH = 1; // m
+
+const layouts: WeakMap<EnvironmentDescriptor, CityLayout | null> = new WeakMap();
+
+// Built once per descriptor, so physics and rendering share the same buildings
+export function createCity(environment: EnvironmentDescriptor): CityLayout | null {
+  let layout = layouts.get(environment);
+  if (layout === undefined) {
+    const { city, terrain, props } = environment;
+    layout = city && terrain.generator === 'urban'
+      ? generateCity(city, terrain, [...city.clearings, ...props.map(({ x, z }) => ({ x, z, radius: PROP_CLEARANCE }))])
+      : null;
+    layouts.set(environment, layout);
+  }
+  return layout;
+}
+
+// Each block is split into a grid of lots, each holding at most one building set back from its edges.
+// Towers are tallest downtown and thin out toward the edge of the city.
+export function generateCity(city: CitySettings, terrain: UrbanSettings, clearings: CityClearing[]): CityLayout {
+  const ground = new UrbanHeightField(terrain);
+  const { blockSize, streetWidth } = terrain;
+  const { seed } = city;
+  const inset = streetWidth / 2 + SIDEWALK;
+  const lotArea = blockSize - inset * 2;
+  const reach = Math.ceil(city.radius / blockSize);
+
+  const buildings: Building[] = [];
+  const blocks: CityBlock[] = [];
+  if (lotArea < MIN_FOOTPRINT) {
+    return { buildings, blocks };
+  }
+
+  for (let blockZ = -reach; blockZ < reach; blockZ++) {
+    for (let blockX = -reach; blockX < reach; blockX++) {
+      const originX = blockX * blockSize + inset;
+      const originZ = blockZ * blockSize + inset;
+      const downtown = 1 - Math.hypot(originX + lotArea / 2, originZ + lotArea / 2) / city.radius;
+      if (downtown <= 0) continue;
+
+      const columns = 1 + Math.floor(hash2D(blockX, blockZ, seed + 1) * MAX_LOTS);
+      const rows = 1 + Math.floor(hash2D(blockX, blockZ, seed + 2) * MAX_LOTS);
+      const lotWidth = lotArea / columns;
+      const lotDepth = lotArea / rows;
+      const block: CityBlock = {
+        minX: Infinity,
+        minZ: Infinity,
+        maxX: -Infinity,
+        maxZ: -Infinity,
+        minY: Infinity,
+        maxY: -Infinity,
+        start: buildings.length,
+        count: 0
+      };
+
+      for (let row = 0; row < rows; row++) {
+        for (let column = 0; column < columns; column++) {
+          // Lot-level hashes, unique across the whole grid
+          const lotX = blockX * MAX_LOTS + column;
+          const lotZ = blockZ * MAX_LOTS + row;
+          const roll = (channel: number) => hash2D(lotX, lotZ, seed + channel);
+          if (roll(3) > city.density) continue;
+
+          const width = Math.max(MIN_FOOTPRINT, lotWidth - 2 * MAX_SETBACK * roll(4));
+          const depth = Math.max(MIN_FOOTPRINT, lotDepth - 2 * MAX_SETBACK * roll(5));
+          if (width > lotWidth || depth > lotDepth) continue;
+
+          // Slide the footprint anywhere within its lot
+          const x = originX + column * lotWidth + width / 2 + (lotWidth - width) * roll(6);
+          const z = originZ + row * lotDepth + depth / 2 + (lotDepth - depth) * roll(7);
+          if (clearings.some(clearing => overlapsClearing(x, z, width, depth, clearing))) continue;
+
+          // Mostly low-rise; the rare tall rolls only reach full height near the centre
+          const height = city.minHeight + (city.maxHeight - city.minHeight) * Math.pow(roll(8), 3) * (0.25 + 0.75 * downtown);
+          const base = ground.getHeight(x, z);
+          buildings.push({ x, z, width, depth, base, height, style: roll(9), beacon: height >= BEACON_HEIGHT });
+
+          block.minX = Math.min(block.minX, x - width / 2);
+          block.minZ = Math.min(block.minZ, z - depth / 2);
+          block.maxX = Math.max(block.maxX, x + width / 2);
+          block.maxZ = Math.max(block.maxZ, z + depth / 2);
+          block.minY = Math.min(block.minY, base);
+          block.maxY = Math.max(block.maxY, base + height);
+          block.count++;
+        }
+      }
+
+      if (block.count > 0) {
+        blocks.push(block);
+      }
+    }
+  }
+
+  return { buildings, blocks };
+}
+
+// Footprints as solids for the collision world
+export function getCollisionBoxes(layout: CityLayout): CollisionBox[] {
+  return layout.buildings.map(({ x, z, width, depth, base, height }) => ({
+    min: { x: x - width / 2, y: base - FOUNDATION_DEPTH, z: z - depth / 2 },
+    max: { x: x + width / 2, y: base + height, z: z + depth / 2 }
+  }));
+}
+
+function overlapsClearing(x: number, z: number, width: number, depth: number, clearing: CityClearing): boolean {
+  const dx = Math.max(Math.abs(clearing.x - x) - width / 2, 0);
+  const dz = Math.max(Math.abs(clearing.z - z) - depth / 2, 0);
+  return Math.hypot(dx, dz) < clearing.radius;
+}
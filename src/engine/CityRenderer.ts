@@ -0,0 +1,187 @@
+import { mat4, vec3 } from 'gl-matrix';
+import { CitySettings } from '../types/GameTypes';
+import { CityBlock, CityLayout, FOUNDATION_DEPTH } from './CityGenerator';
+import { ATTRIBUTE_LOCATIONS, MeshPrimitive, createMeshPrimitive, deleteMeshPrimitive } from './Mesh';
+import { createBox } from './Primitives';
+import { extractFrustumPlanes } from './TerrainRenderer';
+
+type Uniforms = { [key: string]: WebGLUniformLocation | null };
+
+// Footprint centre, ground height and style, then width, height and depth
+const BUILDING_FLOATS = 7;
+// Light position and blink phase
+const BEACON_FLOATS = 4;
+
+// Every building is an instance of one unit box. Each draw culls whole blocks by frustum and distance
+// and packs the survivors' instances into a single run, so the city costs one instanced call per pass.
+export default class CityRenderer {
+  private gl: WebGL2RenderingContext;
+  private settings: CitySettings | null = null;
+  private blocks: CityBlock[] = [];
+  private buildings = new Float32Array(0);
+  private beacons = new Float32Array(0);
+  private beaconRanges: [number, number][] = []; // start and count in `beacons`, per block
+  private packed = new Float32Array(0); // scratch, large enough for every building
+  private drawnCount = 0;
+
+  private box: MeshPrimitive;
+  private buildingBuffer: WebGLBuffer | null;
+  private beaconBuffer: WebGLBuffer | null;
+  private beaconVao: WebGLVertexArrayObject | null;
+
+  private readonly DRAW_DISTANCE = 2500; // m to the nearest edge of a block
+  private readonly BEACON_OFFSET = 1.5; // m above the roof
+
+  constructor(gl: WebGL2RenderingContext) {
+    this.gl = gl;
+
+    // Instance attributes join the box's own in its vertex array
+    this.box = createMeshPrimitive(gl, createBox(1, 1, 1));
+    this.buildingBuffer = gl.createBuffer();
+    gl.bindVertexArray(this.box.vao);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.buildingBuffer);
+    this.instanceAttribute(ATTRIBUTE_LOCATIONS.instanceOrigin, 4, BUILDING_FLOATS, 0);
+    this.instanceAttribute(ATTRIBUTE_LOCATIONS.instanceSize, 3, BUILDING_FLOATS, 4);
+
+    // Beacons are billboards built from the vertex index, so they need only their instances
+    this.beaconBuffer = gl.createBuffer();
+    this.beaconVao = gl.createVertexArray();
+    gl.bindVertexArray(this.beaconVao);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.beaconBuffer);
+    this.instanceAttribute(0, 4, BEACON_FLOATS, 0);
+
+    gl.bindVertexArray(null);
+    gl.bindBuffer(gl.ARRAY_BUFFER, null);
+  }
+
+  setCity(layout: CityLayout | null, settings: CitySettings | null): void {
+    this.settings = layout ? settings : null;
+    this.blocks = layout?.blocks ?? [];
+    this.beaconRanges = [];
+    this.drawnCount = 0;
+
+    const buildings = layout?.buildings ?? [];
+    this.buildings = new Float32Array(buildings.length * BUILDING_FLOATS);
+    this.packed = new Float32Array(this.buildings.length);
+    buildings.forEach(({ x, z, width, depth, base, height, style }, index) => {
+      this.buildings.set([x, base - FOUNDATION_DEPTH, z, style, width, height + FOUNDATION_DEPTH, depth], index * BUILDING_FLOATS);
+    });
+
+    // Beacons are kept by block too, so they cull with their buildings
+    const beacons: number[] = [];
+    for (const { start, count } of this.blocks) {
+      const first = beacons.length / BEACON_FLOATS;
+      for (const { x, z, base, height, style, beacon } of buildings.slice(start, start + count)) {
+        if (beacon) {
+          beacons.push(x, base + height + this.BEACON_OFFSET, z, (style * 7.3) % 1);
+        }
+      }
+      this.beaconRanges.push([first, beacons.length / BEACON_FLOATS - first]);
+    }
+    this.beacons = new Float32Array(beacons);
+  }
+
+  hasCity(): boolean {
+    return this.settings !== null && this.blocks.length > 0;
+  }
+
+  // The city program (or a caster program built on city.vert) must already be bound
+  drawBuildings(uniforms: Uniforms, viewProjection: mat4, viewer: vec3): void {
+    const settings = this.settings;
+    if (!settings) return;
+    const gl = this.gl;
+
+    const visible = this.cull(viewProjection, viewer);
+    const runs = visible.map((index): [number, number] => [this.blocks[index].start, this.blocks[index].count]);
+    const count = this.pack(this.buildings, BUILDING_FLOATS, runs);
+    this.drawnCount = count;
+    if (count === 0) return;
+
+    gl.uniform3fv(uniforms.uFacadeColor, settings.color);
+    gl.uniform3fv(uniforms.uWindowColor, settings.windowColor);
+    gl.uniform1f(uniforms.uLitWindows, settings.litWindows);
+    this.upload(this.buildingBuffer, count * BUILDING_FLOATS);
+    gl.bindVertexArray(this.box.vao);
+    gl.drawElementsInstanced(gl.TRIANGLES, this.box.count, this.box.indexType ?? gl.UNSIGNED_SHORT, 0, count);
+    gl.bindVertexArray(null);
+  }
+
+  // The beacon program must already be bound, with additive blending and depth writes off
+  drawBeacons(uniforms: Uniforms, viewProjection: mat4, viewer: vec3): void {
+    const settings = this.settings;
+    if (!settings || this.beacons.length === 0) return;
+    const gl = this.gl;
+
+    const visible = this.cull(viewProjection, viewer);
+    const count = this.pack(this.beacons, BEACON_FLOATS, visible.map(index => this.beaconRanges[index]));
+    if (count === 0) return;
+
+    gl.uniform3fv(uniforms.uBeaconColor, settings.beaconColor);
+    this.upload(this.beaconBuffer, count * BEACON_FLOATS);
+    gl.bindVertexArray(this.beaconVao);
+    gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, count);
+    gl.bindVertexArray(null);
+  }
+
+  // Buildings drawn by the last pass, after culling
+  getDrawnBuildingCount(): number {
+    return this.drawnCount;
+  }
+
+  cleanup(): void {
+    deleteMeshPrimitive(this.gl, this.box);
+    this.gl.deleteBuffer(this.buildingBuffer);
+    this.gl.deleteBuffer(this.beaconBuffer);
+    this.gl.deleteVertexArray(this.beaconVao);
+    this.buildingBuffer = null;
+    this.beaconBuffer = null;
+    this.beaconVao = null;
+    this.settings = null;
+  }
+
+  private instanceAttribute(location: number, size: number, stride: number, offset: number): void {
+    const gl = this.gl;
+    gl.enableVertexAttribArray(location);
+    gl.vertexAttribPointer(location, size, gl.FLOAT, false, stride * 4, offset * 4);
+    gl.vertexAttribDivisor(location, 1);
+  }
+
+  // Indices of the blocks in view and in range
+  private cull(viewProjection: mat4, viewer: vec3): number[] {
+    const planes = extractFrustumPlanes(viewProjection);
+    const range = this.DRAW_DISTANCE * this.DRAW_DISTANCE;
+    const visible: number[] = [];
+    this.blocks.forEach((block, index) => {
+      const dx = Math.max(block.minX - viewer[0], 0, viewer[0] - block.maxX);
+      const dz = Math.max(block.minZ - viewer[2], 0, viewer[2] - block.maxZ);
+      if (dx * dx + dz * dz > range) return;
+
+      for (const [a, b, c, d] of planes) {
+        // Corner furthest along the plane normal
+        const x = a >= 0 ? block.maxX : block.minX;
+        const y = b >= 0 ? block.maxY : block.minY - FOUNDATION_DEPTH;
+        const z = c >= 0 ? block.maxZ : block.minZ;
+        if (a * x + b * y + c * z + d < 0) return;
+      }
+      visible.push(index);
+    });
+    return visible;
+  }
+
+  // Copy the given runs of instances end to end into the scratch array; returns the instance count
+  private pack(source: Float32Array, floats: number, runs: [number, number][]): number {
+    let count = 0;
+    for (const [start, length] of runs) {
+      this.packed.set(source.subarray(start * floats, (start + length) * floats), count * floats);
+      count += length;
+    }
+    return count;
+  }
+
+  // Fresh storage every pass, so the driver never waits on a draw still reading the last upload
+  private upload(buffer: WebGLBuffer | null, floats: number): void {
+    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, buffer);
+    this.gl.bufferData(this.gl.ARRAY_BUFFER, this.packed.subarray(0, floats), this.gl.STREAM_DRAW);
+    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, null);
+  }
+}
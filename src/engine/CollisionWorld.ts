@@ -0,0 +1,145 @@
+import { Vector3 } from '../types/GameTypes';
+
+export interface HeightField {
+  getHeight(x: number, z: number): number;
+}
+
+export interface SurfaceMaterial {
+  restitution: number;
+  friction: number;
+}
+
+export interface GroundContact {
+  point: Vector3;
+  normal: Vector3;
+  penetration: number;
+}
+
+// Axis-aligned solid standing on the ground, such as a building
+export interface CollisionBox {
+  min: Vector3;
+  max: Vector3;
+}
+
+export default class CollisionWorld {
+  private heightField: HeightField;
+  private surface: SurfaceMaterial;
+
+  // Boxes bucketed by the grid cells their footprints overlap
+  private boxCells: Map<string, CollisionBox[]> = new Map();
+
+  // Step used for finite-difference normals
+  private readonly NORMAL_SAMPLE_DISTANCE = 0.5;
+  private readonly BOX_CELL_SIZE = 64; // m
+
+  constructor(heightField: HeightField, surface: SurfaceMaterial) {
+    this.heightField = heightField;
+    this.surface = surface;
+  }
+
+  setHeightField(heightField: HeightField, surface: SurfaceMaterial): void {
+    this.heightField = heightField;
+    this.surface = surface;
+  }
+
+  setBoxes(boxes: CollisionBox[]): void {
+    this.boxCells.clear();
+    for (const box of boxes) {
+      const [minX, minZ] = this.cellOf(box.min.x, box.min.z);
+      const [maxX, maxZ] = this.cellOf(box.max.x, box.max.z);
+      for (let cellZ = minZ; cellZ <= maxZ; cellZ++) {
+        for (let cellX = minX; cellX <= maxX; cellX++) {
+          const key = `${cellX}:${cellZ}`;
+          const cell = this.boxCells.get(key);
+          if (cell) {
+            cell.push(box);
+          } else {
+            this.boxCells.set(key, [box]);
+          }
+        }
+      }
+    }
+  }
+
+  getSurface(): SurfaceMaterial {
+    return this.surface;
+  }
+
+  // Terrain, or the roof of a box standing over it
+  getGroundHeight(x: number, z: number): number {
+    const box = this.findBox(x, z);
+    const height = this.heightField.getHeight(x, z);
+    return box ? Math.max(height, box.max.y) : height;
+  }
+
+  getGroundNormal(x: number, z: number): Vector3 {
+    const d = this.NORMAL_SAMPLE_DISTANCE;
+    const dx = this.heightField.getHeight(x + d, z) - this.heightField.getHeight(x - d, z);
+    const dz = this.heightField.getHeight(x, z + d) - this.heightField.getHeight(x, z - d);
+    const nx = -dx;
+    const ny = 2 * d;
+    const nz = -dz;
+    const length = Math.sqrt(nx * nx + ny * ny + nz * nz);
+    return { x: nx / length, y: ny / length, z: nz / length };
+  }
+
+  getAltitudeAboveGround(position: Vector3): number {
+    return position.y - this.getGroundHeight(position.x, position.z);
+  }
+
+  // Contact for a single point, or null when it is above the ground
+  queryPoint(point: Vector3): GroundContact | null {
+    const box = this.findBox(point.x, point.z);
+    if (box && point.y < box.max.y && point.y > box.min.y) {
+      return this.boxContact(box, point);
+    }
+
+    const groundHeight = this.heightField.getHeight(point.x, point.z);
+    if (point.y >= groundHeight) return null;
+
+    const normal = this.getGroundNormal(point.x, point.z);
+    return {
+      point: { x: point.x, y: groundHeight, z: point.z },
+      normal,
+      penetration: (groundHeight - point.y) * normal.y
+    };
+  }
+
+  // Out through the nearest roof or wall; boxes stand on the ground, so never down through the floor
+  private boxContact(box: CollisionBox, point: Vector3): GroundContact {
+    const faces: [number, Vector3][] = [
+      [box.max.y - point.y, { x: 0, y: 1, z: 0 }],
+      [point.x - box.min.x, { x: -1, y: 0, z: 0 }],
+      [box.max.x - point.x, { x: 1, y: 0, z: 0 }],
+      [point.z - box.min.z, { x: 0, y: 0, z: -1 }],
+      [box.max.z - point.z, { x: 0, y: 0, z: 1 }]
+    ];
+    const [penetration, normal] = faces.reduce((nearest, face) => face[0] < nearest[0] ? face : nearest);
+    return {
+      point: {
+        x: point.x + normal.x * penetration,
+        y: point.y + normal.y * penetration,
+        z: point.z + normal.z * penetration
+      },
+      normal,
+      penetration
+    };
+  }
+
+  // Box whose footprint contains the point
+  private findBox(x: number, z: number): CollisionBox | null {
+    const [cellX, cellZ] = this.cellOf(x, z);
+    const cell = this.boxCells.get(`${cellX}:${cellZ}`);
+    if (!cell) return null;
+    for (const box of cell) {
+      if (x > box.min.x && x < box.max.x && z > box.min.z && z < box.max.z) {
+        return box;
+      }
+    }
+    return null;
+  }
+
+  private cellOf(x: number, z: number): [number, number] {
+    return [Math.floor(x / this.BOX_CELL_SIZE), Math.floor(z / this.BOX_CELL_SIZE)];
+  }
+}
@@ -0,0 +1,142 @@
+import { vec3, vec4 } from 'gl-matrix';
+import { Color3, SystemState } from '../types/GameTypes';
+import ParticleSystem, { EmitterParameters, ParticleEmitter } from './ParticleSystem';
+import { SceneNode } from './SceneGraph';
+
+// Ionised plasma streaming off the trailing edge
+const EXHAUST: EmitterParameters = {
+  shape: 'cone',
+  capacity: 1500,
+  rate: 0,
+  offset: vec3.fromValues(0, 0.5, 4.6),
+  direction: vec3.fromValues(0, 0, 1),
+  spread: 0.12,
+  radius: 0.4,
+  speed: [20, 35],
+  life: [0.4, 0.9],
+  size: [0.35, 0.9],
+  colorStart: vec4.create(),
+  colorEnd: vec4.fromValues(0.3, 0, 0.8, 0),
+  emissive: true,
+  stretch: 0.02,
+  gravity: 0,
+  drag: 0.5,
+  inheritVelocity: 0.2,
+  bounce: 0
+};
+
+// Ground material blown out from under the field when hovering low
+const DUST: EmitterParameters = {
+  shape: 'ring',
+  capacity: 2000,
+  rate: 0,
+  offset: vec3.create(),
+  direction: vec3.fromValues(0, -1, 0),
+  spread: 0.6,
+  radius: 12,
+  speed: [6, 14],
+  life: [1.5, 3.5],
+  size: [0.6, 2.5],
+  colorStart: vec4.create(),
+  colorEnd: vec4.create(),
+  emissive: false,
+  stretch: 0,
+  gravity: 1,
+  drag: 0.8,
+  inheritVelocity: 0,
+  bounce: 0.1
+};
+
+// Discharge off the hull as the cloak field breaks down
+const SPARKS: EmitterParameters = {
+  shape: 'shell',
+  capacity: 600,
+  rate: 0,
+  offset: vec3.fromValues(0, 0.3, -2),
+  direction: vec3.fromValues(0, 1, 0),
+  spread: 0,
+  radius: 5,
+  speed: [4, 12],
+  life: [0.3, 0.8],
+  size: [0.12, 0.04],
+  colorStart: vec4.fromValues(1, 0.85, 0.5, 1),
+  colorEnd: vec4.fromValues(1, 0.3, 0.1, 0),
+  emissive: true,
+  stretch: 0.04,
+  gravity: 1,
+  drag: 0.3,
+  inheritVelocity: 1,
+  bounce: 0.4
+};
+
+const EXHAUST_COOL = vec4.fromValues(0.35, 0.2, 1, 0.8);
+const EXHAUST_HOT = vec4.fromValues(0.8, 0.85, 1, 0.9);
+
+const clamp01 = (value: number): number => Math.max(0, Math.min(1, value));
+
+const copyParameters = (params: EmitterParameters): EmitterParameters => ({
+  ...params,
+  offset: vec3.clone(params.offset),
+  direction: vec3.clone(params.direction),
+  speed: [...params.speed],
+  life: [...params.life],
+  size: [...params.size],
+  colorStart: vec4.clone(params.colorStart),
+  colorEnd: vec4.clone(params.colorEnd)
+});
+
+// The craft's particle emitters, driven by its systems each frame
+export default class CraftEffects {
+  private particles: ParticleSystem;
+  private exhaust: ParticleEmitter;
+  private dust: ParticleEmitter;
+  private sparks: ParticleEmitter;
+
+  private readonly EXHAUST_RATE = 1200; // particles/s at full plasma flow
+  private readonly DUST_RATE = 800;
+  private readonly DUST_HEIGHT = 25; // m above ground where the field starts lifting dust
+  private readonly SPARK_RATE = 400;
+  private readonly SPARK_INTEGRITY = 0.4; // integrity below which the field arcs
+
+  constructor(particles: ParticleSystem, craft: SceneNode, groundColor: Color3) {
+    this.particles = particles;
+    this.exhaust = particles.addEmitter(craft, copyParameters(EXHAUST));
+    this.dust = particles.addEmitter(craft, copyParameters(DUST));
+    this.sparks = particles.addEmitter(craft, copyParameters(SPARKS));
+    this.setGroundColor(groundColor);
+  }
+
+  // Dust takes the colour of the ground, a little paler as fine grains
+  setGroundColor([r, g, b]: Color3): void {
+    vec4.set(this.dust.params.colorStart, r * 1.3, g * 1.3, b * 1.3, 0.35);
+    vec4.set(this.dust.params.colorEnd, r * 1.3, g * 1.3, b * 1.3, 0);
+  }
+
+  update(systems: SystemState, altitude: number): void {
+    const { plasmaRate, coilTemp } = systems.propulsion;
+    const { cloaking } = systems;
+
+    // More plasma, more ions; hotter coils burn whiter and throw them faster
+    const exhaust = this.exhaust.params;
+    exhaust.rate = this.EXHAUST_RATE * plasmaRate;
+    exhaust.speed = [20 + 15 * coilTemp, 35 + 25 * coilTemp];
+    vec4.lerp(exhaust.colorStart, EXHAUST_COOL, EXHAUST_HOT, clamp01(coilTemp));
+
+    // Strongest right above the ground
+    const proximity = clamp01(1 - altitude / this.DUST_HEIGHT);
+    const dust = this.dust.params;
+    this.dust.enabled = proximity > 0;
+    dust.rate = this.DUST_RATE * proximity * (0.3 + 0.7 * plasmaRate);
+    dust.speed = [4 + 6 * plasmaRate, 10 + 14 * plasmaRate * proximity];
+
+    const collapse = cloaking.active ? clamp01((this.SPARK_INTEGRITY - cloaking.integrity) / this.SPARK_INTEGRITY) : 0;
+    this.sparks.enabled = collapse > 0;
+    this.sparks.params.rate = this.SPARK_RATE * collapse * (0.5 + coilTemp);
+  }
+
+  remove(): void {
+    this.particles.removeEmitter(this.exhaust);
+    this.particles.removeEmitter(this.dust);
+    this.particles.removeEmitter(this.sparks);
+  }
+}
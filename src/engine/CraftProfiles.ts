@@ -0,0 +1,29 @@
+import { CraftProfile } from '../types/GameTypes';
+
+// TR-3B class triangular craft, roughly 24 m across
+export const MANTA_PROFILE: CraftProfile = {
+  name: 'MANTA',
+  mass: 12000,
+  inertia: { x: 192000, y: 384000, z: 192000 },
+  maxThrust: 600000,
+  plasmaEfficiency: 0.85,
+  antiGravityCapacity: 1.55,
+  liftAuthority: 0.6,
+  controlTorque: { x: 580000, y: 1150000, z: 580000 },
+  reactorOutput: 10,
+  landingPoints: [
+    { x: 0, y: -1.5, z: -8 },
+    { x: -6, y: -1.5, z: 5 },
+    { x: 6, y: -1.5, z: 5 }
+  ],
+  crashSpeed: 8,
+  aerodynamics: {
+    dragCoefficients: { x: 0.9, y: 1.2, z: 0.5 },
+    referenceAreas: { x: 60, y: 240, z: 72 },
+    liftSlope: 2.5,
+    stallAngle: 0.35,
+    wingArea: 240,
+    rotationalDamping: 1.0
+  },
+  angularDamping: 3.0
+};
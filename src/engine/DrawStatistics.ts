@@ -0,0 +1,66 @@
+type ContextMethods = Record<string, (...args: unknown[]) => unknown>;
+
+// Counts draw calls and the triangles they submit, whoever draws, by wrapping the context's draw methods.
+// Points and lines count as calls without triangles.
+export default class DrawStatistics {
+  private calls = 0;
+  private triangles = 0;
+
+  constructor(gl: WebGL2RenderingContext) {
+    const context = gl as unknown as ContextMethods;
+    const triangleCount = (mode: number, vertices: number): number => {
+      switch (mode) {
+        case gl.TRIANGLES:
+          return Math.floor(vertices / 3);
+        case gl.TRIANGLE_STRIP:
+        case gl.TRIANGLE_FAN:
+          return Math.max(0, vertices - 2);
+        default:
+          return 0;
+      }
+    };
+    const record = (mode: unknown, vertices: unknown, instances: unknown = 1) => {
+      this.calls++;
+      this.triangles += triangleCount(mode as number, vertices as number) * (instances as number);
+    };
+
+    const drawArrays = context.drawArrays.bind(gl);
+    const drawElements = context.drawElements.bind(gl);
+    const drawArraysInstanced = context.drawArraysInstanced.bind(gl);
+    const drawElementsInstanced = context.drawElementsInstanced.bind(gl);
+    const drawRangeElements = context.drawRangeElements.bind(gl);
+    context.drawArrays = (mode, first, count) => {
+      record(mode, count);
+      return drawArrays(mode, first, count);
+    };
+    context.drawElements = (mode, count, type, offset) => {
+      record(mode, count);
+      return drawElements(mode, count, type, offset);
+    };
+    context.drawArraysInstanced = (mode, first, count, instances) => {
+      record(mode, count, instances);
+      return drawArraysInstanced(mode, first, count, instances);
+    };
+    context.drawElementsInstanced = (mode, count, type, offset, instances) => {
+      record(mode, count, instances);
+      return drawElementsInstanced(mode, count, type, offset, instances);
+    };
+    context.drawRangeElements = (mode, start, end, count, type, offset) => {
+      record(mode, count);
+      return drawRangeElements(mode, start, end, count, type, offset);
+    };
+  }
+
+  getCalls(): number {
+    return this.calls;
+  }
+
+  getTriangles(): number {
+    return this.triangles;
+  }
+
+  reset(): void {
+    this.calls = 0;
+    this.triangles = 0;
+  }
+}
@@ -0,0 +1,66 @@
+// Scales resolution to hold a frame rate. Frame times come from the display loop, so under vsync a frame
+// on time reads as exactly the target; the scale drops quickly when frames run long and creeps back up
+// only after a sustained run on time, backing off further each time a step up doesn't hold.
+export default class DynamicResolution {
+  private scale = 1;
+  private averageFrameTime = 0; // s
+  private sinceChange = 0; // s
+  private raised = false; // the last change was a step up
+  private raiseDelay: number;
+
+  private readonly MIN_SCALE = 0.5;
+  private readonly MAX_SCALE = 1;
+  private readonly STEP = 0.1;
+  private readonly SMOOTHING = 0.1; // weight of each new frame in the average
+  private readonly LOWER_LOAD = 1.15; // average over target frame time that steps down
+  private readonly RAISE_LOAD = 1.05; // and under which a step up is allowed
+  private readonly LOWER_DELAY = 0.5; // s between steps down
+  private readonly RAISE_DELAY = 3; // s on time before stepping up
+  private readonly MAX_RAISE_DELAY = 30; // s
+
+  constructor() {
+    this.raiseDelay = this.RAISE_DELAY;
+  }
+
+  // True when the scale changed
+  update(frameTime: number, targetFrameTime: number): boolean {
+    this.averageFrameTime += (frameTime - this.averageFrameTime) * (this.averageFrameTime === 0 ? 1 : this.SMOOTHING);
+    this.sinceChange += frameTime;
+    const load = this.averageFrameTime / targetFrameTime;
+
+    if (load > this.LOWER_LOAD && this.sinceChange > this.LOWER_DELAY && this.scale > this.MIN_SCALE) {
+      // A step up that couldn't hold waits longer before the next attempt
+      if (this.raised) {
+        this.raiseDelay = Math.min(this.raiseDelay * 2, this.MAX_RAISE_DELAY);
+      }
+      this.setScale(this.scale - this.STEP, false);
+      return true;
+    }
+    if (load < this.RAISE_LOAD && this.sinceChange > this.raiseDelay && this.scale < this.MAX_SCALE) {
+      this.setScale(this.scale + this.STEP, true);
+      return true;
+    }
+    return false;
+  }
+
+  getScale(): number {
+    return this.scale;
+  }
+
+  reset(): void {
+    this.scale = this.MAX_SCALE;
+    this.averageFrameTime = 0;
+    this.sinceChange = 0;
+    this.raised = false;
+    this.raiseDelay = this.RAISE_DELAY;
+  }
+
+  private setScale(scale: number, raised: boolean): void {
+    // Rounded so repeated steps don't drift off the grid
+    this.scale = Math.round(Math.max(this.MIN_SCALE, Math.min(this.MAX_SCALE, scale)) * 100) / 100;
+    this.raised = raised;
+    this.sinceChange = 0;
+    // Frames from before the change say nothing about the new scale
+    this.averageFrameTime = 0;
+  }
+}
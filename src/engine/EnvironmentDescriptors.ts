@@ -0,0 +1,293 @@
+import { EnvironmentDescriptor, Mission } from '../types/GameTypes';
+import { selectEnvironmentProfile } from './EnvironmentProfiles';
+import { FLAT_TERRAIN } from './Terrain';
+
+const ENVIRONMENTS_URL = `${import.meta.env.BASE_URL}environments/`;
+
+// Minimal schema language, just enough to describe the descriptor format
+type Schema =
+  | { type: 'number'; min?: number; max?: number }
+  | { type: 'string'; oneOf?: readonly string[] }
+  | { type: 'color' }
+  | { type: 'vector' }
+  | { type: 'array'; items: Schema }
+  | { type: 'object'; fields: { [field: string]: Schema }; optional?: readonly string[] }
+  | { type: 'nullable'; schema: Schema }
+  // Object whose remaining fields depend on the value of `key`
+  | { type: 'variant'; key: string; common: { [field: string]: Schema }; variants: { [value: string]: { [field: string]: Schema } } };
+
+const number = (min?: number, max?: number): Schema => ({ type: 'number', min, max });
+const positive: Schema = number(Number.MIN_VALUE);
+const unit: Schema = number(0, 1);
+const color: Schema = { type: 'color' };
+
+const PHYSICS_SCHEMA: Schema = {
+  type: 'object',
+  fields: {
+    name: { type: 'string' },
+    gravity: number(0),
+    atmosphere: { type: 'nullable', schema: { type: 'object', fields: { seaLevelDensity: number(0), scaleHeight: positive } } },
+    wind: { type: 'nullable', schema: { type: 'object', fields: { velocity: { type: 'vector' }, gustStrength: number(0) } } },
+    ambientTemp: unit
+  }
+};
+
+const ENVIRONMENT_SCHEMA: Schema = {
+  type: 'object',
+  fields: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    lighting: {
+      type: 'object',
+      fields: {
+        skyColor: color,
+        ambientColor: color,
+        sunDirection: { type: 'vector' },
+        sunColor: color,
+        sunIntensity: number(0),
+        exposure: positive
+      }
+    },
+    fog: { type: 'nullable', schema: { type: 'object', fields: { color, density: number(0) } } },
+    sky: {
+      type: 'object',
+      fields: {
+        sunDirection: { type: 'vector' },
+        sunIntensity: number(0),
+        latitude: number(-90, 90),
+        starBrightness: number(0),
+        horizonGlow: { type: 'nullable', schema: { type: 'object', fields: { color, intensity: number(0), height: positive } } },
+        bodies: {
+          type: 'array',
+          items: {
+            type: 'object',
+            fields: { kind: { type: 'string', oneOf: ['earth', 'moon'] }, direction: { type: 'vector' }, angularSize: number(Number.MIN_VALUE, 90) }
+          }
+        }
+      }
+    },
+    terrain: {
+      type: 'variant',
+      key: 'generator',
+      common: {
+        color,
+        surface: { type: 'object', fields: { restitution: unit, friction: number(0) } }
+      },
+      variants: {
+        flat: { elevation: number() },
+        urban: { seed: number(), blockSize: positive, streetWidth: number(0), maxPlinthHeight: number(0) },
+        lunar: { seed: number(), plainsHeight: number(0), plainsScale: positive, craterDensity: unit }
+      }
+    },
+    props: {
+      type: 'array',
+      items: {
+        type: 'object',
+        fields: { kind: { type: 'string', oneOf: ['radar-site', 'target', 'beacon'] }, x: number(), z: number(), yaw: number() },
+        optional: ['yaw']
+      }
+    },
+    city: {
+      type: 'nullable',
+      schema: {
+        type: 'object',
+        fields: {
+          seed: number(),
+          radius: positive,
+          density: unit,
+          minHeight: positive,
+          maxHeight: positive,
+          color,
+          windowColor: color,
+          litWindows: unit,
+          beaconColor: color,
+          clearings: { type: 'array', items: { type: 'object', fields: { x: number(), z: number(), radius: positive } } }
+        }
+      }
+    },
+    physics: PHYSICS_SCHEMA,
+    ambience: {
+      type: 'array',
+      items: {
+        type: 'variant',
+        key: 'type',
+        common: { gain: unit, modulationRate: number(0) },
+        variants: {
+          tone: { frequency: positive },
+          noise: { cutoff: positive }
+        }
+      }
+    }
+  }
+};
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'a list';
+  return typeof value === 'string' ? `"${value}"` : typeof value === 'object' ? 'an object' : String(value);
+}
+
+function validateFields(fields: { [field: string]: Schema }, object: { [field: string]: unknown }, path: string, errors: string[], optional: readonly string[] = []): void {
+  for (const [field, schema] of Object.entries(fields)) {
+    if (object[field] === undefined) {
+      if (!optional.includes(field)) {
+        errors.push(`${path}${field}: missing`);
+      }
+      continue;
+    }
+    validate(schema, object[field], `${path}${field}`, errors);
+  }
+}
+
+function rejectUnknownFields(known: string[], object: { [field: string]: unknown }, path: string, errors: string[]): void {
+  for (const field of Object.keys(object)) {
+    if (!known.includes(field)) {
+      errors.push(`${path}${field}: unknown field`);
+    }
+  }
+}
+
+function validate(schema: Schema, value: unknown, path: string, errors: string[]): void {
+  const prefix = path ? `${path}.` : '';
+
+  switch (schema.type) {
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        errors.push(`${path}: expected a number, got ${describe(value)}`);
+      } else if (schema.min !== undefined && value < schema.min) {
+        errors.push(`${path}: must be ${schema.min === Number.MIN_VALUE ? 'greater than 0' : `at least ${schema.min}`}, got ${value}`);
+      } else if (schema.max !== undefined && value > schema.max) {
+        errors.push(`${path}: must be at most ${schema.max}, got ${value}`);
+      }
+      break;
+    case 'string':
+      if (typeof value !== 'string' || value.trim().length === 0) {
+        errors.push(`${path}: expected text, got ${describe(value)}`);
+      } else if (schema.oneOf && !schema.oneOf.includes(value)) {
+        errors.push(`${path}: expected one of ${schema.oneOf.join(', ')}, got "${value}"`);
+      }
+      break;
+    case 'color':
+      if (!Array.isArray(value) || value.length !== 3 || value.some(channel => typeof channel !== 'number' || channel < 0 || channel > 1)) {
+        errors.push(`${path}: expected [r, g, b] with channels from 0 to 1, got ${JSON.stringify(value)}`);
+      }
+      break;
+    case 'vector': {
+      const vector = value as { [axis: string]: unknown } | null;
+      if (!vector || typeof vector !== 'object' || ['x', 'y', 'z'].some(axis => typeof vector[axis] !== 'number')) {
+        errors.push(`${path}: expected { x, y, z } numbers, got ${JSON.stringify(value)}`);
+      }
+      break;
+    }
+    case 'array':
+      if (!Array.isArray(value)) {
+        errors.push(`${path}: expected a list, got ${describe(value)}`);
+      } else {
+        value.forEach((item, index) => validate(schema.items, item, `${path}[${index}]`, errors));
+      }
+      break;
+    case 'nullable':
+      if (value !== null) {
+        validate(schema.schema, value, path, errors);
+      }
+      break;
+    case 'object':
+    case 'variant': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        errors.push(`${path || 'descriptor'}: expected an object, got ${describe(value)}`);
+        break;
+      }
+      const object = value as { [field: string]: unknown };
+
+      if (schema.type === 'object') {
+        validateFields(schema.fields, object, prefix, errors, schema.optional);
+        rejectUnknownFields(Object.keys(schema.fields), object, prefix, errors);
+        break;
+      }
+
+      const variant = schema.variants[String(object[schema.key])];
+      if (!variant) {
+        errors.push(`${prefix}${schema.key}: expected one of ${Object.keys(schema.variants).join(', ')}, got ${describe(object[schema.key])}`);
+        break;
+      }
+      validateFields({ ...schema.common, ...variant }, object, prefix, errors);
+      rejectUnknownFields([schema.key, ...Object.keys(schema.common), ...Object.keys(variant)], object, prefix, errors);
+      break;
+    }
+  }
+}
+
+// Rules the schema can't express
+function checkCity({ city, terrain }: EnvironmentDescriptor, errors: string[]): void {
+  if (!city) return;
+  if (terrain.generator !== 'urban') {
+    errors.push(`city: needs the urban terrain generator, got "${terrain.generator}"`);
+  }
+  if (city.minHeight > city.maxHeight) {
+    errors.push(`city.minHeight: must be at most maxHeight (${city.maxHeight}), got ${city.minHeight}`);
+  }
+}
+
+// Check a parsed JSON document against the descriptor format, listing every problem at once
+export function parseEnvironmentDescriptor(data: unknown, source = 'environment'): EnvironmentDescriptor {
+  const errors: string[] = [];
+  validate(ENVIRONMENT_SCHEMA, data, '', errors);
+  if (errors.length === 0) {
+    checkCity(data as EnvironmentDescriptor, errors);
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid ${source}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+  return data as EnvironmentDescriptor;
+}
+
+const descriptors: Map<string, Promise<EnvironmentDescriptor>> = new Map();
+
+export function loadEnvironmentDescriptor(id: string): Promise<EnvironmentDescriptor> {
+  let descriptor = descriptors.get(id);
+  if (!descriptor) {
+    const url = `${ENVIRONMENTS_URL}${encodeURIComponent(id)}.json`;
+    descriptor = fetch(url)
+      .then(response => {
+        if (!response.ok) {
+          throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+        }
+        return response.json();
+      })
+      .then(data => parseEnvironmentDescriptor(data, `${id}.json`));
+    descriptors.set(id, descriptor);
+    // Let a failed load be retried later
+    descriptor.catch(() => descriptors.delete(id));
+  }
+  return descriptor;
+}
+
+// Flat, neutrally lit stand-in for missions whose environment has no descriptor
+export function createFallbackEnvironment(mission: Mission): EnvironmentDescriptor {
+  return {
+    id: mission.environment,
+    name: mission.environment,
+    lighting: {
+      skyColor: [0.02, 0.02, 0.1],
+      ambientColor: [0.3, 0.3, 0.3],
+      sunDirection: { x: 1, y: 1, z: 1 },
+      sunColor: [1, 1, 1],
+      sunIntensity: 0.7,
+      exposure: 1
+    },
+    fog: null,
+    sky: {
+      sunDirection: { x: 1, y: 1, z: 1 },
+      sunIntensity: 1,
+      latitude: 45,
+      starBrightness: 1,
+      horizonGlow: null,
+      bodies: []
+    },
+    terrain: FLAT_TERRAIN,
+    props: [],
+    city: null,
+    physics: selectEnvironmentProfile(mission),
+    ambience: []
+  };
+}
@@ -0,0 +1,55 @@
+import { EnvironmentPhysicsProfile, Mission, Vector3 } from '../types/GameTypes';
+
+export const EARTH_PROFILE: EnvironmentPhysicsProfile = {
+  name: 'earth',
+  gravity: 9.81,
+  atmosphere: { seaLevelDensity: 1.225, scaleHeight: 8500 },
+  wind: { velocity: { x: 4, y: 0, z: -2 }, gustStrength: 3 },
+  ambientTemp: 0.1
+};
+
+export const LUNAR_PROFILE: EnvironmentPhysicsProfile = {
+  name: 'lunar',
+  gravity: 1.62,
+  atmosphere: null,
+  wind: null,
+  ambientTemp: 0.05
+};
+
+export const MICROGRAVITY_PROFILE: EnvironmentPhysicsProfile = {
+  name: 'microgravity',
+  gravity: 0.01,
+  atmosphere: null,
+  wind: null,
+  ambientTemp: 0.0
+};
+
+// Environment descriptors carry their own profile; this covers missions without one
+export function selectEnvironmentProfile(mission: Mission): EnvironmentPhysicsProfile {
+  switch (mission.type) {
+    case 'deep-space':
+      return MICROGRAVITY_PROFILE;
+    case 'atmospheric':
+    case 'hybrid':
+    default:
+      return EARTH_PROFILE;
+  }
+}
+
+// Exponential atmosphere, zero in vacuum
+export function getAirDensity(profile: EnvironmentPhysicsProfile, altitude: number): number {
+  if (!profile.atmosphere) return 0;
+  return profile.atmosphere.seaLevelDensity * Math.exp(-Math.max(0, altitude) / profile.atmosphere.scaleHeight);
+}
+
+// Mean wind plus slow deterministic gusts
+export function getWindVelocity(profile: EnvironmentPhysicsProfile, time: number): Vector3 {
+  if (!profile.wind) return { x: 0, y: 0, z: 0 };
+
+  const { velocity, gustStrength } = profile.wind;
+  return {
+    x: velocity.x + gustStrength * (Math.sin(time * 0.31) * 0.6 + Math.sin(time * 1.7 + 0.5) * 0.4),
+    y: velocity.y + gustStrength * 0.2 * Math.sin(time * 0.83 + 1.3),
+    z: velocity.z + gustStrength * (Math.sin(time * 0.23 + 2.1) * 0.6 + Math.sin(time * 1.3 + 1.1) * 0.4)
+  };
+}
@@ -0,0 +1,257 @@
+import { AutopilotTargets, ControlInput, FlightMode, FlightTelemetry, Vector3 } from '../types/GameTypes';
+import PIDController from './PIDController';
+
+export const FLIGHT_MODES: FlightMode[] = ['manual', 'stabilize', 'hover', 'altitude-hold', 'heading-hold', 'waypoint'];
+
+const clamp = (value: number, limit: number): number => Math.max(-limit, Math.min(limit, value));
+
+// Shortest signed difference between two headings, in degrees
+const headingDifference = (target: number, current: number): number => ((target - current + 540) % 360) - 180;
+
+export default class FlightComputer {
+  private mode: FlightMode = 'stabilize';
+  private targets: AutopilotTargets = {
+    altitude: 100,
+    heading: 0,
+    position: { x: 0, y: 100, z: 0 },
+    waypoint: null
+  };
+
+  // Attitude limits (rad/s, rad)
+  private readonly MAX_PITCH_RATE = 1.0;
+  private readonly MAX_ROLL_RATE = 1.2;
+  private readonly MAX_YAW_RATE = 0.8;
+  private readonly LEVELING_GAIN = 1.5;
+  private readonly HEADING_GAIN = 1.0;
+  private readonly MAX_TILT = 0.3;
+  private readonly PILOT_DEADBAND = 0.05;
+
+  // Vertical and station-keeping limits (m/s, m)
+  private readonly ALTITUDE_GAIN = 0.5;
+  private readonly MAX_CLIMB_RATE = 8;
+  private readonly STATION_GAIN = 0.3;
+  private readonly MAX_STATION_SPEED = 15;
+  private readonly STATION_ACCEL_GAIN = 0.5;
+  private readonly MAX_CRUISE_SPEED = 60;
+  private readonly MAX_CRUISE_ACCEL = 5;
+  private readonly WAYPOINT_ARRIVAL_RADIUS = 40;
+  private readonly WAYPOINT_ARRIVAL_SPEED = 5;
+
+  // Pilot trim rates while an autopilot channel is engaged
+  private readonly ALTITUDE_TRIM_RATE = 5; // m/s at full lift input
+  private readonly HEADING_TRIM_RATE = 30; // deg/s at full yaw input
+
+  // Inner rate loops produce torque commands
+  private pitchRatePid = new PIDController({ kp: 2, ki: 0.5, kd: 0, integralLimit: 0.5, outputLimit: 1 });
+  private yawRatePid = new PIDController({ kp: 2, ki: 0.5, kd: 0, integralLimit: 0.5, outputLimit: 1 });
+  private rollRatePid = new PIDController({ kp: 2, ki: 0.5, kd: 0, integralLimit: 0.5, outputLimit: 1 });
+  private climbRatePid = new PIDController({ kp: 0.25, ki: 0.15, kd: 0, integralLimit: 6, outputLimit: 1 });
+
+  public onWaypointReached: ((waypoint: Vector3) => void) | null = null;
+
+  setMode(mode: FlightMode, telemetry: FlightTelemetry): void {
+    if (mode === this.mode) return;
+
+    // Engaging a hold mode captures the current state as its target
+    this.targets = {
+      ...this.targets,
+      altitude: telemetry.altitudeAGL,
+      heading: telemetry.heading,
+      position: { ...telemetry.position }
+    };
+    this.mode = mode;
+    this.resetControllers();
+  }
+
+  getMode(): FlightMode {
+    return this.mode;
+  }
+
+  setTargets(targets: Partial<AutopilotTargets>): void {
+    this.targets = { ...this.targets, ...targets };
+  }
+
+  getTargets(): AutopilotTargets {
+    return {
+      ...this.targets,
+      position: { ...this.targets.position },
+      waypoint: this.targets.waypoint ? { ...this.targets.waypoint } : null
+    };
+  }
+
+  update(deltaTime: number, pilot: ControlInput, telemetry: FlightTelemetry): ControlInput {
+    switch (this.mode) {
+      case 'manual':
+        return { ...pilot };
+      case 'stabilize':
+        return {
+          ...this.holdRates(deltaTime, telemetry, this.pilotRates(pilot, telemetry)),
+          thrust: pilot.thrust,
+          lift: pilot.lift
+        };
+      case 'altitude-hold':
+        this.targets.altitude += (pilot.lift ?? 0) * this.ALTITUDE_TRIM_RATE * deltaTime;
+        return {
+          ...this.holdRates(deltaTime, telemetry, this.pilotRates(pilot, telemetry)),
+          thrust: pilot.thrust,
+          lift: this.holdAltitude(deltaTime, this.targets.altitude - telemetry.altitudeAGL, telemetry)
+        };
+      case 'heading-hold': {
+        // Positive yaw turns the nose left, which lowers the heading
+        this.targets.heading = (this.targets.heading - (pilot.yaw ?? 0) * this.HEADING_TRIM_RATE * deltaTime + 360) % 360;
+        const rates = this.pilotRates(pilot, telemetry);
+        rates.y = this.headingRate(this.targets.heading, telemetry);
+        return {
+          ...this.holdRates(deltaTime, telemetry, rates),
+          thrust: pilot.thrust,
+          lift: pilot.lift
+        };
+      }
+      case 'hover':
+        return this.hover(deltaTime, telemetry);
+      case 'waypoint':
+        return this.flyToWaypoint(deltaTime, pilot, telemetry);
+    }
+  }
+
+  // Pilot axes become rate demands; released pitch and roll axes level the craft
+  private pilotRates(pilot: ControlInput, telemetry: FlightTelemetry): Vector3 {
+    const pitch = pilot.pitch ?? 0;
+    const roll = pilot.roll ?? 0;
+    return {
+      x: Math.abs(pitch) > this.PILOT_DEADBAND
+        ? pitch * this.MAX_PITCH_RATE
+        : clamp(-telemetry.pitch * this.LEVELING_GAIN, this.MAX_PITCH_RATE),
+      y: (pilot.yaw ?? 0) * this.MAX_YAW_RATE,
+      z: Math.abs(roll) > this.PILOT_DEADBAND
+        ? roll * this.MAX_ROLL_RATE
+        : clamp(-telemetry.roll * this.LEVELING_GAIN, this.MAX_ROLL_RATE)
+    };
+  }
+
+  private holdRates(deltaTime: number, telemetry: FlightTelemetry, rates: Vector3): ControlInput {
+    return {
+      pitch: this.pitchRatePid.update(rates.x - telemetry.angularVelocity.x, deltaTime),
+      yaw: this.yawRatePid.update(rates.y - telemetry.angularVelocity.y, deltaTime),
+      roll: this.rollRatePid.update(rates.z - telemetry.angularVelocity.z, deltaTime)
+    };
+  }
+
+  private holdAltitude(deltaTime: number, altitudeError: number, telemetry: FlightTelemetry): number {
+    const targetClimbRate = clamp(altitudeError * this.ALTITUDE_GAIN, this.MAX_CLIMB_RATE);
+    return this.climbRatePid.update(targetClimbRate - telemetry.velocity.y, deltaTime);
+  }
+
+  // Body yaw rate that turns toward a heading
+  private headingRate(targetHeading: number, telemetry: FlightTelemetry): number {
+    const error = headingDifference(targetHeading, telemetry.heading) * Math.PI / 180;
+    return -clamp(error * this.HEADING_GAIN, this.MAX_YAW_RATE);
+  }
+
+  private hover(deltaTime: number, telemetry: FlightTelemetry): ControlInput {
+    const accel = this.stationAcceleration(this.targets.position, this.MAX_STATION_SPEED, telemetry);
+    const rates = this.tiltToward(accel, telemetry);
+    rates.y = this.headingRate(this.targets.heading, telemetry);
+
+    return {
+      ...this.holdRates(deltaTime, telemetry, rates),
+      thrust: 0,
+      lift: this.holdAltitude(deltaTime, this.targets.altitude - telemetry.altitudeAGL, telemetry)
+    };
+  }
+
+  private flyToWaypoint(deltaTime: number, pilot: ControlInput, telemetry: FlightTelemetry): ControlInput {
+    const waypoint = this.targets.waypoint;
+    if (!waypoint) {
+      // Nothing to fly to: behave like the stabilizer
+      return {
+        ...this.holdRates(deltaTime, telemetry, this.pilotRates(pilot, telemetry)),
+        thrust: pilot.thrust,
+        lift: pilot.lift
+      };
+    }
+
+    const dx = waypoint.x - telemetry.position.x;
+    const dz = waypoint.z - telemetry.position.z;
+    const distance = Math.sqrt(dx * dx + dz * dz);
+    const horizontalSpeed = Math.sqrt(telemetry.velocity.x ** 2 + telemetry.velocity.z ** 2);
+
+    if (distance < this.WAYPOINT_ARRIVAL_RADIUS && horizontalSpeed < this.WAYPOINT_ARRIVAL_SPEED) {
+      // Loiter over the waypoint
+      this.mode = 'hover';
+      this.targets = {
+        ...this.targets,
+        altitude: telemetry.altitudeAGL,
+        heading: telemetry.heading,
+        position: { ...waypoint }
+      };
+      this.resetControllers();
+      if (this.onWaypointReached) {
+        this.onWaypointReached({ ...waypoint });
+      }
+      return this.hover(deltaTime, telemetry);
+    }
+
+    // Point the nose along the acceleration we need, which turns the craft
+    // around to brake once it is closing too fast
+    const accel = this.stationAcceleration(waypoint, this.MAX_CRUISE_SPEED, telemetry);
+    const accelMagnitude = Math.sqrt(accel.x * accel.x + accel.z * accel.z);
+    const bearing = accelMagnitude > 0.5
+      ? (Math.atan2(accel.x, -accel.z) * 180 / Math.PI + 360) % 360
+      : (Math.atan2(dx, -dz) * 180 / Math.PI + 360) % 360;
+    const alignment = Math.max(0, Math.cos(headingDifference(bearing, telemetry.heading) * Math.PI / 180));
+
+    // Roll trims out lateral error; pitch stays level so thrust never points at the ground
+    const rates = this.tiltToward(accel, telemetry);
+    rates.x = clamp(-telemetry.pitch * this.LEVELING_GAIN, this.MAX_PITCH_RATE);
+    rates.y = this.headingRate(bearing, telemetry);
+
+    return {
+      ...this.holdRates(deltaTime, telemetry, rates),
+      thrust: Math.min(1, accelMagnitude / this.MAX_CRUISE_ACCEL) * alignment ** 4,
+      lift: this.holdAltitude(deltaTime, waypoint.y - telemetry.position.y, telemetry)
+    };
+  }
+
+  // Horizontal acceleration that closes on a point without overshooting it
+  private stationAcceleration(target: Vector3, maxSpeed: number, telemetry: FlightTelemetry): Vector3 {
+    const { position, velocity } = telemetry;
+    let targetVelocityX = (target.x - position.x) * this.STATION_GAIN;
+    let targetVelocityZ = (target.z - position.z) * this.STATION_GAIN;
+    const targetSpeed = Math.sqrt(targetVelocityX ** 2 + targetVelocityZ ** 2);
+    if (targetSpeed > maxSpeed) {
+      targetVelocityX *= maxSpeed / targetSpeed;
+      targetVelocityZ *= maxSpeed / targetSpeed;
+    }
+
+    return {
+      x: (targetVelocityX - velocity.x) * this.STATION_ACCEL_GAIN,
+      y: 0,
+      z: (targetVelocityZ - velocity.z) * this.STATION_ACCEL_GAIN
+    };
+  }
+
+  // Pitch and roll rates that tilt the lift field toward a world-space acceleration
+  private tiltToward(accel: Vector3, telemetry: FlightTelemetry): Vector3 {
+    const headingRad = telemetry.heading * Math.PI / 180;
+    const forwardAccel = accel.x * Math.sin(headingRad) - accel.z * Math.cos(headingRad);
+    const rightAccel = accel.x * Math.cos(headingRad) + accel.z * Math.sin(headingRad);
+    // Lift tilted by θ gives g·tan(θ) sideways
+    const gravity = Math.max(telemetry.gravity, 0.1);
+    const targetPitch = clamp(-Math.atan(forwardAccel / gravity), this.MAX_TILT);
+    const targetRoll = clamp(-Math.atan(rightAccel / gravity), this.MAX_TILT);
+
+    return {
+      x: clamp((targetPitch - telemetry.pitch) * this.LEVELING_GAIN, this.MAX_PITCH_RATE),
+      y: 0,
+      z: clamp((targetRoll - telemetry.roll) * this.LEVELING_GAIN, this.MAX_ROLL_RATE)
+    };
+  }
+
+  private resetControllers(): void {
+    this.pitchRatePid.reset();
+    this.yawRatePid.reset();
+    this.rollRatePid.reset();
+    this.climbRatePid.reset();
+  }
+}
@@ -0,0 +1,138 @@
+import { vec3 } from 'gl-matrix';
+import { ControlInput, CraftProfile, SystemState, Vector3 } from '../types/GameTypes';
+import RigidBody from './RigidBody';
+
+export interface ForceContext {
+  systems: SystemState;
+  control: ControlInput;
+  profile: CraftProfile;
+  gravity: number;
+  airDensity: number; // kg/m³ at the craft's altitude
+  wind: Vector3; // m/s
+  time: number;
+  thrustLimit: number;
+  propulsionPower: number; // fraction of propulsion demand the reactor can supply
+}
+
+export interface ForceGenerator {
+  apply(body: RigidBody, context: ForceContext, deltaTime: number): void;
+}
+
+const clampAxis = (value: number | undefined): number => Math.max(-1, Math.min(1, value ?? 0));
+
+export class GravityForce implements ForceGenerator {
+  private force = vec3.create();
+
+  apply(body: RigidBody, context: ForceContext): void {
+    vec3.set(this.force, 0, -context.gravity * body.mass, 0);
+    body.addForce(this.force);
+  }
+}
+
+export class AntiGravityLiftForce implements ForceGenerator {
+  private readonly MAGNETIC_FLUX_CONSTANT = 432.7; // THz resonance
+  private force = vec3.create();
+
+  apply(body: RigidBody, context: ForceContext): void {
+    // Coil resonance makes the lift field pulse slightly
+    const coilResonance = Math.sin(context.time * this.MAGNETIC_FLUX_CONSTANT) * 0.1 + 0.9;
+    // The lift axis trims the field around the anti-gravity setting
+    const fieldStrength = Math.max(0, Math.min(1,
+      context.systems.propulsion.antiGravity + clampAxis(context.control.lift) * context.profile.liftAuthority
+    ));
+    const liftFraction = fieldStrength * coilResonance * context.profile.antiGravityCapacity * context.propulsionPower;
+
+    // The field pushes along the craft's up axis, so tilting it vectors the lift
+    vec3.set(this.force, 0, context.gravity * body.mass * liftFraction, 0);
+    body.addRelativeForce(this.force);
+  }
+}
+
+export class PlasmaThrustForce implements ForceGenerator {
+  private force = vec3.create();
+
+  apply(body: RigidBody, context: ForceContext): void {
+    const thrust = Math.max(0, Math.min(1, context.control.thrust ?? 0)) * context.thrustLimit * context.propulsionPower;
+    if (thrust === 0) return;
+
+    const plasmaEfficiency = context.systems.propulsion.plasmaRate * context.profile.plasmaEfficiency;
+    const thrustMagnitude = thrust * plasmaEfficiency * context.profile.maxThrust;
+
+    // Thrust acts along the body forward axis (-Z)
+    vec3.set(this.force, 0, 0, -thrustMagnitude);
+    body.addRelativeForce(this.force);
+  }
+}
+
+export class ControlTorqueForce implements ForceGenerator {
+  private torque = vec3.create();
+
+  apply(body: RigidBody, context: ForceContext): void {
+    const { controlTorque } = context.profile;
+    vec3.set(this.torque,
+      clampAxis(context.control.pitch) * controlTorque.x,
+      clampAxis(context.control.yaw) * controlTorque.y,
+      clampAxis(context.control.roll) * controlTorque.z
+    );
+    body.addTorque(this.torque);
+  }
+}
+
+export class AerodynamicForce implements ForceGenerator {
+  private readonly SEA_LEVEL_DENSITY = 1.225;
+
+  private airVelocity = vec3.create();
+  private force = vec3.create();
+  private torque = vec3.create();
+
+  apply(body: RigidBody, context: ForceContext): void {
+    if (context.airDensity <= 0) return;
+
+    const aero = context.profile.aerodynamics;
+    const density = context.airDensity;
+
+    // Airflow relative to the craft, in body space
+    vec3.set(this.airVelocity,
+      body.velocity[0] - context.wind.x,
+      body.velocity[1] - context.wind.y,
+      body.velocity[2] - context.wind.z
+    );
+    body.worldToLocal(this.airVelocity, this.airVelocity);
+    const [vx, vy, vz] = this.airVelocity;
+
+    // Quadratic drag on each body axis from its projected area
+    vec3.set(this.force,
+      -0.5 * density * aero.dragCoefficients.x * aero.referenceAreas.x * Math.abs(vx) * vx,
+      -0.5 * density * aero.dragCoefficients.y * aero.referenceAreas.y * Math.abs(vy) * vy,
+      -0.5 * density * aero.dragCoefficients.z * aero.referenceAreas.z * Math.abs(vz) * vz
+    );
+
+    // The flat planform lifts along body up with angle of attack in the pitch plane
+    const planeSpeedSquared = vy * vy + vz * vz;
+    if (planeSpeedSquared > 1e-4) {
+      const angleOfAttack = Math.atan2(-vy, -vz);
+      const clampedAngle = Math.max(-aero.stallAngle, Math.min(aero.stallAngle, angleOfAttack));
+      const liftCoefficient = aero.liftSlope * clampedAngle;
+      this.force[1] += 0.5 * density * planeSpeedSquared * aero.wingArea * liftCoefficient;
+    }
+
+    body.addRelativeForce(this.force);
+
+    // Air resists rotation in proportion to density
+    const densityRatio = density / this.SEA_LEVEL_DENSITY;
+    vec3.transformMat3(this.torque, body.angularVelocity, body.inertiaTensor);
+    vec3.scale(this.torque, this.torque, -aero.rotationalDamping * densityRatio);
+    body.addTorque(this.torque);
+  }
+}
+
+export class GyroDampingTorque implements ForceGenerator {
+  private torque = vec3.create();
+
+  apply(body: RigidBody, context: ForceContext): void {
+    // Gyro stabilisers resist rotation in proportion to the craft's inertia
+    vec3.transformMat3(this.torque, body.angularVelocity, body.inertiaTensor);
+    vec3.scale(this.torque, this.torque, -context.profile.angularDamping);
+    body.addTorque(this.torque);
+  }
+}
@@ -0,0 +1,361 @@
+import { mat4, quat, vec3 } from 'gl-matrix';
+import {
+  AlphaMode,
+  DEFAULT_MATERIAL,
+  Material,
+  Mesh,
+  MeshData,
+  Model,
+  ModelNode,
+  createMeshPrimitive,
+  deleteModel
+} from './Mesh';
+
+// Subset of the glTF 2.0 schema this loader reads
+interface GLTFAccessor {
+  bufferView?: number;
+  byteOffset?: number;
+  componentType: number;
+  normalized?: boolean;
+  count: number;
+  type: 'SCALAR' | 'VEC2' | 'VEC3' | 'VEC4' | 'MAT2' | 'MAT3' | 'MAT4';
+  sparse?: unknown;
+}
+
+interface GLTFBufferView {
+  buffer: number;
+  byteOffset?: number;
+  byteLength: number;
+  byteStride?: number;
+}
+
+interface GLTFPrimitive {
+  attributes: { [name: string]: number };
+  indices?: number;
+  material?: number;
+  mode?: number;
+}
+
+interface GLTFMaterial {
+  name?: string;
+  pbrMetallicRoughness?: {
+    baseColorFactor?: [number, number, number, number];
+    metallicFactor?: number;
+    roughnessFactor?: number;
+  };
+  emissiveFactor?: [number, number, number];
+  alphaMode?: AlphaMode;
+  doubleSided?: boolean;
+}
+
+interface GLTFNode {
+  name?: string;
+  mesh?: number;
+  children?: number[];
+  matrix?: number[];
+  translation?: [number, number, number];
+  rotation?: [number, number, number, number];
+  scale?: [number, number, number];
+}
+
+interface GLTFDocument {
+  asset: { version: string };
+  scene?: number;
+  scenes?: { nodes?: number[] }[];
+  nodes?: GLTFNode[];
+  meshes?: { name?: string; primitives: GLTFPrimitive[] }[];
+  materials?: GLTFMaterial[];
+  accessors?: GLTFAccessor[];
+  bufferViews?: GLTFBufferView[];
+  buffers?: { uri?: string; byteLength: number }[];
+}
+
+const GLB_MAGIC = 0x46546c67; // 'glTF'
+const GLB_CHUNK_JSON = 0x4e4f534a;
+const GLB_CHUNK_BIN = 0x004e4942;
+
+const COMPONENT_COUNTS: { [type: string]: number } = {
+  SCALAR: 1,
+  VEC2: 2,
+  VEC3: 3,
+  VEC4: 4,
+  MAT2: 4,
+  MAT3: 9,
+  MAT4: 16
+};
+
+const COMPONENT_SIZES: { [componentType: number]: number } = {
+  5120: 1, // BYTE
+  5121: 1, // UNSIGNED_BYTE
+  5122: 2, // SHORT
+  5123: 2, // UNSIGNED_SHORT
+  5125: 4, // UNSIGNED_INT
+  5126: 4 // FLOAT
+};
+
+// Divisors for normalized integer attributes
+const NORMALIZATION: { [componentType: number]: number } = {
+  5120: 127,
+  5121: 255,
+  5122: 32767,
+  5123: 65535
+};
+
+export default class GLTFLoader {
+  private gl: WebGL2RenderingContext;
+
+  constructor(gl: WebGL2RenderingContext) {
+    this.gl = gl;
+  }
+
+  // Loads a .gltf (with external or embedded buffers) or a binary .glb
+  async load(url: string): Promise<Model> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch model ${url}: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.arrayBuffer();
+    const { document, binaryChunk } = this.parseContainer(data, url);
+
+    if (!document.asset || !document.asset.version.startsWith('2.')) {
+      throw new Error(`${url}: unsupported glTF version ${document.asset ? document.asset.version : 'unknown'}`);
+    }
+
+    const buffers = await this.loadBuffers(document, binaryChunk, url);
+    return this.buildModel(document, buffers, url);
+  }
+
+  private parseContainer(data: ArrayBuffer, url: string): { document: GLTFDocument; binaryChunk: ArrayBuffer | null } {
+    const header = new DataView(data);
+    if (data.byteLength < 12 || header.getUint32(0, true) !== GLB_MAGIC) {
+      return { document: JSON.parse(new TextDecoder().decode(data)), binaryChunk: null };
+    }
+
+    if (header.getUint32(4, true) !== 2) {
+      throw new Error(`${url}: unsupported GLB container version ${header.getUint32(4, true)}`);
+    }
+
+    let document: GLTFDocument | null = null;
+    let binaryChunk: ArrayBuffer | null = null;
+    let offset = 12;
+
+    while (offset + 8 <= data.byteLength) {
+      const chunkLength = header.getUint32(offset, true);
+      const chunkType = header.getUint32(offset + 4, true);
+      const chunkStart = offset + 8;
+
+      if (chunkType === GLB_CHUNK_JSON) {
+        document = JSON.parse(new TextDecoder().decode(new Uint8Array(data, chunkStart, chunkLength)));
+      } else if (chunkType === GLB_CHUNK_BIN) {
+        binaryChunk = data.slice(chunkStart, chunkStart + chunkLength);
+      }
+
+      // Chunks are 4-byte aligned
+      offset = chunkStart + Math.ceil(chunkLength / 4) * 4;
+    }
+
+    if (!document) {
+      throw new Error(`${url}: GLB file has no JSON chunk`);
+    }
+
+    return { document, binaryChunk };
+  }
+
+  private async loadBuffers(document: GLTFDocument, binaryChunk: ArrayBuffer | null, url: string): Promise<ArrayBuffer[]> {
+    return Promise.all((document.buffers ?? []).map(async (buffer, index) => {
+      // A buffer without a uri is the GLB binary chunk
+      if (buffer.uri === undefined) {
+        if (!binaryChunk) {
+          throw new Error(`${url}: buffer ${index} has no uri and there is no binary chunk`);
+        }
+        return binaryChunk;
+      }
+
+      const bufferUrl = new URL(buffer.uri, new URL(url, window.location.href)).href;
+      const response = await fetch(bufferUrl);
+      if (!response.ok) {
+        throw new Error(`${url}: failed to fetch buffer ${buffer.uri}`);
+      }
+      return response.arrayBuffer();
+    }));
+  }
+
+  private buildModel(document: GLTFDocument, buffers: ArrayBuffer[], url: string): Model {
+    const materials = (document.materials ?? []).map(material => this.parseMaterial(material));
+    const meshes: Mesh[] = [];
+    const model: Model = { roots: [], meshes };
+
+    try {
+      for (const [meshIndex, mesh] of (document.meshes ?? []).entries()) {
+        const target: Mesh = { name: mesh.name ?? `mesh-${meshIndex}`, primitives: [] };
+        meshes.push(target);
+        for (const primitive of mesh.primitives) {
+          target.primitives.push(createMeshPrimitive(
+            this.gl,
+            this.readPrimitive(document, buffers, primitive, url),
+            primitive.material !== undefined ? materials[primitive.material] ?? DEFAULT_MATERIAL : DEFAULT_MATERIAL
+          ));
+        }
+      }
+
+      const nodes = document.nodes ?? [];
+      const buildNode = (index: number, depth: number): ModelNode => {
+        // Guards against malformed files whose children form a cycle
+        if (depth > nodes.length) {
+          throw new Error(`${url}: node hierarchy contains a cycle`);
+        }
+        const node = nodes[index];
+        if (!node) {
+          throw new Error(`${url}: missing node ${index}`);
+        }
+        return {
+          name: node.name ?? `node-${index}`,
+          localMatrix: this.nodeMatrix(node),
+          mesh: node.mesh !== undefined ? meshes[node.mesh] : null,
+          children: (node.children ?? []).map(child => buildNode(child, depth + 1))
+        };
+      };
+
+      const scene = document.scenes ? document.scenes[document.scene ?? 0] : undefined;
+      const rootIndices = scene && scene.nodes ? scene.nodes : this.findRootNodes(nodes);
+      model.roots = rootIndices.map(index => buildNode(index, 0));
+    } catch (error) {
+      // Release anything uploaded before the failure
+      deleteModel(this.gl, model);
+      throw error;
+    }
+
+    return model;
+  }
+
+  private findRootNodes(nodes: GLTFNode[]): number[] {
+    const children = new Set(nodes.flatMap(node => node.children ?? []));
+    return nodes.map((_, index) => index).filter(index => !children.has(index));
+  }
+
+  private nodeMatrix(node: GLTFNode): mat4 {
+    if (node.matrix) {
+      return mat4.clone(node.matrix as unknown as mat4);
+    }
+
+    const rotation = node.rotation ? quat.fromValues(...node.rotation) : quat.create();
+    const translation = node.translation ? vec3.fromValues(...node.translation) : vec3.create();
+    const scale = node.scale ? vec3.fromValues(...node.scale) : vec3.fromValues(1, 1, 1);
+    return mat4.fromRotationTranslationScale(mat4.create(), rotation, translation, scale);
+  }
+
+  private parseMaterial(material: GLTFMaterial): Material {
+    const pbr = material.pbrMetallicRoughness ?? {};
+    return {
+      name: material.name ?? DEFAULT_MATERIAL.name,
+      shader: DEFAULT_MATERIAL.shader,
+      baseColor: pbr.baseColorFactor ?? [1, 1, 1, 1],
+      metallic: pbr.metallicFactor ?? 1,
+      roughness: pbr.roughnessFactor ?? 1,
+      emissive: material.emissiveFactor ?? [0, 0, 0],
+      alphaMode: material.alphaMode ?? 'OPAQUE',
+      doubleSided: material.doubleSided ?? false
+    };
+  }
+
+  private readPrimitive(document: GLTFDocument, buffers: ArrayBuffer[], primitive: GLTFPrimitive, url: string): MeshData {
+    const { POSITION, NORMAL, TEXCOORD_0 } = primitive.attributes;
+    if (POSITION === undefined) {
+      throw new Error(`${url}: primitive has no POSITION attribute`);
+    }
+
+    return {
+      positions: this.readAttribute(document, buffers, POSITION, url),
+      normals: NORMAL !== undefined ? this.readAttribute(document, buffers, NORMAL, url) : null,
+      texCoords: TEXCOORD_0 !== undefined ? this.readAttribute(document, buffers, TEXCOORD_0, url) : null,
+      indices: primitive.indices !== undefined ? this.readIndices(document, buffers, primitive.indices, url) : null,
+      mode: primitive.mode ?? this.gl.TRIANGLES
+    };
+  }
+
+  private getAccessor(document: GLTFDocument, index: number, url: string): GLTFAccessor {
+    const accessor = document.accessors?.[index];
+    if (!accessor) {
+      throw new Error(`${url}: missing accessor ${index}`);
+    }
+    return accessor;
+  }
+
+  private readAttribute(document: GLTFDocument, buffers: ArrayBuffer[], index: number, url: string): Float32Array {
+    const accessor = this.getAccessor(document, index, url);
+    const output = new Float32Array(accessor.count * (COMPONENT_COUNTS[accessor.type] ?? 0));
+    this.readAccessor(document, buffers, index, url, output, true);
+    return output;
+  }
+
+  // Read straight into integer storage so 32-bit indices keep full precision
+  private readIndices(document: GLTFDocument, buffers: ArrayBuffer[], index: number, url: string): Uint16Array | Uint32Array {
+    const accessor = this.getAccessor(document, index, url);
+    if (accessor.type !== 'SCALAR') {
+      throw new Error(`${url}: index accessor ${index} must be SCALAR`);
+    }
+    // 8-bit indices are widened; WebGL2 draws 16 and 32-bit indices natively
+    const output = accessor.componentType === 5125 ? new Uint32Array(accessor.count) : new Uint16Array(accessor.count);
+    this.readAccessor(document, buffers, index, url, output, false);
+    return output;
+  }
+
+  // Copies an accessor into tightly packed storage, resolving strides and normalization
+  private readAccessor(
+    document: GLTFDocument,
+    buffers: ArrayBuffer[],
+    index: number,
+    url: string,
+    output: Float32Array | Uint16Array | Uint32Array,
+    normalize: boolean
+  ): void {
+    const accessor = this.getAccessor(document, index, url);
+    if (accessor.sparse) {
+      throw new Error(`${url}: sparse accessors are not supported`);
+    }
+
+    const components = COMPONENT_COUNTS[accessor.type];
+    const componentSize = COMPONENT_SIZES[accessor.componentType];
+    if (!components || !componentSize) {
+      throw new Error(`${url}: accessor ${index} has unsupported type ${accessor.type}/${accessor.componentType}`);
+    }
+
+    // Accessors without a buffer view read as zeros
+    if (accessor.bufferView === undefined) return;
+
+    const view = document.bufferViews?.[accessor.bufferView];
+    if (!view || !buffers[view.buffer]) {
+      throw new Error(`${url}: accessor ${index} references a missing buffer view`);
+    }
+    if ((view.byteOffset ?? 0) + view.byteLength > buffers[view.buffer].byteLength) {
+      throw new Error(`${url}: buffer view ${accessor.bufferView} overruns buffer ${view.buffer}`);
+    }
+
+    const data = new DataView(buffers[view.buffer], view.byteOffset ?? 0, view.byteLength);
+    const stride = view.byteStride ?? components * componentSize;
+    const start = accessor.byteOffset ?? 0;
+    if (start + (accessor.count - 1) * stride + components * componentSize > view.byteLength) {
+      throw new Error(`${url}: accessor ${index} overruns its buffer view`);
+    }
+
+    const divisor = normalize && accessor.normalized ? NORMALIZATION[accessor.componentType] ?? 1 : 1;
+
+    for (let element = 0; element < accessor.count; element++) {
+      for (let component = 0; component < components; component++) {
+        const offset = start + element * stride + component * componentSize;
+        let value: number;
+        switch (accessor.componentType) {
+          case 5120: value = data.getInt8(offset); break;
+          case 5121: value = data.getUint8(offset); break;
+          case 5122: value = data.getInt16(offset, true); break;
+          case 5123: value = data.getUint16(offset, true); break;
+          case 5125: value = data.getUint32(offset, true); break;
+          default: value = data.getFloat32(offset, true); break;
+        }
+        // Normalized signed values clamp at -1 per the spec
+        output[element * components + component] = divisor === 1 ? value : Math.max(value / divisor, -1);
+      }
+    }
+  }
+}
@@ -1,9 +1,33 @@
-import { mat4, vec3, quat } from 'gl-matrix';
-import { Mission, Vector3, Transform } from '../types/GameTypes';
+import {
+  AutopilotTargets,
+  CameraMode,
+  ControlAxes,
+  ControlInput,
+  EnvironmentDescriptor,
+  FlightMode,
+  GameEvent,
+  InputAction,
+  InputBinding,
+  Mission,
+  PerformanceCapture,
+  PerformanceSample,
+  PowerConsumer,
+  QualitySettings,
+  SystemState,
+  Transform
+} from '../types/GameTypes';
 import PhysicsEngine from './PhysicsEngine';
 import RenderEngine from './RenderEngine';
 import AudioEngine from './AudioEngine';
 import InputManager from './InputManager';
+import FlightComputer from './FlightComputer';
+import InputBindings from './InputBindings';
+import QualityPreferences, { RENDER_SCALE_PRESETS } from './QualityPreferences';
+import DynamicResolution from './DynamicResolution';
+import PerformanceMonitor from './PerformanceMonitor';
+import CameraSystem, { CAMERA_MODES } from './CameraSystem';
+import { copyTransform, createTransform, interpolateTransform } from './TransformUtils';
+import { createFallbackEnvironment, loadEnvironmentDescriptor } from './EnvironmentDescriptors';
 
 export default class GameEngine {
   private canvas: HTMLCanvasElement;
@@ -12,38 +36,70 @@ export default class GameEngine {
   private renderEngine: RenderEngine | null = null;
   private audioEngine: AudioEngine;
   private inputManager: InputManager;
+  private flightComputer: FlightComputer;
+  private camera: CameraSystem;
+  private pilotInput: ControlInput = {};
+  
+  // Graphics quality, and the render scale dynamic resolution adjusts within it
+  private quality: QualityPreferences;
+  private qualitySettings: QualitySettings;
+  private dynamicResolution = new DynamicResolution();
+  
+  // Per-frame costs for the performance overlay, recorded only while it is open
+  private performanceMonitor = new PerformanceMonitor();
+  
+  // Fixed-step simulation timing
+  private readonly FIXED_TIMESTEP = 1 / 120;
+  private readonly MAX_FRAME_TIME = 0.25;
+  private readonly MAX_STEPS_PER_FRAME = 8;
   
   private lastTime = 0;
   private deltaTime = 0;
+  private accumulator = 0;
+  private simulationTick = 0;
   private isRunning = false;
   
+  // Simulation stays paused from context loss until the renderer is rebuilt
+  private contextLost = false;
+  private contextLossHandled: Promise<void> = Promise.resolve();
+  
   private craftTransform: Transform = {
     position: { x: 0, y: 100, z: 0 },
     rotation: { x: 0, y: 0, z: 0, w: 1 },
     scale: { x: 1, y: 1, z: 1 }
   };
   
+  // Craft state at the previous step and the blend of both used for drawing
+  private previousTransform: Transform = copyTransform(createTransform(), this.craftTransform);
+  private renderTransform: Transform = copyTransform(createTransform(), this.craftTransform);
+  
   private currentMission: Mission | null = null;
-  private systemStates = {
+  private systemStates: SystemState = {
     propulsion: { plasmaRate: 0.5, coilTemp: 0.3, antiGravity: 0.7 },
     cloaking: { active: false, integrity: 1.0, heat: 0 },
     sensors: { active: true, range: 1000, quantum: false }
   };
+  
+  public onEvent: ((event: GameEvent) => void) | null = null;
 
   constructor(canvas: HTMLCanvasElement) {
     this.canvas = canvas;
     this.physicsEngine = new PhysicsEngine();
     this.audioEngine = new AudioEngine();
     this.inputManager = new InputManager(canvas);
+    this.flightComputer = new FlightComputer();
+    this.camera = new CameraSystem();
+    this.quality = new QualityPreferences();
+    this.qualitySettings = this.quality.getSettings();
     
     this.setupEventListeners();
   }
 
   async initialize(): Promise<void> {
-    // Initialize WebGL2 context with error handling
+    // Initialize WebGL2 context with error handling; multisampling happens offscreen, where quality can change it
     const gl = this.canvas.getContext('webgl2', {
       alpha: false,
-      antialias: true,
+      antialias: false,
       depth: true,
       stencil: false,
       preserveDrawingBuffer: false,
@@ -55,10 +111,13 @@ export default class GameEngine {
     }
     
     this.gl = gl;
+    this.canvas.addEventListener('webglcontextlost', this.handleContextLost);
+    this.canvas.addEventListener('webglcontextrestored', this.handleContextRestored);
     
     // Initialize render engine
     this.renderEngine = new RenderEngine(gl);
     await this.renderEngine.initialize();
+    this.renderEngine.setQuality(this.qualitySettings.level);
     
     // Initialize other subsystems
     await this.audioEngine.initialize();
@@ -68,24 +127,92 @@ export default class GameEngine {
     this.resizeCanvas();
     window.addEventListener('resize', () => this.resizeCanvas());
     
-    // Enable WebGL features
+    this.configureContext();
+    
+    this.isRunning = true;
+    console.log('Project MANTA - Game Engine Initialized');
+  }
+  
+  // Enable WebGL features; a restored context starts from the defaults again
+  private configureContext(): void {
+    if (!this.gl) return;
     this.gl.enable(this.gl.DEPTH_TEST);
     this.gl.enable(this.gl.CULL_FACE);
     this.gl.cullFace(this.gl.BACK);
     this.gl.frontFace(this.gl.CCW);
-    
-    this.isRunning = true;
-    console.log('Project MANTA - Game Engine Initialized');
+  }
+  
+  private handleContextLost = (event: Event): void => {
+    // Without this the browser never offers a replacement context
+    event.preventDefault();
+    this.contextLost = true;
+    this.pause();
+    if (this.renderEngine) {
+      this.contextLossHandled = this.renderEngine.handleContextLost();
+    }
+    this.handleGameEvent({ type: 'context-lost', message: 'Graphics context lost - simulation paused' });
+  };
+  
+  private handleContextRestored = async (): Promise<void> => {
+    if (!this.renderEngine) return;
+    try {
+      await this.contextLossHandled;
+      await this.renderEngine.restore();
+      // The restored scene has new prop nodes
+      this.attachPropSounds();
+      this.configureContext();
+      this.contextLost = false;
+      if (!document.hidden) {
+        this.resume();
+      }
+      this.handleGameEvent({ type: 'context-restored', message: 'Graphics context restored' });
+    } catch (error) {
+      console.error('Failed to restore graphics context:', error);
+      this.handleGameEvent({ type: 'context-restore-failed', message: 'Graphics context could not be rebuilt' });
+    }
+  };
+
+  // Props hum from where the renderer placed them
+  private attachPropSounds(): void {
+    const environment = this.renderEngine?.getEnvironment();
+    if (environment && this.renderEngine) {
+      this.audioEngine.attachPropSounds(environment.props, this.renderEngine.getPropNodes());
+    }
   }
 
   private setupEventListeners(): void {
-    // Handle input events
-    this.inputManager.onTouch = (type, touches) => {
-      this.handleTouchInput(type, touches);
+    // Controller buttons bound to system actions
+    this.inputManager.onAction = (action) => {
+      this.handleInputAction(action);
+    };
+    
+    // Saved graphics settings changed from the settings panel
+    this.quality.onChange = (settings) => {
+      this.applyQuality(settings);
+    };
+
+    // Pointer drags and zoom steer the camera when it owns the pointer
+    this.inputManager.onPointerDrag = (deltaX, deltaY) => {
+      this.camera.rotate(deltaX, deltaY);
+    };
+    
+    this.inputManager.onZoom = (delta) => {
+      this.camera.zoom(delta);
+    };
+    
+    this.inputManager.onGamepadConnection = (id, connected) => {
+      this.handleGameEvent(connected
+        ? { type: 'controller-connected', message: `Controller connected: ${id}` }
+        : { type: 'controller-disconnected', message: `Controller disconnected: ${id}` });
+    };
+    
+    // Simulation events (thermal trips, etc.)
+    this.physicsEngine.onEvent = (event) => {
+      this.handleGameEvent(event);
     };
     
-    this.inputManager.onKey = (key, pressed) => {
-      this.handleKeyInput(key, pressed);
+    this.flightComputer.onWaypointReached = () => {
+      this.handleGameEvent({ type: 'waypoint-reached', message: 'Waypoint reached - holding station' });
     };
     
     // Handle visibility changes
@@ -98,10 +225,23 @@ export default class GameEngine {
     });
   }
 
+  private applyQuality(settings: QualitySettings): void {
+    this.qualitySettings = settings;
+    this.dynamicResolution.reset();
+    this.renderEngine?.setQuality(settings.level);
+    this.resizeCanvas();
+  }
+  
+  // Share of the device pixel ratio the canvas renders at
+  getRenderScale(): number {
+    const dynamicScale = this.qualitySettings.dynamicResolution ? this.dynamicResolution.getScale() : 1;
+    return RENDER_SCALE_PRESETS[this.qualitySettings.level] * dynamicScale;
+  }
+
   private resizeCanvas(): void {
-    const devicePixelRatio = window.devicePixelRatio || 1;
-    const displayWidth = this.canvas.clientWidth * devicePixelRatio;
-    const displayHeight = this.canvas.clientHeight * devicePixelRatio;
+    const pixelRatio = (window.devicePixelRatio || 1) * this.getRenderScale();
+    const displayWidth = Math.max(1, Math.floor(this.canvas.clientWidth * pixelRatio));
+    const displayHeight = Math.max(1, Math.floor(this.canvas.clientHeight * pixelRatio));
     
     if (this.canvas.width !== displayWidth || this.canvas.height !== displayHeight) {
       this.canvas.width = displayWidth;
@@ -122,38 +262,140 @@ export default class GameEngine {
     if (!this.isRunning || !this.gl || !this.renderEngine) return;
     
     const currentTime = performance.now();
-    this.deltaTime = (currentTime - this.lastTime) / 1000.0;
+    if (this.lastTime === 0) {
+      this.lastTime = currentTime;
+    }
+    
+    this.performanceMonitor.beginFrame(currentTime - this.lastTime);
+    
+    // Clamp long frames (tab switches, debugger pauses) so the catch-up stays bounded
+    this.deltaTime = Math.min((currentTime - this.lastTime) / 1000.0, this.MAX_FRAME_TIME);
     this.lastTime = currentTime;
+    this.accumulator += this.deltaTime;
     
-    // Update physics
-    this.physicsEngine.update(this.deltaTime, this.systemStates, this.craftTransform);
+    // Trade resolution for frame rate when the pilot allows it
+    const { dynamicResolution, targetFrameRate } = this.qualitySettings;
+    if (dynamicResolution && this.dynamicResolution.update(this.deltaTime, 1 / targetFrameRate)) {
+      this.resizeCanvas();
+    }
     
-    // Update audio
-    this.audioEngine.update(this.deltaTime, this.systemStates, this.craftTransform);
+    // Advance the simulation in fixed steps
+    let steps = 0;
+    while (this.accumulator >= this.FIXED_TIMESTEP && steps < this.MAX_STEPS_PER_FRAME) {
+      this.step(this.FIXED_TIMESTEP);
+      this.accumulator -= this.FIXED_TIMESTEP;
+      steps++;
+    }
+    
+    // Drop whatever we could not catch up on instead of spiralling
+    if (steps === this.MAX_STEPS_PER_FRAME && this.accumulator >= this.FIXED_TIMESTEP) {
+      this.accumulator = this.accumulator % this.FIXED_TIMESTEP;
+    }
+    
+    // Interpolate the craft between the last two simulation states
+    const alpha = this.accumulator / this.FIXED_TIMESTEP;
+    interpolateTransform(this.renderTransform, this.previousTransform, this.craftTransform, alpha);
+    this.camera.update(this.deltaTime, this.renderTransform, this.inputManager.getControls());
     
     // Clear buffers
-    this.gl.clearColor(0.02, 0.02, 0.1, 1.0);
+    this.performanceMonitor.begin('render');
+    const [skyRed, skyGreen, skyBlue] = this.renderEngine.getSkyColor();
+    this.gl.clearColor(skyRed, skyGreen, skyBlue, 1.0);
     this.gl.clear(this.gl.COLOR_BUFFER_BIT | this.gl.DEPTH_BUFFER_BIT);
     
     // Render scene
-    this.renderEngine.render(this.deltaTime, this.craftTransform, this.systemStates);
+    this.renderEngine.render(this.deltaTime, this.renderTransform, this.systemStates, this.camera);
+    this.performanceMonitor.end('render');
+    
+    // Update audio after the scene, so sounds attached to it follow this frame's positions
+    this.performanceMonitor.begin('audio');
+    this.audioEngine.update(
+      this.deltaTime,
+      this.systemStates,
+      this.renderTransform,
+      this.physicsEngine.getVelocity(),
+      this.camera
+    );
+    this.performanceMonitor.end('audio');
+    
+    if (this.performanceMonitor.isEnabled()) {
+      this.performanceMonitor.endFrame({
+        ...this.renderEngine.getFrameStatistics(),
+        audioNodes: this.audioEngine.getActiveNodeCount()
+      });
+    }
   }
 
-  startMission(missionId: string): void {
+  private step(deltaTime: number): void {
+    copyTransform(this.previousTransform, this.craftTransform);
+    
+    // Held controls apply continuously, sampled once per step
+    this.performanceMonitor.begin('input');
+    const controls = this.inputManager.sampleControls(deltaTime);
+    this.performanceMonitor.end('input');
+    // The free camera borrows the flight controls, leaving the craft to the flight computer
+    this.pilotInput = this.camera.getMode() === 'free' ? {} : {
+      pitch: controls.pitch,
+      yaw: controls.yaw,
+      roll: controls.roll,
+      thrust: controls.throttle,
+      lift: controls.lift
+    };
+    
+    // Route pilot input through the flight control computer
+    this.performanceMonitor.begin('physics');
+    const command = this.flightComputer.update(deltaTime, this.pilotInput, this.physicsEngine.getTelemetry());
+    this.physicsEngine.applyControlInput(command);
+    
+    // Update physics
+    this.physicsEngine.update(deltaTime, this.systemStates, this.craftTransform);
+    this.performanceMonitor.end('physics');
+    
+    this.simulationTick++;
+  }
+
+  getSimulationTime(): number {
+    return this.simulationTick * this.FIXED_TIMESTEP;
+  }
+
+  // Resolves once the mission's environment is loaded and the craft is on the start line
+  async startMission(missionId: string): Promise<void> {
     // Load mission data
-    this.currentMission = this.getMissionById(missionId);
-    if (this.currentMission) {
-      console.log(`Starting mission: ${this.currentMission.name}`);
+    const mission = this.getMissionById(missionId);
+    this.currentMission = mission;
+    if (mission) {
+      console.log(`Starting mission: ${mission.name}`);
+      
+      // Initialize mission environment; missions without a descriptor still fly
+      let environment: EnvironmentDescriptor;
+      try {
+        environment = await loadEnvironmentDescriptor(mission.environment);
+      } catch (error) {
+        console.error(`Failed to load environment ${mission.environment}:`, error);
+        environment = createFallbackEnvironment(mission);
+      }
+      // Another mission may have started while this one was loading
+      if (this.currentMission !== mission) return;
       
-      // Initialize mission environment
+      this.physicsEngine.loadEnvironment(environment);
       if (this.renderEngine) {
-        this.renderEngine.loadEnvironment(this.currentMission.environment);
+        this.renderEngine.loadEnvironment(environment, (x, z) => this.physicsEngine.getGroundHeight(x, z));
       }
-      this.audioEngine.playMissionAudio(this.currentMission.type);
+      this.audioEngine.loadEnvironment(environment);
+      this.attachPropSounds();
+      this.audioEngine.playMissionAudio(mission.type);
       
       // Reset craft position
       this.craftTransform.position = { x: 0, y: 100, z: 0 };
       this.craftTransform.rotation = { x: 0, y: 0, z: 0, w: 1 };
+      this.physicsEngine.reset();
+      this.pilotInput = {};
+      this.inputManager.resetControls();
+      this.flightComputer.setTargets({ waypoint: mission.waypoints[0] ?? null });
+      copyTransform(this.previousTransform, this.craftTransform);
+      copyTransform(this.renderTransform, this.craftTransform);
+      this.camera.reset(this.craftTransform);
+      this.accumulator = 0;
     }
   }
 
@@ -169,39 +411,128 @@ export default class GameEngine {
     }
   }
 
-  private handleTouchInput(type: string, touches: Touch[]): void {
-    // Handle touch-based flight controls
-    if (touches.length === 1) {
-      const touch = touches[0];
-      const normalizedX = (touch.clientX / this.canvas.clientWidth) * 2 - 1;
-      const normalizedY = (touch.clientY / this.canvas.clientHeight) * 2 - 1;
-      
-      // Convert touch to flight input
-      this.physicsEngine.applyControlInput({
-        pitch: -normalizedY * 0.02,
-        yaw: normalizedX * 0.02,
-        roll: 0,
-        thrust: 0.7
-      });
-    }
+  getSystemStates(): SystemState {
+    return {
+      propulsion: { ...this.systemStates.propulsion },
+      cloaking: { ...this.systemStates.cloaking },
+      sensors: { ...this.systemStates.sensors }
+    };
   }
 
-  private handleKeyInput(key: string, pressed: boolean): void {
-    // Handle keyboard controls for desktop
-    const inputStrength = pressed ? 1 : 0;
+  getPilotControls(): ControlAxes {
+    return this.inputManager.getControls();
+  }
+
+  getInputBindings(): InputBindings {
+    return this.inputManager.getInputBindings();
+  }
+
+  captureNextBinding(callback: (binding: InputBinding | null) => void): void {
+    this.inputManager.captureNextBinding(callback);
+  }
+
+  cancelBindingCapture(): void {
+    this.inputManager.cancelCapture();
+  }
+
+  getQualitySettings(): QualitySettings {
+    return { ...this.qualitySettings };
+  }
+
+  // Saved for later sessions and applied at once
+  setQualitySettings(changes: Partial<QualitySettings>): void {
+    this.quality.update(changes);
+  }
+
+  setPerformanceMonitoring(enabled: boolean): void {
+    this.performanceMonitor.setEnabled(enabled);
+    this.renderEngine?.setProfiling(enabled);
+  }
+
+  isPerformanceMonitoring(): boolean {
+    return this.performanceMonitor.isEnabled();
+  }
+
+  getPerformanceHistory(): PerformanceSample[] {
+    return this.performanceMonitor.getHistory();
+  }
+
+  // The recorded history with enough context to read it, for attaching to bug reports
+  exportPerformanceCapture(): string {
+    const capture: PerformanceCapture = {
+      capturedAt: new Date().toISOString(),
+      userAgent: navigator.userAgent,
+      renderer: this.renderEngine?.getRendererDescription() ?? 'unknown',
+      canvas: { width: this.canvas.width, height: this.canvas.height },
+      quality: this.getQualitySettings(),
+      renderScale: this.getRenderScale(),
+      samples: this.performanceMonitor.getHistory()
+    };
+    return JSON.stringify(capture, null, 2);
+  }
+
+  setCameraMode(mode: CameraMode): void {
+    this.camera.setMode(mode, this.renderTransform);
+    this.inputManager.setPointerMode(mode === 'orbit' || mode === 'free' ? 'camera' : 'stick');
+  }
+
+  getCameraMode(): CameraMode {
+    return this.camera.getMode();
+  }
+
+  setCameraFov(degrees: number): void {
+    this.camera.setFov(degrees);
+  }
+
+  getCameraFov(): number {
+    return this.camera.getFov();
+  }
+
+  setFlightMode(mode: FlightMode): void {
+    this.flightComputer.setMode(mode, this.physicsEngine.getTelemetry());
+  }
+
+  getFlightMode(): FlightMode {
+    return this.flightComputer.getMode();
+  }
+
+  setAutopilotTargets(targets: Partial<AutopilotTargets>): void {
+    this.flightComputer.setTargets(targets);
+  }
+
+  getAutopilotTargets(): AutopilotTargets {
+    return this.flightComputer.getTargets();
+  }
+
+  getMissionWaypoints(): Mission['waypoints'] {
+    return this.currentMission ? this.currentMission.waypoints.map(waypoint => ({ ...waypoint })) : [];
+  }
+
+  setPowerPriorities(priorities: PowerConsumer[]): void {
+    this.physicsEngine.setPowerPriorities(priorities);
+  }
+
+  private handleGameEvent(event: GameEvent): void {
+    this.audioEngine.playEventSound(event);
     
-    switch (key.toLowerCase()) {
-      case 'w':
-        this.physicsEngine.applyControlInput({ pitch: -0.02 * inputStrength, yaw: 0, roll: 0, thrust: 0.8 });
-        break;
-      case 's':
-        this.physicsEngine.applyControlInput({ pitch: 0.02 * inputStrength, yaw: 0, roll: 0, thrust: 0.8 });
+    if (this.onEvent) {
+      this.onEvent(event);
+    }
+  }
+
+  private handleInputAction(action: InputAction): void {
+    switch (action) {
+      case 'toggle-cloak':
+        this.updateSystem('cloaking', { active: !this.systemStates.cloaking.active });
         break;
-      case 'a':
-        this.physicsEngine.applyControlInput({ pitch: 0, yaw: -0.02 * inputStrength, roll: 0, thrust: 0.8 });
+      case 'sensor-ping':
+        // Starved or disabled sensors stay silent
+        if (this.systemStates.sensors.active) {
+          this.audioEngine.playSystemSound('sensors', this.systemStates.sensors);
+        }
         break;
-      case 'd':
-        this.physicsEngine.applyControlInput({ pitch: 0, yaw: 0.02 * inputStrength, roll: 0, thrust: 0.8 });
+      case 'cycle-camera':
+        this.setCameraMode(CAMERA_MODES[(CAMERA_MODES.indexOf(this.camera.getMode()) + 1) % CAMERA_MODES.length]);
         break;
     }
   }
@@ -216,7 +547,12 @@ export default class GameEngine {
         description: 'Conduct stealth surveillance over metropolitan area.',
         objectives: ['Maintain cloak integrity', 'Scan designated targets', 'Avoid radar detection'],
         environment: 'urban-night',
-        duration: 300
+        duration: 300,
+        waypoints: [
+          { x: 600, y: 120, z: -900 },
+          { x: -450, y: 150, z: -1600 },
+          { x: 0, y: 100, z: 0 }
+        ]
       },
       {
         id: 'lunar-survey-01',
@@ -226,7 +562,11 @@ export default class GameEngine {
         description: 'Investigate quantum signatures detected on lunar surface.',
         objectives: ['Navigate to coordinates', 'Deploy sensor probes', 'Analyze quantum data'],
         environment: 'lunar-surface',
-        duration: 600
+        duration: 600,
+        waypoints: [
+          { x: -1200, y: 80, z: -2400 },
+          { x: 800, y: 60, z: -3800 }
+        ]
       }
     ];
     
@@ -238,12 +578,16 @@ export default class GameEngine {
   }
 
   resume(): void {
+    if (this.contextLost) return;
     this.isRunning = true;
     this.lastTime = performance.now();
+    this.accumulator = 0;
   }
 
   cleanup(): void {
     this.isRunning = false;
+    this.canvas.removeEventListener('webglcontextlost', this.handleContextLost);
+    this.canvas.removeEventListener('webglcontextrestored', this.handleContextRestored);
     if (this.renderEngine) {
       this.renderEngine.cleanup();
     }
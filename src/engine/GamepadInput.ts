@@ -0,0 +1,126 @@
+import { GamepadSettings } from '../types/GameTypes';
+
+// Source of gamepad snapshots; swapped for a fake in headless runs
+export type GamepadProvider = () => ArrayLike<Gamepad | null>;
+
+export interface GamepadSnapshot {
+  id: string;
+  // Shaped by dead zone, response curve and inversion
+  axes: number[];
+  buttons: number[];
+  // Lever position in [0, 1] when a throttle axis is configured
+  throttle: number | null;
+}
+
+export const DEFAULT_GAMEPAD_SETTINGS: GamepadSettings = {
+  deadZone: 0.12,
+  responseExponent: 1.6,
+  invertedAxes: [],
+  throttleAxis: null
+};
+
+const browserGamepads: GamepadProvider = () =>
+  typeof navigator !== 'undefined' && navigator.getGamepads ? navigator.getGamepads() : [];
+
+export default class GamepadInput {
+  private provider: GamepadProvider;
+  private settings: GamepadSettings;
+  private connected: Map<number, string> = new Map();
+  private activeIndex: number | null = null;
+
+  public onConnectionChange: ((id: string, connected: boolean) => void) | null = null;
+
+  constructor(provider: GamepadProvider = browserGamepads, settings: GamepadSettings = DEFAULT_GAMEPAD_SETTINGS) {
+    this.provider = provider;
+    this.settings = settings;
+  }
+
+  setProvider(provider: GamepadProvider): void {
+    this.provider = provider;
+  }
+
+  setSettings(settings: Partial<GamepadSettings>): void {
+    this.settings = { ...this.settings, ...settings };
+  }
+
+  getSettings(): GamepadSettings {
+    return {
+      ...this.settings,
+      invertedAxes: [...this.settings.invertedAxes],
+      throttleAxis: this.settings.throttleAxis ? { ...this.settings.throttleAxis } : null
+    };
+  }
+
+  getConnectedGamepads(): string[] {
+    return Array.from(this.connected.values());
+  }
+
+  // Reads the first connected pad; returns null when none is plugged in
+  poll(): GamepadSnapshot | null {
+    const gamepads = this.detectConnections();
+    if (this.activeIndex === null) return null;
+
+    const gamepad = gamepads.find(pad => pad.index === this.activeIndex);
+    if (!gamepad) return null;
+
+    const { throttleAxis } = this.settings;
+    const throttleValue = throttleAxis ? gamepad.axes[throttleAxis.index] ?? 0 : 0;
+
+    return {
+      id: gamepad.id,
+      axes: gamepad.axes.map((value, index) => this.shapeAxis(value, index)),
+      buttons: gamepad.buttons.map(button => Math.max(button.value, button.pressed ? 1 : 0)),
+      // Levers read -1 at full forward
+      throttle: throttleAxis ? (1 - (throttleAxis.invert ? -throttleValue : throttleValue)) / 2 : null
+    };
+  }
+
+  // Hot-plug: compare this poll against the pads seen last time
+  private detectConnections(): Gamepad[] {
+    const gamepads = Array.from(this.provider()).filter((pad): pad is Gamepad => pad !== null && pad.connected);
+    const seen = new Set<number>();
+
+    for (const pad of gamepads) {
+      seen.add(pad.index);
+      if (!this.connected.has(pad.index)) {
+        this.connected.set(pad.index, pad.id);
+        this.notifyConnection(pad.id, true);
+      }
+    }
+
+    for (const [index, id] of Array.from(this.connected.entries())) {
+      if (!seen.has(index)) {
+        this.connected.delete(index);
+        this.notifyConnection(id, false);
+      }
+    }
+
+    if (this.activeIndex === null || !seen.has(this.activeIndex)) {
+      this.activeIndex = gamepads.length > 0 ? gamepads[0].index : null;
+    }
+
+    return gamepads;
+  }
+
+  private notifyConnection(id: string, connected: boolean): void {
+    if (this.onConnectionChange) {
+      this.onConnectionChange(id, connected);
+    }
+  }
+
+  // Dead zone rescaled so output still reaches full deflection, then shaped by the curve
+  private shapeAxis(rawValue: number, index: number): number {
+    const value = Math.max(-1, Math.min(1, this.settings.invertedAxes.includes(index) ? -rawValue : rawValue));
+    const { deadZone, responseExponent } = this.settings;
+    const magnitude = Math.abs(value);
+    if (magnitude <= deadZone) return 0;
+
+    const scaled = (magnitude - deadZone) / (1 - deadZone);
+    return Math.sign(value) * Math.pow(scaled, responseExponent);
+  }
+
+  reset(): void {
+    this.connected.clear();
+    this.activeIndex = null;
+  }
+}
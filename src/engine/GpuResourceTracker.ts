@@ -0,0 +1,117 @@
+export type GpuResourceKind =
+  | 'buffer'
+  | 'texture'
+  | 'framebuffer'
+  | 'renderbuffer'
+  | 'vertexArray'
+  | 'transformFeedback'
+  | 'program'
+  | 'shader'
+  | 'query';
+
+// Context methods that make and free each kind of object
+const FACTORIES: [GpuResourceKind, string, string][] = [
+  ['buffer', 'createBuffer', 'deleteBuffer'],
+  ['texture', 'createTexture', 'deleteTexture'],
+  ['framebuffer', 'createFramebuffer', 'deleteFramebuffer'],
+  ['renderbuffer', 'createRenderbuffer', 'deleteRenderbuffer'],
+  ['vertexArray', 'createVertexArray', 'deleteVertexArray'],
+  ['transformFeedback', 'createTransformFeedback', 'deleteTransformFeedback'],
+  ['program', 'createProgram', 'deleteProgram'],
+  ['shader', 'createShader', 'deleteShader'],
+  ['query', 'createQuery', 'deleteQuery']
+];
+
+// Buffer targets, each with the parameter that reports what is bound to it
+const BUFFER_TARGETS = [
+  'ARRAY_BUFFER',
+  'ELEMENT_ARRAY_BUFFER',
+  'UNIFORM_BUFFER',
+  'TRANSFORM_FEEDBACK_BUFFER',
+  'COPY_READ_BUFFER',
+  'COPY_WRITE_BUFFER',
+  'PIXEL_PACK_BUFFER',
+  'PIXEL_UNPACK_BUFFER'
+] as const;
+
+// Bytes a bufferData call allocates, from either its size or its source data and range
+function allocationSize(data: unknown, sourceOffset = 0, length = 0): number {
+  if (typeof data === 'number') return data;
+  if (ArrayBuffer.isView(data)) {
+    const elementSize = (data as unknown as { BYTES_PER_ELEMENT?: number }).BYTES_PER_ELEMENT ?? 1;
+    return length > 0 ? length * elementSize : data.byteLength - sourceOffset * elementSize;
+  }
+  return data instanceof ArrayBuffer ? data.byteLength : 0;
+}
+
+type ContextMethods = Record<string, (...args: unknown[]) => unknown>;
+
+// Records every object created through the context, whoever creates it, by wrapping the context's own
+// create and delete methods. When the context is lost, whatever is still live shows what teardown missed.
+// Buffer storage is sized the same way, through bufferData.
+export default class GpuResourceTracker {
+  private live: Map<GpuResourceKind, Set<unknown>> = new Map();
+  private bufferSizes: Map<unknown, number> = new Map();
+  private bindings: Map<number, number> = new Map();
+
+  constructor(gl: WebGL2RenderingContext) {
+    const context = gl as unknown as ContextMethods;
+    for (const [kind, create, remove] of FACTORIES) {
+      const handles = new Set<unknown>();
+      this.live.set(kind, handles);
+
+      const createObject = context[create].bind(gl);
+      const deleteObject = context[remove].bind(gl);
+      context[create] = (...args) => {
+        const handle = createObject(...args);
+        if (handle) handles.add(handle);
+        return handle;
+      };
+      context[remove] = (handle) => {
+        handles.delete(handle);
+        this.bufferSizes.delete(handle);
+        return deleteObject(handle);
+      };
+    }
+
+    for (const target of BUFFER_TARGETS) {
+      this.bindings.set(gl[target], gl[`${target}_BINDING`]);
+    }
+    const bufferData = context.bufferData.bind(gl);
+    context.bufferData = (target, data, ...rest) => {
+      const binding = this.bindings.get(target as number);
+      const buffer = binding !== undefined ? gl.getParameter(binding) : null;
+      if (buffer) {
+        this.bufferSizes.set(buffer, allocationSize(data, rest[1] as number | undefined, rest[2] as number | undefined));
+      }
+      return bufferData(target, data, ...rest);
+    };
+  }
+
+  counts(): { [kind in GpuResourceKind]: number } {
+    const counts = {} as { [kind in GpuResourceKind]: number };
+    for (const [kind, handles] of this.live) {
+      counts[kind] = handles.size;
+    }
+    return counts;
+  }
+
+  total(): number {
+    let total = 0;
+    this.live.forEach(handles => total += handles.size);
+    return total;
+  }
+
+  // Storage held by live buffers
+  bufferBytes(): number {
+    let total = 0;
+    this.bufferSizes.forEach(size => total += size);
+    return total;
+  }
+
+  // Objects from a lost context are already gone on the GPU; only our references remain
+  forget(): void {
+    this.live.forEach(handles => handles.clear());
+    this.bufferSizes.clear();
+  }
+}
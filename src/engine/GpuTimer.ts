@@ -0,0 +1,76 @@
+// Constants from EXT_disjoint_timer_query_webgl2, which the DOM typings leave out
+interface TimerQueryExtension {
+  TIME_ELAPSED_EXT: number;
+  GPU_DISJOINT_EXT: number;
+}
+
+// Times whole frames on the GPU with timer queries. Results arrive a few frames late, so each frame polls
+// for finished queries before starting its own; without the extension every time reads as null.
+export default class GpuTimer {
+  private gl: WebGL2RenderingContext;
+  private extension: TimerQueryExtension | null;
+  private pending: WebGLQuery[] = []; // oldest first
+  private spare: WebGLQuery[] = [];
+  private active: WebGLQuery | null = null;
+  private lastTime: number | null = null; // ms
+
+  private readonly MAX_PENDING = 8; // frames in flight before timing pauses to let results drain
+
+  constructor(gl: WebGL2RenderingContext) {
+    this.gl = gl;
+    this.extension = gl.getExtension('EXT_disjoint_timer_query_webgl2');
+  }
+
+  isSupported(): boolean {
+    return this.extension !== null;
+  }
+
+  beginFrame(): void {
+    if (!this.extension || this.active) return;
+    this.poll();
+    if (this.pending.length >= this.MAX_PENDING) return;
+
+    const query = this.spare.pop() ?? this.gl.createQuery();
+    if (!query) return;
+    this.gl.beginQuery(this.extension.TIME_ELAPSED_EXT, query);
+    this.active = query;
+  }
+
+  endFrame(): void {
+    if (!this.extension || !this.active) return;
+    this.gl.endQuery(this.extension.TIME_ELAPSED_EXT);
+    this.pending.push(this.active);
+    this.active = null;
+  }
+
+  // GPU time of the latest frame whose result has come back
+  getTime(): number | null {
+    return this.lastTime;
+  }
+
+  cleanup(): void {
+    if (this.active && this.extension) {
+      this.gl.endQuery(this.extension.TIME_ELAPSED_EXT);
+    }
+    [...this.pending, ...this.spare, this.active].forEach(query => this.gl.deleteQuery(query));
+    this.pending = [];
+    this.spare = [];
+    this.active = null;
+    this.lastTime = null;
+  }
+
+  private poll(): void {
+    const gl = this.gl;
+    // A disjoint event (clock change, power state) spoils every result in flight
+    const disjoint = gl.getParameter(this.extension!.GPU_DISJOINT_EXT);
+    while (this.pending.length > 0) {
+      const query = this.pending[0];
+      if (!disjoint && !gl.getQueryParameter(query, gl.QUERY_RESULT_AVAILABLE)) break;
+      this.pending.shift();
+      if (!disjoint) {
+        this.lastTime = gl.getQueryParameter(query, gl.QUERY_RESULT) / 1e6;
+      }
+      this.spare.push(query);
+    }
+  }
+}
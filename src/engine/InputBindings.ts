@@ -0,0 +1,388 @@
+import {
+  ControlAction,
+  GamepadSettings,
+  InputBinding,
+  InputProfile,
+  KeyboardLayout,
+  TouchGesture
+} from '../types/GameTypes';
+import { DEFAULT_GAMEPAD_SETTINGS } from './GamepadInput';
+
+export const CONTROL_ACTIONS: ControlAction[] = [
+  'pitch-up',
+  'pitch-down',
+  'yaw-left',
+  'yaw-right',
+  'roll-left',
+  'roll-right',
+  'throttle-up',
+  'throttle-down',
+  'lift-up',
+  'lift-down',
+  'toggle-cloak',
+  'sensor-ping',
+  'cycle-camera'
+];
+
+export const ACTION_LABELS: Record<ControlAction, string> = {
+  'pitch-up': 'Pitch up',
+  'pitch-down': 'Pitch down',
+  'yaw-left': 'Yaw left',
+  'yaw-right': 'Yaw right',
+  'roll-left': 'Roll left',
+  'roll-right': 'Roll right',
+  'throttle-up': 'Throttle up',
+  'throttle-down': 'Throttle down',
+  'lift-up': 'Ascend',
+  'lift-down': 'Descend',
+  'toggle-cloak': 'Toggle cloak',
+  'sensor-ping': 'Sensor ping',
+  'cycle-camera': 'Cycle camera'
+};
+
+const TOUCH_GESTURES: TouchGesture[] = ['stick-up', 'stick-down', 'stick-left', 'stick-right', 'two-finger-tap', 'three-finger-tap'];
+const KEYBOARD_LAYOUTS: KeyboardLayout[] = ['qwerty', 'azerty'];
+
+const STORAGE_KEY = 'manta.inputProfile';
+
+const key = (code: string): InputBinding => ({ device: 'keyboard', code });
+const mouse = (button: number): InputBinding => ({ device: 'mouse', button });
+const touch = (gesture: TouchGesture): InputBinding => ({ device: 'touch', gesture });
+const padButton = (button: number): InputBinding => ({ device: 'gamepad-button', button });
+const padAxis = (axis: number, direction: 1 | -1): InputBinding => ({ device: 'gamepad-axis', axis, direction });
+
+// Standard gamepad: left stick pitch/roll, right stick yaw/lift, triggers throttle.
+// Pushing a stick forward reads -1, which pitches the nose down.
+export const DEFAULT_PROFILE: InputProfile = {
+  name: 'Default',
+  keyboardLayout: 'qwerty',
+  bindings: {
+    'pitch-up': [key('KeyS'), padAxis(1, 1), touch('stick-up')],
+    'pitch-down': [key('KeyW'), padAxis(1, -1), touch('stick-down')],
+    'yaw-left': [key('KeyA'), padAxis(2, -1), touch('stick-left')],
+    'yaw-right': [key('KeyD'), padAxis(2, 1), touch('stick-right')],
+    'roll-left': [key('KeyQ'), padAxis(0, -1)],
+    'roll-right': [key('KeyE'), padAxis(0, 1)],
+    'throttle-up': [key('ShiftLeft'), key('ShiftRight'), padButton(7)],
+    'throttle-down': [key('ControlLeft'), key('ControlRight'), padButton(6)],
+    'lift-up': [key('Space'), padAxis(3, -1)],
+    'lift-down': [key('KeyC'), padAxis(3, 1)],
+    'toggle-cloak': [key('KeyX'), padButton(3), mouse(2)],
+    'sensor-ping': [key('KeyR'), padButton(0), touch('two-finger-tap')],
+    'cycle-camera': [key('KeyV'), padButton(1), mouse(1), touch('three-finger-tap')]
+  },
+  gamepad: DEFAULT_GAMEPAD_SETTINGS
+};
+
+// Same physical keys as the default; ZQSD on an AZERTY board sits where WASD does
+export const AZERTY_PROFILE: InputProfile = {
+  ...DEFAULT_PROFILE,
+  name: 'AZERTY',
+  keyboardLayout: 'azerty'
+};
+
+// Flight keys on the right-hand cluster and the gamepad sticks swapped
+export const LEFT_HANDED_PROFILE: InputProfile = {
+  name: 'Left-handed',
+  keyboardLayout: 'qwerty',
+  bindings: {
+    'pitch-up': [key('KeyK'), key('ArrowDown'), padAxis(3, 1), touch('stick-up')],
+    'pitch-down': [key('KeyI'), key('ArrowUp'), padAxis(3, -1), touch('stick-down')],
+    'yaw-left': [key('KeyJ'), key('ArrowLeft'), padAxis(0, -1), touch('stick-left')],
+    'yaw-right': [key('KeyL'), key('ArrowRight'), padAxis(0, 1), touch('stick-right')],
+    'roll-left': [key('KeyU'), padAxis(2, -1)],
+    'roll-right': [key('KeyO'), padAxis(2, 1)],
+    'throttle-up': [key('ShiftRight'), padButton(7)],
+    'throttle-down': [key('ControlRight'), padButton(6)],
+    'lift-up': [key('KeyP'), padAxis(1, -1)],
+    'lift-down': [key('Semicolon'), padAxis(1, 1)],
+    'toggle-cloak': [key('KeyM'), padButton(3), mouse(2)],
+    'sensor-ping': [key('KeyN'), padButton(0), touch('two-finger-tap')],
+    'cycle-camera': [key('KeyH'), padButton(1), mouse(1), touch('three-finger-tap')]
+  },
+  gamepad: DEFAULT_GAMEPAD_SETTINGS
+};
+
+export const BUILT_IN_PROFILES: InputProfile[] = [DEFAULT_PROFILE, AZERTY_PROFILE, LEFT_HANDED_PROFILE];
+
+// Keys that print differently on an AZERTY board
+const AZERTY_LABELS: { [code: string]: string } = {
+  KeyQ: 'A',
+  KeyA: 'Q',
+  KeyW: 'Z',
+  KeyZ: 'W',
+  KeyM: ',',
+  Semicolon: 'M'
+};
+
+const KEY_LABELS: { [code: string]: string } = {
+  Space: 'Space',
+  ShiftLeft: 'L Shift',
+  ShiftRight: 'R Shift',
+  ControlLeft: 'L Ctrl',
+  ControlRight: 'R Ctrl',
+  AltLeft: 'L Alt',
+  AltRight: 'R Alt',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Semicolon: ';',
+  Comma: ',',
+  Period: '.',
+  Slash: '/',
+  Enter: 'Enter',
+  Tab: 'Tab'
+};
+
+const GAMEPAD_BUTTON_LABELS = ['A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'Back', 'Start', 'LS', 'RS', 'D-pad ↑', 'D-pad ↓', 'D-pad ←', 'D-pad →', 'Home'];
+const GAMEPAD_AXIS_LABELS = ['Left stick ←', 'Left stick →', 'Left stick ↑', 'Left stick ↓', 'Right stick ←', 'Right stick →', 'Right stick ↑', 'Right stick ↓'];
+const MOUSE_BUTTON_LABELS = ['Left click', 'Middle click', 'Right click'];
+
+const TOUCH_LABELS: Record<TouchGesture, string> = {
+  'stick-up': 'Drag up',
+  'stick-down': 'Drag down',
+  'stick-left': 'Drag left',
+  'stick-right': 'Drag right',
+  'two-finger-tap': 'Two-finger tap',
+  'three-finger-tap': 'Three-finger tap'
+};
+
+export function describeBinding(binding: InputBinding, layout: KeyboardLayout = 'qwerty'): string {
+  switch (binding.device) {
+    case 'keyboard': {
+      if (layout === 'azerty' && AZERTY_LABELS[binding.code]) return AZERTY_LABELS[binding.code];
+      if (KEY_LABELS[binding.code]) return KEY_LABELS[binding.code];
+      return binding.code.replace(/^(Key|Digit)/, '');
+    }
+    case 'mouse':
+      return MOUSE_BUTTON_LABELS[binding.button] ?? `Mouse ${binding.button}`;
+    case 'touch':
+      return TOUCH_LABELS[binding.gesture];
+    case 'gamepad-button':
+      return `Pad ${GAMEPAD_BUTTON_LABELS[binding.button] ?? binding.button}`;
+    case 'gamepad-axis': {
+      const label = GAMEPAD_AXIS_LABELS[binding.axis * 2 + (binding.direction > 0 ? 1 : 0)];
+      return label ? `Pad ${label}` : `Pad axis ${binding.axis}${binding.direction > 0 ? '+' : '-'}`;
+    }
+  }
+}
+
+export function bindingsEqual(a: InputBinding, b: InputBinding): boolean {
+  switch (a.device) {
+    case 'keyboard':
+      return b.device === 'keyboard' && a.code === b.code;
+    case 'mouse':
+      return b.device === 'mouse' && a.button === b.button;
+    case 'touch':
+      return b.device === 'touch' && a.gesture === b.gesture;
+    case 'gamepad-button':
+      return b.device === 'gamepad-button' && a.button === b.button;
+    case 'gamepad-axis':
+      return b.device === 'gamepad-axis' && a.axis === b.axis && a.direction === b.direction;
+  }
+}
+
+const cloneProfile = (profile: InputProfile): InputProfile => JSON.parse(JSON.stringify(profile));
+
+const isIndex = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+function parseBinding(value: unknown, context: string): InputBinding {
+  const binding = value as { [field: string]: unknown } | null;
+  if (!binding || typeof binding !== 'object') {
+    throw new Error(`${context}: binding must be an object`);
+  }
+
+  switch (binding.device) {
+    case 'keyboard':
+      if (typeof binding.code !== 'string' || binding.code.length === 0) break;
+      return { device: 'keyboard', code: binding.code };
+    case 'mouse':
+      if (!isIndex(binding.button)) break;
+      return { device: 'mouse', button: binding.button };
+    case 'touch':
+      if (!TOUCH_GESTURES.includes(binding.gesture as TouchGesture)) break;
+      return { device: 'touch', gesture: binding.gesture as TouchGesture };
+    case 'gamepad-button':
+      if (!isIndex(binding.button)) break;
+      return { device: 'gamepad-button', button: binding.button };
+    case 'gamepad-axis':
+      if (!isIndex(binding.axis) || (binding.direction !== 1 && binding.direction !== -1)) break;
+      return { device: 'gamepad-axis', axis: binding.axis, direction: binding.direction };
+  }
+
+  throw new Error(`${context}: invalid ${String(binding.device)} binding`);
+}
+
+function parseGamepadSettings(value: unknown): GamepadSettings {
+  if (value === undefined) return { ...DEFAULT_GAMEPAD_SETTINGS };
+
+  const settings = value as { [field: string]: unknown } | null;
+  if (!settings || typeof settings !== 'object') {
+    throw new Error('gamepad: settings must be an object');
+  }
+
+  const { deadZone, responseExponent, invertedAxes, throttleAxis } = settings;
+  if (typeof deadZone !== 'number' || deadZone < 0 || deadZone >= 1) {
+    throw new Error('gamepad: deadZone must be in [0, 1)');
+  }
+  if (typeof responseExponent !== 'number' || responseExponent <= 0) {
+    throw new Error('gamepad: responseExponent must be positive');
+  }
+  if (!Array.isArray(invertedAxes) || !invertedAxes.every(isIndex)) {
+    throw new Error('gamepad: invertedAxes must be a list of axis indices');
+  }
+
+  let throttle: GamepadSettings['throttleAxis'] = null;
+  if (throttleAxis !== null && throttleAxis !== undefined) {
+    const lever = throttleAxis as { [field: string]: unknown };
+    if (!isIndex(lever.index) || typeof lever.invert !== 'boolean') {
+      throw new Error('gamepad: throttleAxis needs an index and invert flag');
+    }
+    throttle = { index: lever.index, invert: lever.invert };
+  }
+
+  return { deadZone, responseExponent, invertedAxes: [...invertedAxes], throttleAxis: throttle };
+}
+
+// Validates untrusted profile data (imports, storage); throws with the first problem found
+export function parseProfile(data: unknown): InputProfile {
+  const profile = data as { [field: string]: unknown } | null;
+  if (!profile || typeof profile !== 'object') {
+    throw new Error('Input profile must be a JSON object');
+  }
+  if (typeof profile.name !== 'string' || profile.name.trim().length === 0) {
+    throw new Error('Input profile needs a name');
+  }
+
+  const layout = profile.keyboardLayout ?? 'qwerty';
+  if (!KEYBOARD_LAYOUTS.includes(layout as KeyboardLayout)) {
+    throw new Error(`Unknown keyboard layout: ${String(layout)}`);
+  }
+
+  const bindings = profile.bindings as { [action: string]: unknown } | null;
+  if (!bindings || typeof bindings !== 'object') {
+    throw new Error('Input profile needs a bindings object');
+  }
+
+  const parsed = {} as Record<ControlAction, InputBinding[]>;
+  for (const action of CONTROL_ACTIONS) {
+    const list = bindings[action] ?? [];
+    if (!Array.isArray(list)) {
+      throw new Error(`${action}: bindings must be a list`);
+    }
+    parsed[action] = list.map(binding => parseBinding(binding, action));
+  }
+
+  return {
+    name: profile.name.trim(),
+    keyboardLayout: layout as KeyboardLayout,
+    bindings: parsed,
+    gamepad: parseGamepadSettings(profile.gamepad)
+  };
+}
+
+export default class InputBindings {
+  private profile: InputProfile;
+  private storage: Storage | null;
+
+  public onChange: ((profile: InputProfile) => void) | null = null;
+
+  constructor(storage: Storage | null = typeof localStorage !== 'undefined' ? localStorage : null) {
+    this.storage = storage;
+    this.profile = this.load();
+  }
+
+  getProfile(): InputProfile {
+    return cloneProfile(this.profile);
+  }
+
+  getBindings(action: ControlAction): InputBinding[] {
+    return this.profile.bindings[action].map(binding => ({ ...binding }));
+  }
+
+  // Actions that already use this binding, other than the one being rebound
+  findConflicts(action: ControlAction, binding: InputBinding): ControlAction[] {
+    return CONTROL_ACTIONS.filter(other =>
+      other !== action && this.profile.bindings[other].some(existing => bindingsEqual(existing, binding))
+    );
+  }
+
+  // Adds a binding, taking it away from any action that held it before
+  bind(action: ControlAction, binding: InputBinding): void {
+    for (const other of this.findConflicts(action, binding)) {
+      this.profile.bindings[other] = this.profile.bindings[other].filter(existing => !bindingsEqual(existing, binding));
+    }
+
+    if (!this.profile.bindings[action].some(existing => bindingsEqual(existing, binding))) {
+      this.profile.bindings[action] = [...this.profile.bindings[action], { ...binding }];
+    }
+    this.commit();
+  }
+
+  unbind(action: ControlAction, binding: InputBinding): void {
+    this.profile.bindings[action] = this.profile.bindings[action].filter(existing => !bindingsEqual(existing, binding));
+    this.commit();
+  }
+
+  setGamepadSettings(settings: Partial<GamepadSettings>): void {
+    this.profile.gamepad = { ...this.profile.gamepad, ...settings };
+    this.commit();
+  }
+
+  setKeyboardLayout(layout: KeyboardLayout): void {
+    this.profile.keyboardLayout = layout;
+    this.commit();
+  }
+
+  usePreset(name: string): void {
+    const preset = BUILT_IN_PROFILES.find(profile => profile.name === name);
+    if (!preset) {
+      throw new Error(`Unknown input profile: ${name}`);
+    }
+    this.profile = cloneProfile(preset);
+    this.commit();
+  }
+
+  exportProfile(): string {
+    return JSON.stringify(this.profile, null, 2);
+  }
+
+  importProfile(json: string): void {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      throw new Error('Input profile is not valid JSON');
+    }
+    this.profile = parseProfile(data);
+    this.commit();
+  }
+
+  private load(): InputProfile {
+    const stored = this.storage ? this.storage.getItem(STORAGE_KEY) : null;
+    if (stored) {
+      try {
+        return parseProfile(JSON.parse(stored));
+      } catch (error) {
+        console.warn('Ignoring saved input profile:', error);
+      }
+    }
+    return cloneProfile(DEFAULT_PROFILE);
+  }
+
+  private commit(): void {
+    if (this.storage) {
+      try {
+        this.storage.setItem(STORAGE_KEY, JSON.stringify(this.profile));
+      } catch (error) {
+        console.warn('Failed to save input profile:', error);
+      }
+    }
+
+    if (this.onChange) {
+      this.onChange(this.getProfile());
+    }
+  }
+}
@@ -1,3 +1,15 @@
+import {
+  AxisAction,
+  ControlAction,
+  ControlAxes,
+  InputAction,
+  InputBinding,
+  InputProfile,
+  TouchGesture
+} from '../types/GameTypes';
+import GamepadInput, { GamepadProvider, GamepadSnapshot } from './GamepadInput';
+import InputBindings from './InputBindings';
+
 interface TouchHandler {
   (type: string, touches: Touch[]): void;
 }
@@ -6,16 +18,81 @@ interface KeyHandler {
   (key: string, pressed: boolean): void;
 }
 
+// Where single-pointer drags go: the virtual flight stick or the camera
+export type PointerMode = 'stick' | 'camera';
+
+const INPUT_ACTIONS: InputAction[] = ['toggle-cloak', 'sensor-ping', 'cycle-camera'];
+
+const isTextEntry = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT');
+
 export default class InputManager {
   private canvas: HTMLCanvasElement;
   private activeTouches: Map<number, Touch> = new Map();
   private pressedKeys: Set<string> = new Set();
+  private pressedMouseButtons: Set<number> = new Set();
+  // Taps only last an instant, so they are held until the next sample
+  private pendingGestures: Set<TouchGesture> = new Set();
+  private heldActions: Set<InputAction> = new Set();
+  
+  // Smoothed control state sampled by the simulation each step
+  private controls: ControlAxes = { pitch: 0, yaw: 0, roll: 0, throttle: 0, lift: 0 };
+  private touchStick = { x: 0, y: 0 };
+  private pointerMode: PointerMode = 'stick';
+  private lastPointer: { x: number; y: number } | null = null;
+  private lastPinchDistance: number | null = null;
+  private gamepad: GamepadInput;
+  private bindings: InputBindings;
+  private profile: InputProfile;
+  
+  // Rebinding capture
+  private captureCallback: ((binding: InputBinding | null) => void) | null = null;
+  private captureBaseline: GamepadSnapshot | null = null;
+  private captureTouchOrigin: { x: number; y: number } | null = null;
+  private captureFrame = 0;
+  
+  // Slew rates in units per second: deflect, recentre and throttle lever travel
+  private readonly AXIS_ATTACK_RATE = 4;
+  private readonly AXIS_RELEASE_RATE = 6;
+  private readonly THROTTLE_RATE = 0.5;
+  // Exponential smoothing time constant (s)
+  private readonly AXIS_SMOOTHING = 0.05;
+  // Analog travel that counts as a press for actions and capture
+  private readonly PRESS_THRESHOLD = 0.5;
+  private readonly CAPTURE_AXIS_THRESHOLD = 0.6;
+  private readonly CAPTURE_DRAG_DISTANCE = 60; // px
+  // Pinch travel converted to wheel-like zoom units
+  private readonly PINCH_ZOOM_SCALE = 4;
   
   public onTouch: TouchHandler | null = null;
   public onKey: KeyHandler | null = null;
+  public onAction: ((action: InputAction) => void) | null = null;
+  public onGamepadConnection: ((id: string, connected: boolean) => void) | null = null;
+  public onPointerDrag: ((deltaX: number, deltaY: number) => void) | null = null;
+  public onZoom: ((delta: number) => void) | null = null;
   
-  constructor(canvas: HTMLCanvasElement) {
+  constructor(canvas: HTMLCanvasElement, gamepadProvider?: GamepadProvider) {
     this.canvas = canvas;
+    this.bindings = new InputBindings();
+    this.profile = this.bindings.getProfile();
+    this.gamepad = new GamepadInput(gamepadProvider, this.profile.gamepad);
+    this.bindings.onChange = (profile) => {
+      this.profile = profile;
+      this.gamepad.setSettings(profile.gamepad);
+    };
+    this.gamepad.onConnectionChange = (id, connected) => {
+      if (this.onGamepadConnection) {
+        this.onGamepadConnection(id, connected);
+      }
+    };
+  }
+  
+  getGamepadInput(): GamepadInput {
+    return this.gamepad;
+  }
+  
+  getInputBindings(): InputBindings {
+    return this.bindings;
   }
   
   initialize(): void {
@@ -33,6 +110,27 @@ export default class InputManager {
     // Keyboard events
     window.addEventListener('keydown', this.handleKeyDown.bind(this));
     window.addEventListener('keyup', this.handleKeyUp.bind(this));
+    // Keyups are lost while unfocused, so release everything
+    window.addEventListener('blur', () => {
+      this.pressedKeys.clear();
+      this.pressedMouseButtons.clear();
+    });
+    
+    // Buttons are tracked window-wide so a release off the canvas is not missed
+    window.addEventListener('mouseup', (e) => this.pressedMouseButtons.delete(e.button));
+    
+    // Capture listeners run before the flight handlers and swallow what they bind
+    window.addEventListener('keydown', this.handleCaptureKey.bind(this), true);
+    window.addEventListener('mousedown', this.handleCaptureMouse.bind(this), true);
+    window.addEventListener('touchstart', this.handleCaptureTouchStart.bind(this), true);
+    window.addEventListener('touchmove', this.handleCaptureTouchMove.bind(this), true);
+    
+    // Pads are polled each step; these events only make hot-plug show up promptly
+    window.addEventListener('gamepadconnected', () => this.gamepad.poll());
+    window.addEventListener('gamepaddisconnected', () => this.gamepad.poll());
+    
+    // Wheel zooms whichever camera is active
+    this.canvas.addEventListener('wheel', this.handleWheel.bind(this), { passive: false });
     
     // Prevent context menu
     this.canvas.addEventListener('contextmenu', (e) => e.preventDefault());
@@ -48,6 +146,14 @@ export default class InputManager {
       this.activeTouches.set(touch.identifier, touch);
     }
     
+    // In camera mode two fingers pinch rather than tap; three still tap in both modes
+    if (this.activeTouches.size === 2 && this.pointerMode === 'stick') {
+      this.pendingGestures.add('two-finger-tap');
+    } else if (this.activeTouches.size === 3) {
+      this.pendingGestures.add('three-finger-tap');
+    }
+    
+    this.updatePointer();
     this.triggerTouchEvent('start', Array.from(this.activeTouches.values()));
   }
   
@@ -59,6 +165,7 @@ export default class InputManager {
       this.activeTouches.set(touch.identifier, touch);
     }
     
+    this.updatePointer();
     this.triggerTouchEvent('move', Array.from(this.activeTouches.values()));
   }
   
@@ -70,21 +177,28 @@ export default class InputManager {
       this.activeTouches.delete(touch.identifier);
     }
     
+    this.updatePointer();
     this.triggerTouchEvent('end', Array.from(this.activeTouches.values()));
   }
   
   private handleTouchCancel(event: TouchEvent): void {
     event.preventDefault();
     this.activeTouches.clear();
+    this.updatePointer();
     this.triggerTouchEvent('cancel', []);
   }
   
   private handleMouseDown(event: MouseEvent): void {
     event.preventDefault();
+    this.pressedMouseButtons.add(event.button);
+    
+    // Only the primary button drives the stick
+    if (event.button !== 0) return;
     
     // Convert mouse to touch-like event
     const mockTouch = this.createMockTouch(event, 0);
     this.activeTouches.set(0, mockTouch);
+    this.updatePointer();
     this.triggerTouchEvent('start', [mockTouch]);
   }
   
@@ -92,6 +206,7 @@ export default class InputManager {
     if (this.activeTouches.has(0)) {
       const mockTouch = this.createMockTouch(event, 0);
       this.activeTouches.set(0, mockTouch);
+      this.updatePointer();
       this.triggerTouchEvent('move', [mockTouch]);
     }
   }
@@ -99,8 +214,9 @@ export default class InputManager {
   private handleMouseUp(event: MouseEvent): void {
     event.preventDefault();
     
-    if (this.activeTouches.has(0)) {
+    if (event.button === 0 && this.activeTouches.has(0)) {
       this.activeTouches.delete(0);
+      this.updatePointer();
       this.triggerTouchEvent('end', []);
     }
   }
@@ -122,7 +238,289 @@ export default class InputManager {
     } as Touch;
   }
   
+  setPointerMode(mode: PointerMode): void {
+    this.pointerMode = mode;
+    this.updatePointer();
+  }
+  
+  getPointerMode(): PointerMode {
+    return this.pointerMode;
+  }
+  
+  private updatePointer(): void {
+    this.updateTouchStick();
+    this.trackCameraPointer();
+  }
+  
+  // A single touch acts as a virtual stick centred on the canvas
+  private updateTouchStick(): void {
+    if (this.pointerMode !== 'stick' || this.activeTouches.size !== 1) {
+      this.touchStick = { x: 0, y: 0 };
+      return;
+    }
+    
+    const touch = this.activeTouches.values().next().value as Touch;
+    const rect = this.canvas.getBoundingClientRect();
+    const x = ((touch.clientX - rect.left) / Math.max(rect.width, 1)) * 2 - 1;
+    const y = ((touch.clientY - rect.top) / Math.max(rect.height, 1)) * 2 - 1;
+    this.touchStick = {
+      x: Math.max(-1, Math.min(1, x)),
+      y: Math.max(-1, Math.min(1, y))
+    };
+  }
+  
+  // One pointer drags the camera around, two pinch to zoom
+  private trackCameraPointer(): void {
+    const touches = Array.from(this.activeTouches.values());
+    if (this.pointerMode !== 'camera' || touches.length === 0 || touches.length > 2) {
+      this.lastPointer = null;
+      this.lastPinchDistance = null;
+      return;
+    }
+    
+    if (touches.length === 1) {
+      const { clientX, clientY } = touches[0];
+      if (this.lastPointer && this.onPointerDrag) {
+        this.onPointerDrag(clientX - this.lastPointer.x, clientY - this.lastPointer.y);
+      }
+      this.lastPointer = { x: clientX, y: clientY };
+      this.lastPinchDistance = null;
+    } else {
+      const distance = Math.hypot(touches[0].clientX - touches[1].clientX, touches[0].clientY - touches[1].clientY);
+      if (this.lastPinchDistance !== null && this.onZoom) {
+        this.onZoom((this.lastPinchDistance - distance) * this.PINCH_ZOOM_SCALE);
+      }
+      this.lastPinchDistance = distance;
+      this.lastPointer = null;
+    }
+  }
+  
+  private handleWheel(event: WheelEvent): void {
+    event.preventDefault();
+    if (this.onZoom) {
+      this.onZoom(event.deltaY);
+    }
+  }
+  
+  private bindingValue(binding: InputBinding, pad: GamepadSnapshot | null): number {
+    switch (binding.device) {
+      case 'keyboard':
+        return this.pressedKeys.has(binding.code) ? 1 : 0;
+      case 'mouse':
+        return this.pressedMouseButtons.has(binding.button) ? 1 : 0;
+      case 'touch':
+        switch (binding.gesture) {
+          case 'stick-up':
+            return Math.max(0, -this.touchStick.y);
+          case 'stick-down':
+            return Math.max(0, this.touchStick.y);
+          case 'stick-left':
+            return Math.max(0, -this.touchStick.x);
+          case 'stick-right':
+            return Math.max(0, this.touchStick.x);
+          default:
+            return this.pendingGestures.has(binding.gesture) ? 1 : 0;
+        }
+      case 'gamepad-button':
+        return pad ? pad.buttons[binding.button] ?? 0 : 0;
+      case 'gamepad-axis':
+        return pad ? Math.max(0, (pad.axes[binding.axis] ?? 0) * binding.direction) : 0;
+    }
+  }
+  
+  // Strongest of every binding on the action, in [0, 1]
+  private actionValue(action: ControlAction, pad: GamepadSnapshot | null): number {
+    let value = 0;
+    for (const binding of this.profile.bindings[action]) {
+      value = Math.max(value, this.bindingValue(binding, pad));
+    }
+    return Math.min(1, value);
+  }
+  
+  private axisValue(negative: AxisAction, positive: AxisAction, pad: GamepadSnapshot | null): number {
+    return this.actionValue(positive, pad) - this.actionValue(negative, pad);
+  }
+  
+  // Actions fire once on the press edge
+  private dispatchActions(pad: GamepadSnapshot | null): void {
+    for (const action of INPUT_ACTIONS) {
+      const pressed = this.actionValue(action, pad) > this.PRESS_THRESHOLD;
+      if (pressed && !this.heldActions.has(action)) {
+        this.heldActions.add(action);
+        if (this.onAction) {
+          this.onAction(action);
+        }
+      } else if (!pressed) {
+        this.heldActions.delete(action);
+      }
+    }
+    this.pendingGestures.clear();
+  }
+  
+  // Moves an axis toward its target, rate limited and then smoothed
+  private slewAxis(current: number, target: number, deltaTime: number): number {
+    const rate = Math.abs(target) > Math.abs(current) ? this.AXIS_ATTACK_RATE : this.AXIS_RELEASE_RATE;
+    const maxStep = rate * deltaTime;
+    const limited = current + Math.max(-maxStep, Math.min(maxStep, target - current));
+    const blend = 1 - Math.exp(-deltaTime / this.AXIS_SMOOTHING);
+    const next = current + (limited - current) * blend;
+    return Math.abs(next - target) < 1e-3 ? target : next;
+  }
+  
+  // Polled once per simulation step; held keys keep their axes deflected
+  sampleControls(deltaTime: number): ControlAxes {
+    // Nothing flies while the settings screen is listening for a new binding
+    const pad = this.captureCallback ? null : this.gamepad.poll();
+    this.dispatchActions(pad);
+    
+    // Positive pitch raises the nose, positive yaw and roll turn left
+    const pitchTarget = this.axisValue('pitch-down', 'pitch-up', pad);
+    const yawTarget = this.axisValue('yaw-right', 'yaw-left', pad);
+    const rollTarget = this.axisValue('roll-right', 'roll-left', pad);
+    const liftTarget = this.axisValue('lift-down', 'lift-up', pad);
+    
+    // Throttle is a lever: it stays where it was left unless a HOTAS lever sets it outright
+    const throttleInput = this.axisValue('throttle-down', 'throttle-up', pad);
+    const throttle = pad && pad.throttle !== null
+      ? pad.throttle
+      : this.controls.throttle + throttleInput * this.THROTTLE_RATE * deltaTime;
+    
+    this.controls = {
+      pitch: this.slewAxis(this.controls.pitch, pitchTarget, deltaTime),
+      yaw: this.slewAxis(this.controls.yaw, yawTarget, deltaTime),
+      roll: this.slewAxis(this.controls.roll, rollTarget, deltaTime),
+      throttle: Math.max(0, Math.min(1, throttle)),
+      lift: this.slewAxis(this.controls.lift, liftTarget, deltaTime)
+    };
+    
+    return { ...this.controls };
+  }
+  
+  getControls(): ControlAxes {
+    return { ...this.controls };
+  }
+  
+  resetControls(): void {
+    this.controls = { pitch: 0, yaw: 0, roll: 0, throttle: 0, lift: 0 };
+  }
+  
+  // Calls back with the next key, button, stick deflection or gesture; Escape cancels with null
+  captureNextBinding(callback: (binding: InputBinding | null) => void): void {
+    this.cancelCapture();
+    this.captureCallback = callback;
+    this.pressedKeys.clear();
+    this.pressedMouseButtons.clear();
+    // Axes resting off-centre (throttle levers) must move before they count
+    this.captureBaseline = this.gamepad.poll();
+    this.pollCaptureGamepad();
+  }
+  
+  cancelCapture(): void {
+    this.finishCapture(null);
+  }
+  
+  isCapturing(): boolean {
+    return this.captureCallback !== null;
+  }
+  
+  private finishCapture(binding: InputBinding | null): void {
+    const callback = this.captureCallback;
+    this.captureCallback = null;
+    this.captureBaseline = null;
+    this.captureTouchOrigin = null;
+    cancelAnimationFrame(this.captureFrame);
+    
+    if (callback) {
+      callback(binding);
+    }
+  }
+  
+  private pollCaptureGamepad(): void {
+    if (!this.captureCallback) return;
+    
+    const pad = this.gamepad.poll();
+    if (pad) {
+      const baseline = this.captureBaseline && this.captureBaseline.id === pad.id ? this.captureBaseline : null;
+      
+      const button = pad.buttons.findIndex((value, index) =>
+        value > this.PRESS_THRESHOLD && (!baseline || (baseline.buttons[index] ?? 0) <= this.PRESS_THRESHOLD)
+      );
+      if (button >= 0) {
+        this.finishCapture({ device: 'gamepad-button', button });
+        return;
+      }
+      
+      const axis = pad.axes.findIndex((value, index) =>
+        Math.abs(value) > this.CAPTURE_AXIS_THRESHOLD
+          && Math.abs(value - (baseline ? baseline.axes[index] ?? 0 : 0)) > this.CAPTURE_AXIS_THRESHOLD
+      );
+      if (axis >= 0) {
+        this.finishCapture({ device: 'gamepad-axis', axis, direction: pad.axes[axis] > 0 ? 1 : -1 });
+        return;
+      }
+    }
+    
+    this.captureFrame = requestAnimationFrame(() => this.pollCaptureGamepad());
+  }
+  
+  private handleCaptureKey(event: KeyboardEvent): void {
+    if (!this.captureCallback) return;
+    
+    event.preventDefault();
+    event.stopImmediatePropagation();
+    this.finishCapture(event.code === 'Escape' ? null : { device: 'keyboard', code: event.code });
+  }
+  
+  // The primary button stays free for the settings screen itself
+  private handleCaptureMouse(event: MouseEvent): void {
+    if (!this.captureCallback || event.button === 0) return;
+    
+    event.preventDefault();
+    event.stopImmediatePropagation();
+    this.finishCapture({ device: 'mouse', button: event.button });
+  }
+  
+  private handleCaptureTouchStart(event: TouchEvent): void {
+    if (!this.captureCallback) return;
+    
+    if (event.touches.length >= 2) {
+      event.preventDefault();
+      event.stopImmediatePropagation();
+      this.finishCapture({ device: 'touch', gesture: event.touches.length === 2 ? 'two-finger-tap' : 'three-finger-tap' });
+    } else {
+      this.captureTouchOrigin = { x: event.touches[0].clientX, y: event.touches[0].clientY };
+    }
+  }
+  
+  private handleCaptureTouchMove(event: TouchEvent): void {
+    if (!this.captureCallback || !this.captureTouchOrigin || event.touches.length !== 1) return;
+    
+    const dx = event.touches[0].clientX - this.captureTouchOrigin.x;
+    const dy = event.touches[0].clientY - this.captureTouchOrigin.y;
+    if (Math.max(Math.abs(dx), Math.abs(dy)) < this.CAPTURE_DRAG_DISTANCE) return;
+    
+    event.preventDefault();
+    event.stopImmediatePropagation();
+    const gesture: TouchGesture = Math.abs(dx) > Math.abs(dy)
+      ? (dx > 0 ? 'stick-right' : 'stick-left')
+      : (dy > 0 ? 'stick-down' : 'stick-up');
+    this.finishCapture({ device: 'touch', gesture });
+  }
+  
+  private isBound(code: string): boolean {
+    return Object.values(this.profile.bindings).some(list =>
+      list.some(binding => binding.device === 'keyboard' && binding.code === code)
+    );
+  }
+  
   private handleKeyDown(event: KeyboardEvent): void {
+    if (isTextEntry(event.target)) return;
+    
+    // Keep bound keys from scrolling the page or triggering browser shortcuts
+    if (this.isBound(event.code)) {
+      event.preventDefault();
+    }
+    
     if (!this.pressedKeys.has(event.code)) {
       this.pressedKeys.add(event.code);
       this.triggerKeyEvent(event.code, true);
@@ -142,21 +540,9 @@ export default class InputManager {
     }
   }
   
-  private triggerKeyEvent(key: string, pressed: boolean): void {
+  private triggerKeyEvent(code: string, pressed: boolean): void {
     if (this.onKey) {
-      // Convert key codes to readable format
-      const keyMap: { [key: string]: string } = {
-        'KeyW': 'w',
-        'KeyA': 'a',
-        'KeyS': 's',
-        'KeyD': 'd',
-        'Space': ' ',
-        'ShiftLeft': 'shift',
-        'ControlLeft': 'ctrl'
-      };
-      
-      const mappedKey = keyMap[key] || key.toLowerCase();
-      this.onKey(mappedKey, pressed);
+      this.onKey(code, pressed);
     }
   }
   
@@ -171,5 +557,14 @@ export default class InputManager {
     // Remove all event listeners
     this.activeTouches.clear();
     this.pressedKeys.clear();
+    this.pressedMouseButtons.clear();
+    this.pendingGestures.clear();
+    this.heldActions.clear();
+    this.cancelCapture();
+    this.touchStick = { x: 0, y: 0 };
+    this.lastPointer = null;
+    this.lastPinchDistance = null;
+    this.gamepad.reset();
+    this.resetControls();
   }
 }
\ No newline at end of file
@@ -0,0 +1,197 @@
+import { mat4 } from 'gl-matrix';
+
+// Attribute slots shared by every shader that draws meshes (layout(location = N))
+export const ATTRIBUTE_LOCATIONS = {
+  position: 0,
+  normal: 1,
+  texCoord: 2,
+  // Terrain only: surface height one LOD level coarser
+  morphHeight: 3,
+  // City only: per-building instance placement
+  instanceOrigin: 4,
+  instanceSize: 5
+};
+
+export type AlphaMode = 'OPAQUE' | 'MASK' | 'BLEND';
+
+export interface Material {
+  name: string;
+  // Key of the shader program that draws this material
+  shader: string;
+  baseColor: [number, number, number, number];
+  metallic: number;
+  roughness: number;
+  emissive: [number, number, number];
+  alphaMode: AlphaMode;
+  doubleSided: boolean;
+}
+
+// CPU-side geometry, ready to upload
+export interface MeshData {
+  positions: Float32Array;
+  normals: Float32Array | null;
+  texCoords: Float32Array | null;
+  indices: Uint16Array | Uint32Array | null;
+  mode: number;
+}
+
+export interface MeshPrimitive {
+  vao: WebGLVertexArrayObject;
+  buffers: WebGLBuffer[];
+  // Element count when indexed, vertex count otherwise
+  count: number;
+  indexType: number | null;
+  mode: number;
+  material: Material;
+}
+
+export interface Mesh {
+  name: string;
+  primitives: MeshPrimitive[];
+}
+
+export interface ModelNode {
+  name: string;
+  localMatrix: mat4;
+  mesh: Mesh | null;
+  children: ModelNode[];
+}
+
+export interface Model {
+  roots: ModelNode[];
+  meshes: Mesh[];
+}
+
+export const DEFAULT_MATERIAL: Material = {
+  name: 'default',
+  shader: 'standard',
+  baseColor: [0.1, 0.1, 0.15, 1],
+  metallic: 0.5,
+  roughness: 0.5,
+  emissive: [0, 0, 0],
+  alphaMode: 'OPAQUE',
+  doubleSided: false
+};
+
+// Smooth normals from triangle faces, for meshes exported without them
+export function computeNormals(positions: Float32Array, indices: Uint16Array | Uint32Array | null): Float32Array {
+  const normals = new Float32Array(positions.length);
+  const vertexCount = positions.length / 3;
+  const triangleCount = (indices ? indices.length : vertexCount) / 3;
+
+  for (let t = 0; t < triangleCount; t++) {
+    const a = indices ? indices[t * 3] : t * 3;
+    const b = indices ? indices[t * 3 + 1] : t * 3 + 1;
+    const c = indices ? indices[t * 3 + 2] : t * 3 + 2;
+
+    const abx = positions[b * 3] - positions[a * 3];
+    const aby = positions[b * 3 + 1] - positions[a * 3 + 1];
+    const abz = positions[b * 3 + 2] - positions[a * 3 + 2];
+    const acx = positions[c * 3] - positions[a * 3];
+    const acy = positions[c * 3 + 1] - positions[a * 3 + 1];
+    const acz = positions[c * 3 + 2] - positions[a * 3 + 2];
+
+    // Area-weighted face normal
+    const nx = aby * acz - abz * acy;
+    const ny = abz * acx - abx * acz;
+    const nz = abx * acy - aby * acx;
+
+    for (const vertex of [a, b, c]) {
+      normals[vertex * 3] += nx;
+      normals[vertex * 3 + 1] += ny;
+      normals[vertex * 3 + 2] += nz;
+    }
+  }
+
+  for (let v = 0; v < vertexCount; v++) {
+    const length = Math.hypot(normals[v * 3], normals[v * 3 + 1], normals[v * 3 + 2]) || 1;
+    normals[v * 3] /= length;
+    normals[v * 3 + 1] /= length;
+    normals[v * 3 + 2] /= length;
+  }
+
+  return normals;
+}
+
+function uploadAttribute(gl: WebGL2RenderingContext, location: number, data: Float32Array, size: number): WebGLBuffer {
+  const buffer = gl.createBuffer();
+  if (!buffer) {
+    throw new Error('Failed to create vertex buffer');
+  }
+
+  gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+  gl.bufferData(gl.ARRAY_BUFFER, data, gl.STATIC_DRAW);
+  gl.enableVertexAttribArray(location);
+  gl.vertexAttribPointer(location, size, gl.FLOAT, false, 0, 0);
+  return buffer;
+}
+
+export function createMeshPrimitive(gl: WebGL2RenderingContext, data: MeshData, material: Material = DEFAULT_MATERIAL): MeshPrimitive {
+  const vao = gl.createVertexArray();
+  if (!vao) {
+    throw new Error('Failed to create vertex array');
+  }
+
+  gl.bindVertexArray(vao);
+  const buffers: WebGLBuffer[] = [];
+
+  buffers.push(uploadAttribute(gl, ATTRIBUTE_LOCATIONS.position, data.positions, 3));
+  buffers.push(uploadAttribute(gl, ATTRIBUTE_LOCATIONS.normal, data.normals ?? computeNormals(data.positions, data.indices), 3));
+
+  if (data.texCoords) {
+    buffers.push(uploadAttribute(gl, ATTRIBUTE_LOCATIONS.texCoord, data.texCoords, 2));
+  } else {
+    // Disabled attributes read this constant instead
+    gl.disableVertexAttribArray(ATTRIBUTE_LOCATIONS.texCoord);
+    gl.vertexAttrib2f(ATTRIBUTE_LOCATIONS.texCoord, 0, 0);
+  }
+
+  let indexType: number | null = null;
+  if (data.indices) {
+    const indexBuffer = gl.createBuffer();
+    if (!indexBuffer) {
+      throw new Error('Failed to create index buffer');
+    }
+    // The element binding is VAO state, so it stays with the primitive
+    gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, indexBuffer);
+    gl.bufferData(gl.ELEMENT_ARRAY_BUFFER, data.indices, gl.STATIC_DRAW);
+    buffers.push(indexBuffer);
+    indexType = data.indices instanceof Uint32Array ? gl.UNSIGNED_INT : gl.UNSIGNED_SHORT;
+  }
+
+  gl.bindVertexArray(null);
+
+  return {
+    vao,
+    buffers,
+    count: data.indices ? data.indices.length : data.positions.length / 3,
+    indexType,
+    mode: data.mode,
+    material
+  };
+}
+
+export function drawMeshPrimitive(gl: WebGL2RenderingContext, primitive: MeshPrimitive): void {
+  gl.bindVertexArray(primitive.vao);
+  if (primitive.indexType !== null) {
+    gl.drawElements(primitive.mode, primitive.count, primitive.indexType, 0);
+  } else {
+    gl.drawArrays(primitive.mode, 0, primitive.count);
+  }
+  gl.bindVertexArray(null);
+}
+
+export function deleteMeshPrimitive(gl: WebGL2RenderingContext, primitive: MeshPrimitive): void {
+  gl.deleteVertexArray(primitive.vao);
+  for (const buffer of primitive.buffers) {
+    gl.deleteBuffer(buffer);
+  }
+}
+
+export function deleteModel(gl: WebGL2RenderingContext, model: Model): void {
+  for (const mesh of model.meshes) {
+    for (const primitive of mesh.primitives) {
+      deleteMeshPrimitive(gl, primitive);
+    }
+  }
+}
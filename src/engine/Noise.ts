@@ -0,0 +1,53 @@
+// Deterministic noise, identical on the main thread and in workers
+
+// Integer lattice hash in [0, 1)
+export function hash2D(ix: number, iz: number, seed = 0): number {
+  let h = Math.imul(ix, 374761393) + Math.imul(iz, 668265263) + Math.imul(seed, 2246822519);
+  h = Math.imul(h ^ (h >>> 13), 1274126177);
+  h ^= h >>> 16;
+  return (h >>> 0) / 4294967296;
+}
+
+function fade(t: number): number {
+  return t * t * t * (t * (t * 6 - 15) + 10);
+}
+
+function gradient(ix: number, iz: number, seed: number, dx: number, dz: number): number {
+  const angle = hash2D(ix, iz, seed) * Math.PI * 2;
+  return Math.cos(angle) * dx + Math.sin(angle) * dz;
+}
+
+// Gradient noise, roughly in [-1, 1]
+export function noise2D(x: number, z: number, seed = 0): number {
+  const ix = Math.floor(x);
+  const iz = Math.floor(z);
+  const fx = x - ix;
+  const fz = z - iz;
+
+  const n00 = gradient(ix, iz, seed, fx, fz);
+  const n10 = gradient(ix + 1, iz, seed, fx - 1, fz);
+  const n01 = gradient(ix, iz + 1, seed, fx, fz - 1);
+  const n11 = gradient(ix + 1, iz + 1, seed, fx - 1, fz - 1);
+
+  const u = fade(fx);
+  const v = fade(fz);
+  const nx0 = n00 + (n10 - n00) * u;
+  const nx1 = n01 + (n11 - n01) * u;
+  // Unit gradients peak at sqrt(0.5)
+  return (nx0 + (nx1 - nx0) * v) * Math.SQRT2;
+}
+
+// Fractal sum of octaves, normalised back to roughly [-1, 1]
+export function fbm(x: number, z: number, octaves: number, seed = 0, lacunarity = 2, gain = 0.5): number {
+  let sum = 0;
+  let amplitude = 1;
+  let frequency = 1;
+  let total = 0;
+  for (let octave = 0; octave < octaves; octave++) {
+    sum += noise2D(x * frequency, z * frequency, seed + octave) * amplitude;
+    total += amplitude;
+    amplitude *= gain;
+    frequency *= lacunarity;
+  }
+  return sum / total;
+}
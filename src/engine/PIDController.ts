@@ -0,0 +1,37 @@
+export interface PIDGains {
+  kp: number;
+  ki: number;
+  kd: number;
+  integralLimit: number;
+  outputLimit: number;
+}
+
+export default class PIDController {
+  private gains: PIDGains;
+  private integral = 0;
+  private previousError: number | null = null;
+
+  constructor(gains: PIDGains) {
+    this.gains = gains;
+  }
+
+  update(error: number, deltaTime: number): number {
+    const { kp, ki, kd, integralLimit, outputLimit } = this.gains;
+
+    // Clamped integral keeps windup bounded while saturated
+    this.integral = Math.max(-integralLimit, Math.min(integralLimit, this.integral + error * deltaTime));
+
+    const derivative = this.previousError === null || deltaTime <= 0
+      ? 0
+      : (error - this.previousError) / deltaTime;
+    this.previousError = error;
+
+    const output = kp * error + ki * this.integral + kd * derivative;
+    return Math.max(-outputLimit, Math.min(outputLimit, output));
+  }
+
+  reset(): void {
+    this.integral = 0;
+    this.previousError = null;
+  }
+}
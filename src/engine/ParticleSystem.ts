@@ -0,0 +1,285 @@
+import { mat4, vec3, vec4 } from 'gl-matrix';
+import { QualityLevel } from '../types/GameTypes';
+import ShaderLibrary, { ShaderProgram } from './ShaderLibrary';
+import { SceneNode } from './SceneGraph';
+
+type Uniforms = { [key: string]: WebGLUniformLocation | null };
+
+// Share of each emitter's capacity allocated at every quality level
+export const PARTICLE_BUDGETS: { [level in QualityLevel]: number } = {
+  low: 0.25,
+  medium: 0.5,
+  high: 0.75,
+  ultra: 1
+};
+
+export type EmitterShape = 'cone' | 'ring' | 'shell';
+
+export interface EmitterParameters {
+  shape: EmitterShape; // cone jets along `direction`; ring blows out across the ground below; shell bursts outward
+  capacity: number; // particles alive at once, at full budget
+  rate: number; // particles per second
+  offset: vec3; // node-local spawn point
+  direction: vec3; // node-local cone axis
+  spread: number; // cone half-angle, rad; upward share of ring velocity
+  radius: number; // spawn jitter, ring or shell radius, m
+  speed: [number, number]; // m/s
+  life: [number, number]; // s
+  size: [number, number]; // billboard radius at birth and death, m
+  colorStart: vec4;
+  colorEnd: vec4;
+  emissive: boolean; // glows and adds light instead of being lit
+  stretch: number; // seconds of motion each billboard streaks over
+  gravity: number; // share of the environment's gravity
+  drag: number; // 1/s in sea-level air; nothing slows particles in vacuum
+  inheritVelocity: number; // share of the node's velocity particles start with
+  bounce: number; // vertical speed kept on hitting the ground
+}
+
+interface ParticlePool {
+  capacity: number;
+  buffers: (WebGLBuffer | null)[];
+  updateVaos: (WebGLVertexArrayObject | null)[]; // read the matching buffer as vertices
+  drawVaos: (WebGLVertexArrayObject | null)[]; // read it as instances
+  current: number; // buffer holding the latest state
+  cursor: number; // next slot to spawn into
+  carry: number; // fractional particles owed from earlier frames
+  position: vec3; // node position last frame
+  velocity: vec3;
+  tracking: boolean; // position is from a previous frame
+}
+
+// Follows a scene node; its parameters can change every frame
+export class ParticleEmitter {
+  readonly node: SceneNode;
+  readonly params: EmitterParameters;
+  enabled = true;
+
+  constructor(node: SceneNode, params: EmitterParameters) {
+    this.node = node;
+    this.params = params;
+  }
+}
+
+const UPDATE_SHADER = 'particle-update';
+const SHAPE_DEFINES: { [shape in EmitterShape]: string[] } = {
+  cone: [],
+  ring: ['SPAWN_RING'],
+  shell: ['SPAWN_SHELL']
+};
+
+// Two vec4s per particle: position and age, velocity and lifetime
+const PARTICLE_FLOATS = 8;
+const PARTICLE_STRIDE = PARTICLE_FLOATS * 4;
+
+// Simulated on the GPU with transform feedback, ping-ponging between two buffers per emitter,
+// and drawn as instanced billboards straight from the latest buffer.
+// Spawning walks a ring of slots, reviving only particles that have died.
+export default class ParticleSystem {
+  private gl: WebGL2RenderingContext;
+  private shaders: ShaderLibrary;
+  private pools: Map<ParticleEmitter, ParticlePool> = new Map();
+  private transformFeedback: WebGLTransformFeedback | null;
+  private budget = PARTICLE_BUDGETS.ultra;
+  private frame = 0;
+
+  // Environment the particles fly through
+  private gravity = vec3.fromValues(0, -9.81, 0);
+  private airDensity = 1; // relative to Earth at sea level
+  private heightAt: (x: number, z: number) => number = () => 0;
+
+  constructor(gl: WebGL2RenderingContext, shaders: ShaderLibrary) {
+    this.gl = gl;
+    this.shaders = shaders;
+    this.transformFeedback = gl.createTransformFeedback();
+
+    shaders.register(UPDATE_SHADER, {
+      vertex: 'particle-update.vert',
+      fragment: 'particle-update.frag',
+      uniforms: [
+        'uDeltaTime', 'uSeed', 'uCapacity', 'uSpawnStart', 'uSpawnCount', 'uEmitterMatrix', 'uEmitterVelocity',
+        'uOffset', 'uDirection', 'uSpread', 'uRadius', 'uSpeedRange', 'uLifeRange', 'uInheritVelocity',
+        'uGravity', 'uDrag', 'uGroundHeight', 'uBounce'
+      ],
+      feedback: ['vPositionAge', 'vVelocityLife']
+    });
+  }
+
+  addEmitter(node: SceneNode, params: EmitterParameters): ParticleEmitter {
+    const emitter = new ParticleEmitter(node, params);
+    this.pools.set(emitter, this.createPool(this.scaledCapacity(params.capacity)));
+    return emitter;
+  }
+
+  removeEmitter(emitter: ParticleEmitter): void {
+    const pool = this.pools.get(emitter);
+    if (!pool) return;
+    this.deletePool(pool);
+    this.pools.delete(emitter);
+  }
+
+  // Reallocates every pool, dropping live particles
+  setBudget(budget: number): void {
+    if (budget === this.budget) return;
+    this.budget = budget;
+    for (const [emitter, pool] of this.pools) {
+      this.deletePool(pool);
+      this.pools.set(emitter, this.createPool(this.scaledCapacity(emitter.params.capacity)));
+    }
+  }
+
+  setEnvironment(gravity: number, airDensity: number, heightAt: (x: number, z: number) => number): void {
+    vec3.set(this.gravity, 0, -gravity, 0);
+    this.airDensity = airDensity;
+    this.heightAt = heightAt;
+  }
+
+  // Advance every emitter's particles; node world matrices must be current
+  update(deltaTime: number): void {
+    if (this.pools.size === 0 || deltaTime <= 0) return;
+    const gl = this.gl;
+    this.frame++;
+
+    gl.enable(gl.RASTERIZER_DISCARD);
+    gl.bindTransformFeedback(gl.TRANSFORM_FEEDBACK, this.transformFeedback);
+
+    for (const [emitter, pool] of this.pools) {
+      const { params, node } = emitter;
+
+      // Node velocity from how far it moved, for spawning along its path and for inherited speed
+      const position = mat4.getTranslation(vec3.create(), node.worldMatrix);
+      if (pool.tracking) {
+        vec3.scale(pool.velocity, vec3.subtract(pool.velocity, position, pool.position), 1 / deltaTime);
+      }
+      vec3.copy(pool.position, position);
+      pool.tracking = true;
+
+      const program = this.shaders.findProgram(UPDATE_SHADER, SHAPE_DEFINES[params.shape]);
+      if (!program) continue;
+
+      pool.carry += emitter.enabled ? params.rate * deltaTime : 0;
+      const spawnCount = Math.min(Math.floor(pool.carry), pool.capacity);
+      pool.carry -= Math.floor(pool.carry);
+
+      this.simulate(program, emitter, pool, spawnCount, deltaTime);
+      pool.cursor = (pool.cursor + spawnCount) % pool.capacity;
+      pool.current = 1 - pool.current;
+    }
+
+    gl.bindTransformFeedback(gl.TRANSFORM_FEEDBACK, null);
+    gl.disable(gl.RASTERIZER_DISCARD);
+  }
+
+  // The particle program must already be bound, with premultiplied blending and depth writes off
+  draw(uniforms: Uniforms): void {
+    const gl = this.gl;
+    for (const [{ params }, pool] of this.pools) {
+      gl.uniform2fv(uniforms.uParticleSize, params.size);
+      gl.uniform4fv(uniforms.uColorStart, params.colorStart);
+      gl.uniform4fv(uniforms.uColorEnd, params.colorEnd);
+      gl.uniform1f(uniforms.uStretch, params.stretch);
+      gl.uniform1f(uniforms.uParticleEmissive, params.emissive ? 1 : 0);
+      gl.bindVertexArray(pool.drawVaos[pool.current]);
+      gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, pool.capacity);
+    }
+    gl.bindVertexArray(null);
+  }
+
+  hasEmitters(): boolean {
+    return this.pools.size > 0;
+  }
+
+  cleanup(): void {
+    this.pools.forEach(pool => this.deletePool(pool));
+    this.pools.clear();
+    this.gl.deleteTransformFeedback(this.transformFeedback);
+    this.transformFeedback = null;
+  }
+
+  private simulate(program: ShaderProgram, emitter: ParticleEmitter, pool: ParticlePool, spawnCount: number, deltaTime: number): void {
+    const gl = this.gl;
+    const { params } = emitter;
+    const { uniforms } = program;
+
+    gl.useProgram(program.program);
+    gl.uniform1f(uniforms.uDeltaTime, deltaTime);
+    gl.uniform1ui(uniforms.uSeed, this.frame);
+    gl.uniform1i(uniforms.uCapacity, pool.capacity);
+    gl.uniform1i(uniforms.uSpawnStart, pool.cursor);
+    gl.uniform1i(uniforms.uSpawnCount, spawnCount);
+    gl.uniformMatrix4fv(uniforms.uEmitterMatrix, false, emitter.node.worldMatrix);
+    gl.uniform3fv(uniforms.uEmitterVelocity, pool.velocity);
+    gl.uniform3fv(uniforms.uOffset, params.offset);
+    gl.uniform3fv(uniforms.uDirection, params.direction);
+    gl.uniform1f(uniforms.uSpread, params.spread);
+    gl.uniform1f(uniforms.uRadius, params.radius);
+    gl.uniform2fv(uniforms.uSpeedRange, params.speed);
+    gl.uniform2fv(uniforms.uLifeRange, params.life);
+    gl.uniform1f(uniforms.uInheritVelocity, params.inheritVelocity);
+    gl.uniform3fv(uniforms.uGravity, vec3.scale(vec3.create(), this.gravity, params.gravity));
+    gl.uniform1f(uniforms.uDrag, params.drag * this.airDensity);
+    gl.uniform1f(uniforms.uGroundHeight, this.heightAt(pool.position[0], pool.position[2]));
+    gl.uniform1f(uniforms.uBounce, params.bounce);
+
+    gl.bindVertexArray(pool.updateVaos[pool.current]);
+    gl.bindBufferBase(gl.TRANSFORM_FEEDBACK_BUFFER, 0, pool.buffers[1 - pool.current]);
+    gl.beginTransformFeedback(gl.POINTS);
+    gl.drawArrays(gl.POINTS, 0, pool.capacity);
+    gl.endTransformFeedback();
+    gl.bindBufferBase(gl.TRANSFORM_FEEDBACK_BUFFER, 0, null);
+    gl.bindVertexArray(null);
+  }
+
+  private scaledCapacity(capacity: number): number {
+    return Math.max(1, Math.round(capacity * this.budget));
+  }
+
+  // Every particle starts dead: zero age against zero lifetime
+  private createPool(capacity: number): ParticlePool {
+    const gl = this.gl;
+    const pool: ParticlePool = {
+      capacity,
+      buffers: [],
+      updateVaos: [],
+      drawVaos: [],
+      current: 0,
+      cursor: 0,
+      carry: 0,
+      position: vec3.create(),
+      velocity: vec3.create(),
+      tracking: false
+    };
+    const initial = new Float32Array(capacity * PARTICLE_FLOATS);
+
+    for (let i = 0; i < 2; i++) {
+      const buffer = gl.createBuffer();
+      gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+      gl.bufferData(gl.ARRAY_BUFFER, initial, gl.DYNAMIC_COPY);
+      pool.buffers.push(buffer);
+      pool.updateVaos.push(this.createVao(buffer, 0));
+      pool.drawVaos.push(this.createVao(buffer, 1));
+    }
+    gl.bindBuffer(gl.ARRAY_BUFFER, null);
+    return pool;
+  }
+
+  private createVao(buffer: WebGLBuffer | null, divisor: number): WebGLVertexArrayObject | null {
+    const gl = this.gl;
+    const vao = gl.createVertexArray();
+    gl.bindVertexArray(vao);
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    for (let location = 0; location < 2; location++) {
+      gl.enableVertexAttribArray(location);
+      gl.vertexAttribPointer(location, 4, gl.FLOAT, false, PARTICLE_STRIDE, location * 16);
+      gl.vertexAttribDivisor(location, divisor);
+    }
+    gl.bindVertexArray(null);
+    return vao;
+  }
+
+  private deletePool(pool: ParticlePool): void {
+    pool.updateVaos.forEach(vao => this.gl.deleteVertexArray(vao));
+    pool.drawVaos.forEach(vao => this.gl.deleteVertexArray(vao));
+    pool.buffers.forEach(buffer => this.gl.deleteBuffer(buffer));
+  }
+}
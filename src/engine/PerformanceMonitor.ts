@@ -0,0 +1,81 @@
+import { CpuTimingCategory, PerformanceSample } from '../types/GameTypes';
+
+export const CPU_TIMING_CATEGORIES: CpuTimingCategory[] = ['input', 'physics', 'audio', 'render'];
+
+type FrameCounters = Omit<PerformanceSample, 'frameTime' | 'cpuTime' | 'cpu'>;
+
+const emptyTimings = (): Record<CpuTimingCategory, number> => ({ input: 0, physics: 0, audio: 0, render: 0 });
+
+// Records what each frame cost while enabled: CPU time by subsystem from begin/end pairs around the work,
+// plus the renderer's and audio engine's counters. The last HISTORY_LENGTH frames are kept for graphs and export.
+export default class PerformanceMonitor {
+  private enabled = false;
+  private history: PerformanceSample[] = [];
+  private next = 0; // where the next sample goes once the history is full
+
+  private frameStart = 0;
+  private frameTime = 0;
+  private timings = emptyTimings();
+  private started = emptyTimings(); // performance.now() at each open begin
+
+  private readonly HISTORY_LENGTH = 600; // frames, ten seconds at 60 fps
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  // History is kept across toggles, so a capture can still be exported after closing the overlay
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+  }
+
+  beginFrame(frameTime: number): void {
+    if (!this.enabled) return;
+    this.frameStart = performance.now();
+    this.frameTime = frameTime;
+    this.timings = emptyTimings();
+  }
+
+  begin(category: CpuTimingCategory): void {
+    if (!this.enabled) return;
+    this.started[category] = performance.now();
+  }
+
+  // Adds to the category, which may be timed several times a frame
+  end(category: CpuTimingCategory): void {
+    if (!this.enabled) return;
+    this.timings[category] += performance.now() - this.started[category];
+  }
+
+  endFrame(counters: FrameCounters): void {
+    if (!this.enabled) return;
+    const sample: PerformanceSample = {
+      frameTime: this.frameTime,
+      cpuTime: performance.now() - this.frameStart,
+      cpu: this.timings,
+      ...counters
+    };
+
+    if (this.history.length < this.HISTORY_LENGTH) {
+      this.history.push(sample);
+    } else {
+      this.history[this.next] = sample;
+      this.next = (this.next + 1) % this.HISTORY_LENGTH;
+    }
+  }
+
+  // Oldest first
+  getHistory(): PerformanceSample[] {
+    return [...this.history.slice(this.next), ...this.history.slice(0, this.next)];
+  }
+
+  getLatest(): PerformanceSample | null {
+    if (this.history.length === 0) return null;
+    return this.history[(this.next + this.history.length - 1) % this.history.length];
+  }
+
+  clear(): void {
+    this.history = [];
+    this.next = 0;
+  }
+}
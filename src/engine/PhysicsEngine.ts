@@ -1,134 +1,386 @@
-import { vec3, quat } from 'gl-matrix';
-import { Transform, Vector3 } from '../types/GameTypes';
-
-interface ControlInput {
-  pitch?: number;
-  yaw?: number;
-  roll?: number;
-  thrust?: number;
-}
+import { vec3 } from 'gl-matrix';
+import {
+  ControlInput,
+  CraftProfile,
+  EnvironmentDescriptor,
+  EnvironmentPhysicsProfile,
+  FlightState,
+  FlightTelemetry,
+  GameEvent,
+  PowerConsumer,
+  PowerState,
+  SystemState,
+  ThermalState,
+  ThermalStatus,
+  Transform,
+  Vector3
+} from '../types/GameTypes';
+import RigidBody from './RigidBody';
+import ThermalSystem from './ThermalSystem';
+import PowerSystem from './PowerSystem';
+import CollisionWorld from './CollisionWorld';
+import { FLAT_TERRAIN, createTerrain } from './Terrain';
+import { createCity, getCollisionBoxes } from './CityGenerator';
+import { EARTH_PROFILE, getAirDensity, getWindVelocity } from './EnvironmentProfiles';
+import { MANTA_PROFILE } from './CraftProfiles';
+import {
+  AerodynamicForce,
+  AntiGravityLiftForce,
+  ControlTorqueForce,
+  ForceContext,
+  ForceGenerator,
+  GravityForce,
+  GyroDampingTorque,
+  PlasmaThrustForce
+} from './ForceGenerators';
 
 export default class PhysicsEngine {
-  private velocity: Vector3 = { x: 0, y: 0, z: 0 };
-  private angularVelocity: Vector3 = { x: 0, y: 0, z: 0 };
+  private craftProfile: CraftProfile = MANTA_PROFILE;
+  private body: RigidBody;
+  private forceGenerators: ForceGenerator[];
   private lastControlInput: ControlInput = {};
-  
-  // Anti-gravity constants
-  private readonly PLASMA_EFFICIENCY = 0.85;
-  private readonly MAGNETIC_FLUX_CONSTANT = 432.7; // THz resonance
-  private readonly GRAVITY_CONSTANT = 9.81;
-  
-  update(deltaTime: number, systemStates: any, transform: Transform): void {
-    // Apply anti-gravity propulsion physics
-    this.updatePropulsion(deltaTime, systemStates.propulsion, transform);
-    
+  private simulationTime = 0;
+  private thermal = new ThermalSystem();
+  private power: PowerSystem;
+  private collisionWorld: CollisionWorld;
+  private environment: EnvironmentPhysicsProfile = EARTH_PROFILE;
+  private flightState: FlightState = 'airborne';
+  private airborneTime = 0;
+
+  private readonly CLOAK_MASS_REDUCTION = 0.3;
+
+  // Ground contact thresholds
+  private readonly RESTING_SPEED = 0.5; // below this impacts do not bounce, m/s
+  private readonly LANDED_SPEED = 0.5; // m/s
+  private readonly LANDED_ANGULAR_SPEED = 0.2; // rad/s
+  private readonly LIFTOFF_DELAY = 0.25; // s without contact before leaving the landed state
+  private readonly MAX_LANDING_TILT = 0.5; // cosine of the steepest survivable attitude
+
+  // Scratch vectors for contact resolution
+  private contactOffset = vec3.create();
+  private contactNormal = vec3.create();
+  private contactVelocity = vec3.create();
+  private contactTangent = vec3.create();
+  private contactImpulse = vec3.create();
+  private pushDirection = vec3.create();
+  private attitudeAxis = vec3.create();
+
+  public onEvent: ((event: GameEvent) => void) | null = null;
+
+  constructor() {
+    this.thermal.onStatusChange = (status, previous) => this.handleThermalStatus(status, previous);
+    this.power = new PowerSystem(this.craftProfile.reactorOutput);
+    this.power.onBrownoutChange = (brownout) => this.handleBrownout(brownout);
+    this.power.onCloakCollapse = () => this.emitEvent({ type: 'cloak-collapse', message: 'Cloak field collapsed - insufficient power' });
+    this.body = new RigidBody(this.craftProfile.mass, this.craftProfile.inertia);
+    const terrain = createTerrain(FLAT_TERRAIN);
+    this.collisionWorld = new CollisionWorld(terrain.heightField, terrain.surface);
+    this.forceGenerators = [
+      new GravityForce(),
+      new AntiGravityLiftForce(),
+      new PlasmaThrustForce(),
+      new ControlTorqueForce(),
+      new AerodynamicForce(),
+      new GyroDampingTorque()
+    ];
+  }
+
+  update(deltaTime: number, systemStates: SystemState, transform: Transform): void {
+    // A wrecked craft stays where it came down until the mission restarts
+    if (this.flightState === 'crashed') return;
+
+    this.simulationTime += deltaTime;
+
+    // Pick up any external changes to the craft transform (mission resets, teleports)
+    this.syncBodyFromTransform(transform);
+
+    // Share reactor output between propulsion, cloaking and sensors
+    this.power.update(deltaTime, systemStates, this.lastControlInput.thrust ?? 0);
+
     // Apply cloaking effects on mass
-    this.updateCloakingPhysics(systemStates.cloaking, transform);
-    
-    // Integrate velocity
-    transform.position.x += this.velocity.x * deltaTime;
-    transform.position.y += this.velocity.y * deltaTime;
-    transform.position.z += this.velocity.z * deltaTime;
-    
-    // Integrate angular velocity
-    const rotationQuat = quat.create();
-    quat.set(rotationQuat, transform.rotation.x, transform.rotation.y, transform.rotation.z, transform.rotation.w);
-    
-    const angularQuatStep = quat.create();
-    quat.fromEuler(angularQuatStep, 
-      this.angularVelocity.x * deltaTime * 57.2958, // Convert to degrees
-      this.angularVelocity.y * deltaTime * 57.2958,
-      this.angularVelocity.z * deltaTime * 57.2958
-    );
-    
-    quat.multiply(rotationQuat, rotationQuat, angularQuatStep);
-    quat.normalize(rotationQuat, rotationQuat);
-    
-    transform.rotation.x = rotationQuat[0];
-    transform.rotation.y = rotationQuat[1];
-    transform.rotation.z = rotationQuat[2];
-    transform.rotation.w = rotationQuat[3];
-    
-    // Apply damping
-    this.velocity.x *= 0.98;
-    this.velocity.y *= 0.98;
-    this.velocity.z *= 0.98;
-    
-    this.angularVelocity.x *= 0.95;
-    this.angularVelocity.y *= 0.95;
-    this.angularVelocity.z *= 0.95;
-  }
-  
-  private updatePropulsion(deltaTime: number, propulsion: any, transform: Transform): void {
-    // Calculate plasma ring efficiency
-    const plasmaEfficiency = propulsion.plasmaRate * this.PLASMA_EFFICIENCY;
-    const coilResonance = Math.sin(Date.now() * 0.001 * this.MAGNETIC_FLUX_CONSTANT) * 0.1 + 0.9;
-    const antiGravityForce = propulsion.antiGravity * coilResonance;
-    
-    // Apply anti-gravity lift
-    const gravitationalForce = -this.GRAVITY_CONSTANT * (1.0 - antiGravityForce);
-    this.velocity.y += gravitationalForce * deltaTime;
-    
-    // Apply directional thrust from control input
-    if (this.lastControlInput.thrust) {
-      const thrustMagnitude = this.lastControlInput.thrust * plasmaEfficiency * 50.0;
-      
-      // Convert craft orientation to thrust direction
-      const forward = this.getForwardVector(transform);
-      this.velocity.x += forward.x * thrustMagnitude * deltaTime;
-      this.velocity.y += forward.y * thrustMagnitude * deltaTime;
-      this.velocity.z += forward.z * thrustMagnitude * deltaTime;
+    this.updateCloakingPhysics(systemStates.cloaking);
+
+    const airDensity = getAirDensity(this.environment, this.body.position[1]);
+
+    // Heat from plasma circulation and cloaking, shed through the radiators
+    this.thermal.update(deltaTime, systemStates, {
+      throttle: this.lastControlInput.thrust ?? 0,
+      speed: this.getSpeed(),
+      airDensity,
+      ambientTemp: this.environment.ambientTemp
+    });
+
+    // Accumulate forces and torques from every generator
+    const context: ForceContext = {
+      systems: systemStates,
+      control: this.lastControlInput,
+      profile: this.craftProfile,
+      gravity: this.environment.gravity,
+      airDensity,
+      wind: getWindVelocity(this.environment, this.simulationTime),
+      time: this.simulationTime,
+      thrustLimit: this.thermal.getState().thrustLimit,
+      propulsionPower: this.power.getSupplyRatio('propulsion')
+    };
+    this.forceGenerators.forEach(generator => generator.apply(this.body, context, deltaTime));
+
+    this.body.integrate(deltaTime);
+    this.resolveGroundContacts(deltaTime);
+    this.syncTransformFromBody(transform);
+  }
+
+  setEnvironmentProfile(profile: EnvironmentPhysicsProfile): void {
+    this.environment = profile;
+  }
+
+  getEnvironmentProfile(): EnvironmentPhysicsProfile {
+    return this.environment;
+  }
+
+  // Gravity, atmosphere and ground all come from the environment descriptor
+  loadEnvironment(environment: EnvironmentDescriptor): void {
+    this.setEnvironmentProfile(environment.physics);
+    const terrain = createTerrain(environment.terrain);
+    this.collisionWorld.setHeightField(terrain.heightField, terrain.surface);
+    const city = createCity(environment);
+    this.collisionWorld.setBoxes(city ? getCollisionBoxes(city) : []);
+  }
+
+  private resolveGroundContacts(deltaTime: number): void {
+    const surface = this.collisionWorld.getSurface();
+    let contacts = 0;
+    let impactSpeed = 0;
+    let deepestPenetration = 0;
+    vec3.set(this.pushDirection, 0, 1, 0);
+
+    this.craftProfile.landingPoints.forEach(landingPoint => {
+      vec3.set(this.contactOffset, landingPoint.x, landingPoint.y, landingPoint.z);
+      this.body.localToWorld(this.contactOffset, this.contactOffset);
+
+      const contact = this.collisionWorld.queryPoint({
+        x: this.body.position[0] + this.contactOffset[0],
+        y: this.body.position[1] + this.contactOffset[1],
+        z: this.body.position[2] + this.contactOffset[2]
+      });
+      if (!contact) return;
+
+      contacts++;
+      vec3.set(this.contactNormal, contact.normal.x, contact.normal.y, contact.normal.z);
+      if (contact.penetration > deepestPenetration) {
+        deepestPenetration = contact.penetration;
+        vec3.copy(this.pushDirection, this.contactNormal);
+      }
+
+      // Normal impulse with restitution, only while the pad is moving into the ground
+      this.body.getPointVelocity(this.contactVelocity, this.contactOffset);
+      const normalSpeed = vec3.dot(this.contactVelocity, this.contactNormal);
+      if (normalSpeed >= 0) return;
+
+      impactSpeed = Math.max(impactSpeed, -normalSpeed);
+      const restitution = -normalSpeed > this.RESTING_SPEED ? surface.restitution : 0;
+      const normalImpulse = -(1 + restitution) * normalSpeed / this.body.getInverseMassAt(this.contactOffset, this.contactNormal);
+      vec3.scale(this.contactImpulse, this.contactNormal, normalImpulse);
+      this.body.applyImpulse(this.contactImpulse, this.contactOffset);
+
+      // Coulomb friction against the remaining sliding velocity
+      this.body.getPointVelocity(this.contactVelocity, this.contactOffset);
+      const remainingNormal = vec3.dot(this.contactVelocity, this.contactNormal);
+      vec3.scaleAndAdd(this.contactTangent, this.contactVelocity, this.contactNormal, -remainingNormal);
+      const slideSpeed = vec3.length(this.contactTangent);
+      if (slideSpeed < 1e-4) return;
+
+      vec3.scale(this.contactTangent, this.contactTangent, 1 / slideSpeed);
+      const stoppingImpulse = slideSpeed / this.body.getInverseMassAt(this.contactOffset, this.contactTangent);
+      const frictionImpulse = Math.min(stoppingImpulse, surface.friction * normalImpulse);
+      vec3.scale(this.contactImpulse, this.contactTangent, -frictionImpulse);
+      this.body.applyImpulse(this.contactImpulse, this.contactOffset);
+    });
+
+    // The craft's centre below ground means the hull hit first
+    const hullStrike = this.collisionWorld.getAltitudeAboveGround({
+      x: this.body.position[0],
+      y: this.body.position[1],
+      z: this.body.position[2]
+    }) < 0;
+
+    // Push the craft back out along the deepest contact's normal, off roofs and walls alike
+    if (deepestPenetration > 0) {
+      vec3.scaleAndAdd(this.body.position, this.body.position, this.pushDirection, deepestPenetration);
     }
-    
-    // Heat generation from plasma circulation
-    const heatGeneration = propulsion.plasmaRate * propulsion.coilTemp * deltaTime;
-    // This would affect cloaking integrity in a real implementation
-  }
-  
-  private updateCloakingPhysics(cloaking: any, transform: Transform): void {
-    if (cloaking.active) {
-      // Cloaking affects mass distribution
-      const cloakingMassReduction = cloaking.integrity * 0.3;
-      // This would modify inertia and handling characteristics
-      
-      // Cloaking power consumption affects available thrust
-      const powerDrain = 0.1 * (1.0 - cloaking.integrity);
-      // Reduce available propulsion power when cloaking
+
+    this.updateFlightState(deltaTime, contacts, impactSpeed, hullStrike);
+  }
+
+  private updateFlightState(deltaTime: number, contacts: number, impactSpeed: number, hullStrike: boolean): void {
+    const up = this.body.localToWorld(this.contactNormal, vec3.set(this.contactNormal, 0, 1, 0));
+    const tooSteep = up[1] < this.MAX_LANDING_TILT;
+
+    if (hullStrike || impactSpeed > this.craftProfile.crashSpeed || (contacts > 0 && tooSteep && impactSpeed > this.RESTING_SPEED)) {
+      this.flightState = 'crashed';
+      this.body.reset();
+      this.emitEvent({ type: 'crash', message: `Impact at ${impactSpeed.toFixed(1)} m/s - airframe lost` });
+      return;
+    }
+
+    if (contacts > 0) {
+      this.airborneTime = 0;
+      const settled = contacts === this.craftProfile.landingPoints.length
+        && this.getSpeed() < this.LANDED_SPEED
+        && vec3.length(this.body.angularVelocity) < this.LANDED_ANGULAR_SPEED;
+
+      if (this.flightState === 'airborne' && settled) {
+        this.flightState = 'landed';
+        this.emitEvent({ type: 'touchdown', message: 'Touchdown - craft landed' });
+      }
+    } else if (this.flightState === 'landed') {
+      this.airborneTime += deltaTime;
+      if (this.airborneTime > this.LIFTOFF_DELAY) {
+        this.flightState = 'airborne';
+        this.emitEvent({ type: 'liftoff', message: 'Liftoff' });
+      }
     }
   }
-  
-  applyControlInput(input: ControlInput): void {
-    this.lastControlInput = { ...this.lastControlInput, ...input };
-    
-    // Apply rotational forces
-    if (input.pitch !== undefined) {
-      this.angularVelocity.x += input.pitch;
+
+  private updateCloakingPhysics(cloaking: SystemState['cloaking']): void {
+    // A powered cloak field lightens the craft's effective inertial mass
+    const massReduction = cloaking.active
+      ? cloaking.integrity * this.CLOAK_MASS_REDUCTION * this.power.getSupplyRatio('cloaking')
+      : 0;
+    const massScale = 1 - massReduction;
+    const { mass, inertia } = this.craftProfile;
+
+    this.body.setMass(mass * massScale);
+    this.body.setInertia({ x: inertia.x * massScale, y: inertia.y * massScale, z: inertia.z * massScale });
+  }
+
+  private handleThermalStatus(status: ThermalStatus, previous: ThermalStatus): void {
+    if (status === 'shutdown') {
+      this.emitEvent({ type: 'thermal-shutdown', message: 'Thermal limit exceeded - plasma and cloak offline' });
+    } else if (previous === 'shutdown') {
+      this.emitEvent({ type: 'thermal-recovered', message: 'Coils cooled - systems restored' });
+    } else if (status === 'critical' && previous !== 'critical') {
+      this.emitEvent({ type: 'thermal-warning', message: 'Coil temperature critical - thrust limited' });
     }
-    if (input.yaw !== undefined) {
-      this.angularVelocity.y += input.yaw;
+  }
+
+  private handleBrownout(brownout: boolean): void {
+    if (brownout) {
+      this.emitEvent({ type: 'power-brownout', message: 'Reactor overloaded - low priority systems underpowered' });
+    } else {
+      this.emitEvent({ type: 'power-restored', message: 'Reactor load nominal' });
     }
-    if (input.roll !== undefined) {
-      this.angularVelocity.z += input.roll;
+  }
+
+  private emitEvent(event: GameEvent): void {
+    if (this.onEvent) {
+      this.onEvent(event);
     }
   }
-  
-  private getForwardVector(transform: Transform): Vector3 {
-    // Calculate forward vector from quaternion rotation
-    const quat_array = [transform.rotation.x, transform.rotation.y, transform.rotation.z, transform.rotation.w];
-    const forward = vec3.create();
-    
-    // Default forward is -Z in our coordinate system
-    vec3.set(forward, 0, 0, -1);
-    vec3.transformQuat(forward, forward, quat_array);
-    
-    return { x: forward[0], y: forward[1], z: forward[2] };
-  }
-  
+
+  private syncBodyFromTransform(transform: Transform): void {
+    this.body.position[0] = transform.position.x;
+    this.body.position[1] = transform.position.y;
+    this.body.position[2] = transform.position.z;
+    this.body.orientation[0] = transform.rotation.x;
+    this.body.orientation[1] = transform.rotation.y;
+    this.body.orientation[2] = transform.rotation.z;
+    this.body.orientation[3] = transform.rotation.w;
+  }
+
+  private syncTransformFromBody(transform: Transform): void {
+    transform.position.x = this.body.position[0];
+    transform.position.y = this.body.position[1];
+    transform.position.z = this.body.position[2];
+    transform.rotation.x = this.body.orientation[0];
+    transform.rotation.y = this.body.orientation[1];
+    transform.rotation.z = this.body.orientation[2];
+    transform.rotation.w = this.body.orientation[3];
+  }
+
+  // Control axes are commands in [-1, 1] that persist until changed
+  applyControlInput(input: ControlInput): void {
+    this.lastControlInput = { ...this.lastControlInput, ...input };
+  }
+
+  setCraftProfile(profile: CraftProfile): void {
+    this.craftProfile = profile;
+    this.body.setMass(profile.mass);
+    this.body.setInertia(profile.inertia);
+    this.power.setReactorOutput(profile.reactorOutput);
+  }
+
+  getCraftProfile(): CraftProfile {
+    return this.craftProfile;
+  }
+
+  reset(): void {
+    this.body.reset();
+    this.thermal.reset();
+    this.lastControlInput = {};
+    this.flightState = 'airborne';
+    this.airborneTime = 0;
+  }
+
+  getFlightState(): FlightState {
+    return this.flightState;
+  }
+
+  // Height of the landing pads above the terrain directly below the craft
+  getAltitudeAboveGround(): number {
+    const gearHeight = -Math.min(...this.craftProfile.landingPoints.map(point => point.y));
+    return this.collisionWorld.getAltitudeAboveGround({
+      x: this.body.position[0],
+      y: this.body.position[1],
+      z: this.body.position[2]
+    }) - gearHeight;
+  }
+
+  getGroundHeight(x: number, z: number): number {
+    return this.collisionWorld.getGroundHeight(x, z);
+  }
+
+  getThermalState(): ThermalState {
+    return this.thermal.getState();
+  }
+
+  setPowerPriorities(priorities: PowerConsumer[]): void {
+    this.power.setPriorities(priorities);
+  }
+
+  getPowerState(): PowerState {
+    return this.power.getState();
+  }
+
+  getTelemetry(): FlightTelemetry {
+    const forward = this.body.localToWorld(this.attitudeAxis, vec3.set(this.attitudeAxis, 0, 0, -1));
+    const heading = (Math.atan2(forward[0], -forward[2]) * 180 / Math.PI + 360) % 360;
+    const pitch = Math.asin(Math.max(-1, Math.min(1, forward[1])));
+
+    const rightY = this.body.localToWorld(this.attitudeAxis, vec3.set(this.attitudeAxis, 1, 0, 0))[1];
+    const upY = this.body.localToWorld(this.attitudeAxis, vec3.set(this.attitudeAxis, 0, 1, 0))[1];
+    const roll = Math.atan2(rightY, upY);
+
+    return {
+      position: { x: this.body.position[0], y: this.body.position[1], z: this.body.position[2] },
+      velocity: this.getVelocity(),
+      angularVelocity: this.getAngularVelocity(),
+      altitudeAGL: this.getAltitudeAboveGround(),
+      heading,
+      pitch,
+      roll,
+      gravity: this.environment.gravity
+    };
+  }
+
   getVelocity(): Vector3 {
-    return { ...this.velocity };
+    return { x: this.body.velocity[0], y: this.body.velocity[1], z: this.body.velocity[2] };
+  }
+
+  getAngularVelocity(): Vector3 {
+    return { x: this.body.angularVelocity[0], y: this.body.angularVelocity[1], z: this.body.angularVelocity[2] };
   }
-  
+
   getSpeed(): number {
-    return Math.sqrt(this.velocity.x ** 2 + this.velocity.y ** 2 + this.velocity.z ** 2);
+    return Math.sqrt(this.body.velocity[0] ** 2 + this.body.velocity[1] ** 2 + this.body.velocity[2] ** 2);
   }
-}
\ No newline at end of file
+}
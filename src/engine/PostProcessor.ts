@@ -0,0 +1,361 @@
+import { PostProcessSettings, QualityLevel } from '../types/GameTypes';
+import ShaderLibrary from './ShaderLibrary';
+
+export const POST_PROCESS_PRESETS: { [level in QualityLevel]: PostProcessSettings } = {
+  low: { bloom: false, toneMapping: false, refraction: false, samples: 0 },
+  medium: { bloom: true, toneMapping: true, refraction: false, samples: 0 },
+  high: { bloom: true, toneMapping: true, refraction: true, samples: 2 },
+  ultra: { bloom: true, toneMapping: true, refraction: true, samples: 4 }
+};
+
+interface RenderTarget {
+  framebuffer: WebGLFramebuffer;
+  texture: WebGLTexture;
+  depth: WebGLRenderbuffer | null;
+  width: number;
+  height: number;
+}
+
+// Multisampled colour and depth the scene draws into, resolved into the scene texture
+interface MultisampleTarget {
+  framebuffer: WebGLFramebuffer;
+  color: WebGLRenderbuffer | null;
+  depth: WebGLRenderbuffer | null;
+}
+
+const BRIGHT_PASS_SHADER = 'post-bright-pass';
+const BLUR_SHADER = 'post-blur';
+const COMPOSITE_SHADER = 'post-composite';
+
+// Renders the scene into an offscreen HDR target, multisampled if asked, then blooms, exposes and tone maps it
+// onto the canvas. Also keeps a copy of the opaque scene for passes that refract what is behind them.
+export default class PostProcessor {
+  private gl: WebGL2RenderingContext;
+  private shaders: ShaderLibrary;
+  private settings: PostProcessSettings = POST_PROCESS_PRESETS.high;
+  private exposure = 1;
+  private width = 1;
+  private height = 1;
+  private hdr: boolean;
+
+  private scene: RenderTarget | null = null;
+  private multisample: MultisampleTarget | null = null;
+  private sceneCopy: RenderTarget | null = null;
+  private bloomTargets: RenderTarget[] = [];
+  private emptyVao: WebGLVertexArrayObject | null;
+
+  private readonly BLOOM_THRESHOLD = 1.0;
+  private readonly BLOOM_STRENGTH = 0.6;
+  private readonly BLOOM_ITERATIONS = 2;
+
+  constructor(gl: WebGL2RenderingContext, shaders: ShaderLibrary) {
+    this.gl = gl;
+    this.shaders = shaders;
+    this.emptyVao = gl.createVertexArray();
+
+    // Half-float targets need this extension; without it highlights clip at white
+    this.hdr = gl.getExtension('EXT_color_buffer_float') !== null;
+    if (!this.hdr) {
+      console.warn('EXT_color_buffer_float unavailable, post-processing in low dynamic range');
+    }
+
+    shaders.register(BRIGHT_PASS_SHADER, {
+      vertex: 'fullscreen.vert',
+      fragment: 'bright-pass.frag',
+      uniforms: ['uSource', 'uTexelSize', 'uThreshold']
+    });
+    shaders.register(BLUR_SHADER, { vertex: 'fullscreen.vert', fragment: 'blur.frag', uniforms: ['uSource', 'uDirection'] });
+    shaders.register(COMPOSITE_SHADER, {
+      vertex: 'fullscreen.vert',
+      fragment: 'composite.frag',
+      uniforms: ['uScene', 'uExposure', 'uBloom', 'uBloomStrength']
+    });
+  }
+
+  setSettings(settings: PostProcessSettings): void {
+    this.settings = settings;
+    this.createTargets();
+  }
+
+  getSettings(): PostProcessSettings {
+    return this.settings;
+  }
+
+  // Set by the environment rather than the quality level; applies whenever the composite pass runs
+  setExposure(exposure: number): void {
+    this.exposure = exposure;
+  }
+
+  resize(width: number, height: number): void {
+    this.width = Math.max(1, Math.floor(width));
+    this.height = Math.max(1, Math.floor(height));
+    this.createTargets();
+  }
+
+  // With every pass off the scene goes straight to the canvas
+  isActive(): boolean {
+    return this.scene !== null;
+  }
+
+  // Scene colour can exceed 1 and is tone mapped later
+  isHdr(): boolean {
+    return this.isActive() && this.hdr;
+  }
+
+  canRefract(): boolean {
+    return this.sceneCopy !== null;
+  }
+
+  // Bind and clear the offscreen scene target
+  beginScene(clearColor: [number, number, number]): void {
+    if (!this.scene) return;
+    const gl = this.gl;
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this.sceneFramebuffer());
+    gl.viewport(0, 0, this.width, this.height);
+    gl.clearColor(clearColor[0], clearColor[1], clearColor[2], 1);
+    gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
+  }
+
+  // Snapshot the scene drawn so far; the scene target stays bound
+  captureScene(): WebGLTexture | null {
+    if (!this.scene || !this.sceneCopy) return null;
+    this.blit(this.sceneFramebuffer(), this.sceneCopy.framebuffer);
+    this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, this.sceneFramebuffer());
+    return this.sceneCopy.texture;
+  }
+
+  // Run the enabled passes and present to the canvas
+  finish(): void {
+    if (!this.scene) return;
+    const gl = this.gl;
+    gl.disable(gl.DEPTH_TEST);
+    gl.disable(gl.BLEND);
+    gl.disable(gl.CULL_FACE);
+    gl.bindVertexArray(this.emptyVao);
+
+    if (this.multisample) {
+      this.blit(this.multisample.framebuffer, this.scene.framebuffer);
+    }
+
+    const bloom = this.settings.bloom ? this.renderBloom(this.scene.texture) : null;
+
+    const defines: string[] = [];
+    if (bloom) defines.push('BLOOM');
+    if (this.settings.toneMapping) defines.push('TONE_MAPPING');
+    const composite = this.shaders.findProgram(COMPOSITE_SHADER, defines);
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    gl.viewport(0, 0, this.width, this.height);
+    if (composite) {
+      gl.useProgram(composite.program);
+      this.bindTexture(0, this.scene.texture, composite.uniforms.uScene);
+      if (bloom) {
+        this.bindTexture(1, bloom, composite.uniforms.uBloom);
+        gl.uniform1f(composite.uniforms.uBloomStrength, this.BLOOM_STRENGTH);
+      }
+      gl.uniform1f(composite.uniforms.uExposure, this.exposure);
+      gl.drawArrays(gl.TRIANGLES, 0, 3);
+    }
+
+    // Leave nothing bound that next frame's scene target could feed back into
+    for (const unit of [1, 0]) {
+      gl.activeTexture(gl.TEXTURE0 + unit);
+      gl.bindTexture(gl.TEXTURE_2D, null);
+    }
+    gl.bindVertexArray(null);
+    gl.enable(gl.DEPTH_TEST);
+    gl.enable(gl.CULL_FACE);
+  }
+
+  cleanup(): void {
+    this.deleteTargets();
+    this.gl.deleteVertexArray(this.emptyVao);
+  }
+
+  // Bright pass into half resolution, then ping-pong blurs; returns the blurred texture
+  private renderBloom(source: WebGLTexture): WebGLTexture | null {
+    const brightPass = this.shaders.findProgram(BRIGHT_PASS_SHADER);
+    const blur = this.shaders.findProgram(BLUR_SHADER);
+    const [first, second] = this.bloomTargets;
+    if (!brightPass || !blur || !first || !second) return null;
+    const gl = this.gl;
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, first.framebuffer);
+    gl.viewport(0, 0, first.width, first.height);
+    gl.useProgram(brightPass.program);
+    this.bindTexture(0, source, brightPass.uniforms.uSource);
+    gl.uniform2f(brightPass.uniforms.uTexelSize, 1 / this.width, 1 / this.height);
+    gl.uniform1f(brightPass.uniforms.uThreshold, this.BLOOM_THRESHOLD);
+    gl.drawArrays(gl.TRIANGLES, 0, 3);
+
+    gl.useProgram(blur.program);
+    for (let i = 0; i < this.BLOOM_ITERATIONS; i++) {
+      // Horizontal into the second target, vertical back into the first
+      gl.bindFramebuffer(gl.FRAMEBUFFER, second.framebuffer);
+      this.bindTexture(0, first.texture, blur.uniforms.uSource);
+      gl.uniform2f(blur.uniforms.uDirection, 1 / first.width, 0);
+      gl.drawArrays(gl.TRIANGLES, 0, 3);
+
+      gl.bindFramebuffer(gl.FRAMEBUFFER, first.framebuffer);
+      this.bindTexture(0, second.texture, blur.uniforms.uSource);
+      gl.uniform2f(blur.uniforms.uDirection, 0, 1 / first.height);
+      gl.drawArrays(gl.TRIANGLES, 0, 3);
+    }
+    return first.texture;
+  }
+
+  // Where the scene is drawn: the multisampled target when there is one
+  private sceneFramebuffer(): WebGLFramebuffer | null {
+    return this.multisample?.framebuffer ?? this.scene?.framebuffer ?? null;
+  }
+
+  // Full-size colour copy; resolves samples when the source is multisampled
+  private blit(source: WebGLFramebuffer | null, destination: WebGLFramebuffer | null): void {
+    const gl = this.gl;
+    gl.bindFramebuffer(gl.READ_FRAMEBUFFER, source);
+    gl.bindFramebuffer(gl.DRAW_FRAMEBUFFER, destination);
+    gl.blitFramebuffer(0, 0, this.width, this.height, 0, 0, this.width, this.height, gl.COLOR_BUFFER_BIT, gl.NEAREST);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+  }
+
+  private bindTexture(unit: number, texture: WebGLTexture, location: WebGLUniformLocation | null): void {
+    this.gl.activeTexture(this.gl.TEXTURE0 + unit);
+    this.gl.bindTexture(this.gl.TEXTURE_2D, texture);
+    this.gl.uniform1i(location, unit);
+  }
+
+  // Targets only exist for the passes in use
+  private createTargets(): void {
+    this.deleteTargets();
+    const { bloom, toneMapping, refraction, samples } = this.settings;
+    if (!bloom && !toneMapping && !refraction && samples <= 0) return;
+
+    this.scene = this.createTarget(this.width, this.height, true);
+    if (!this.scene && this.hdr) {
+      console.warn('Half-float render target unsupported, post-processing in low dynamic range');
+      this.hdr = false;
+      this.scene = this.createTarget(this.width, this.height, true);
+    }
+    if (!this.scene) return;
+
+    if (samples > 0) {
+      this.multisample = this.createMultisampleTarget(samples);
+    }
+    if (this.settings.refraction) {
+      this.sceneCopy = this.createTarget(this.width, this.height, false);
+    }
+    if (this.settings.bloom) {
+      const width = Math.max(1, this.width >> 1);
+      const height = Math.max(1, this.height >> 1);
+      const targets = [this.createTarget(width, height, false), this.createTarget(width, height, false)];
+      this.bloomTargets = targets.filter((target): target is RenderTarget => target !== null);
+    }
+  }
+
+  private createTarget(width: number, height: number, withDepth: boolean): RenderTarget | null {
+    const gl = this.gl;
+    const framebuffer = gl.createFramebuffer();
+    const texture = gl.createTexture();
+    if (!framebuffer || !texture) {
+      throw new Error('Failed to create post-processing target');
+    }
+
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    if (this.hdr) {
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA16F, width, height, 0, gl.RGBA, gl.HALF_FLOAT, null);
+    } else {
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+    }
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.bindTexture(gl.TEXTURE_2D, null);
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+
+    let depth: WebGLRenderbuffer | null = null;
+    if (withDepth) {
+      depth = gl.createRenderbuffer();
+      gl.bindRenderbuffer(gl.RENDERBUFFER, depth);
+      gl.renderbufferStorage(gl.RENDERBUFFER, gl.DEPTH_COMPONENT24, width, height);
+      gl.framebufferRenderbuffer(gl.FRAMEBUFFER, gl.DEPTH_ATTACHMENT, gl.RENDERBUFFER, depth);
+      gl.bindRenderbuffer(gl.RENDERBUFFER, null);
+    }
+
+    const status = gl.checkFramebufferStatus(gl.FRAMEBUFFER);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    const target = { framebuffer, texture, depth, width, height };
+    if (status !== gl.FRAMEBUFFER_COMPLETE) {
+      console.error(`Post-processing target incomplete: 0x${status.toString(16)}`);
+      this.deleteTarget(target);
+      return null;
+    }
+    return target;
+  }
+
+  // Uses the most samples the scene format supports, up to the number asked for
+  private createMultisampleTarget(requested: number): MultisampleTarget | null {
+    const gl = this.gl;
+    const format = this.hdr ? gl.RGBA16F : gl.RGBA8;
+    const supported: Int32Array | null = gl.getInternalformatParameter(gl.RENDERBUFFER, format, gl.SAMPLES);
+    const samples = Array.from(supported ?? []).find(count => count <= requested) ?? 0;
+    if (samples === 0) {
+      console.warn('Multisampled scene target unsupported, rendering without MSAA');
+      return null;
+    }
+
+    const framebuffer = gl.createFramebuffer();
+    if (!framebuffer) {
+      throw new Error('Failed to create multisampled target');
+    }
+    const storage = (internalFormat: number) => {
+      const renderbuffer = gl.createRenderbuffer();
+      gl.bindRenderbuffer(gl.RENDERBUFFER, renderbuffer);
+      gl.renderbufferStorageMultisample(gl.RENDERBUFFER, samples, internalFormat, this.width, this.height);
+      return renderbuffer;
+    };
+    const target = { framebuffer, color: storage(format), depth: storage(gl.DEPTH_COMPONENT24) };
+    gl.bindRenderbuffer(gl.RENDERBUFFER, null);
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.framebufferRenderbuffer(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.RENDERBUFFER, target.color);
+    gl.framebufferRenderbuffer(gl.FRAMEBUFFER, gl.DEPTH_ATTACHMENT, gl.RENDERBUFFER, target.depth);
+    const status = gl.checkFramebufferStatus(gl.FRAMEBUFFER);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    if (status !== gl.FRAMEBUFFER_COMPLETE) {
+      console.warn(`Multisampled target incomplete (0x${status.toString(16)}), rendering without MSAA`);
+      this.deleteMultisampleTarget(target);
+      return null;
+    }
+    return target;
+  }
+
+  private deleteMultisampleTarget(target: MultisampleTarget): void {
+    this.gl.deleteFramebuffer(target.framebuffer);
+    this.gl.deleteRenderbuffer(target.color);
+    this.gl.deleteRenderbuffer(target.depth);
+  }
+
+  private deleteTarget(target: RenderTarget): void {
+    this.gl.deleteFramebuffer(target.framebuffer);
+    this.gl.deleteTexture(target.texture);
+    this.gl.deleteRenderbuffer(target.depth);
+  }
+
+  private deleteTargets(): void {
+    for (const target of [this.scene, this.sceneCopy, ...this.bloomTargets]) {
+      if (target) {
+        this.deleteTarget(target);
+      }
+    }
+    if (this.multisample) {
+      this.deleteMultisampleTarget(this.multisample);
+    }
+    this.scene = null;
+    this.multisample = null;
+    this.sceneCopy = null;
+    this.bloomTargets = [];
+  }
+}
@@ -0,0 +1,164 @@
+import { PowerAllocation, PowerConsumer, PowerState, SystemState } from '../types/GameTypes';
+
+export const POWER_CONSUMERS: PowerConsumer[] = ['propulsion', 'cloaking', 'sensors'];
+
+export default class PowerSystem {
+  // Propulsion draw (MW)
+  private readonly FIELD_BASE_DRAW = 1.0;
+  private readonly ANTI_GRAVITY_DRAW = 3.0;
+  private readonly PLASMA_DRAW = 4.0;
+
+  // Cloaking draw (MW); damaged emitters work harder to hold the field
+  private readonly CLOAK_BASE_DRAW = 2.0;
+  private readonly CLOAK_DAMAGE_DRAW = 1.5;
+
+  // Sensor draw (MW)
+  private readonly SENSOR_BASE_DRAW = 0.3;
+  private readonly SENSOR_RANGE_DRAW = 0.7; // per 1000 m of range
+  private readonly QUANTUM_SENSOR_DRAW = 2.0;
+
+  // Underpowered cloak behaviour
+  private readonly CLOAK_DECAY_RATE = 0.3;
+  private readonly CLOAK_COLLAPSE_RATIO = 0.25;
+
+  // A brownout clears only once demand has stayed this far below output for the hold time,
+  // so demand hovering at the limit doesn't flood events and alarms
+  private readonly BROWNOUT_RECOVERY_MARGIN = 0.05; // fraction of reactor output
+  private readonly BROWNOUT_HOLD_TIME = 1.0; // s
+
+  private priorities: PowerConsumer[] = ['propulsion', 'cloaking', 'sensors'];
+  private state: PowerState;
+  private recoveryTime = 0; // s demand has been below the recovery level during a brownout
+
+  public onBrownoutChange: ((brownout: boolean) => void) | null = null;
+  public onCloakCollapse: (() => void) | null = null;
+
+  constructor(reactorOutput: number) {
+    this.state = {
+      reactorOutput,
+      totalDemand: 0,
+      priorities: [...this.priorities],
+      allocations: {
+        propulsion: { demand: 0, supplied: 0, ratio: 1 },
+        cloaking: { demand: 0, supplied: 0, ratio: 1 },
+        sensors: { demand: 0, supplied: 0, ratio: 1 }
+      },
+      brownout: false
+    };
+  }
+
+  update(deltaTime: number, systemStates: SystemState, throttle: number): void {
+    const demands: Record<PowerConsumer, number> = {
+      propulsion: this.getPropulsionDemand(systemStates.propulsion, throttle),
+      cloaking: this.getCloakingDemand(systemStates.cloaking),
+      sensors: this.getSensorDemand(systemStates.sensors)
+    };
+
+    // Serve consumers in priority order until the reactor runs out
+    let remaining = this.state.reactorOutput;
+    let totalDemand = 0;
+    const allocations = {} as Record<PowerConsumer, PowerAllocation>;
+
+    this.priorities.forEach(consumer => {
+      const demand = demands[consumer];
+      const supplied = Math.min(demand, remaining);
+      remaining -= supplied;
+      totalDemand += demand;
+      allocations[consumer] = { demand, supplied, ratio: demand > 0 ? supplied / demand : 1 };
+    });
+
+    const wasBrownout = this.state.brownout;
+    const brownout = this.updateBrownout(deltaTime, totalDemand);
+    this.state = {
+      ...this.state,
+      totalDemand,
+      priorities: [...this.priorities],
+      allocations,
+      brownout
+    };
+
+    if (brownout !== wasBrownout && this.onBrownoutChange) {
+      this.onBrownoutChange(brownout);
+    }
+
+    this.applyCloakingBrownout(deltaTime, systemStates.cloaking);
+  }
+
+  private updateBrownout(deltaTime: number, totalDemand: number): boolean {
+    if (totalDemand > this.state.reactorOutput) {
+      this.recoveryTime = 0;
+      return true;
+    }
+    if (!this.state.brownout) return false;
+
+    if (totalDemand > this.state.reactorOutput * (1 - this.BROWNOUT_RECOVERY_MARGIN)) {
+      this.recoveryTime = 0;
+      return true;
+    }
+    this.recoveryTime += deltaTime;
+    return this.recoveryTime < this.BROWNOUT_HOLD_TIME;
+  }
+
+  private getPropulsionDemand(propulsion: SystemState['propulsion'], throttle: number): number {
+    return this.FIELD_BASE_DRAW
+      + propulsion.antiGravity * this.ANTI_GRAVITY_DRAW
+      + propulsion.plasmaRate * this.PLASMA_DRAW * (0.4 + 0.6 * throttle);
+  }
+
+  private getCloakingDemand(cloaking: SystemState['cloaking']): number {
+    if (!cloaking.active) return 0;
+    return this.CLOAK_BASE_DRAW + this.CLOAK_DAMAGE_DRAW * (1 - cloaking.integrity);
+  }
+
+  private getSensorDemand(sensors: SystemState['sensors']): number {
+    if (!sensors.active) return 0;
+    return this.SENSOR_BASE_DRAW
+      + (sensors.range / 1000) * this.SENSOR_RANGE_DRAW
+      + (sensors.quantum ? this.QUANTUM_SENSOR_DRAW : 0);
+  }
+
+  private applyCloakingBrownout(deltaTime: number, cloaking: SystemState['cloaking']): void {
+    if (!cloaking.active) return;
+
+    const ratio = this.state.allocations.cloaking.ratio;
+    if (ratio < this.CLOAK_COLLAPSE_RATIO) {
+      // Not enough power to hold the field at all
+      cloaking.active = false;
+      if (this.onCloakCollapse) {
+        this.onCloakCollapse();
+      }
+    } else if (ratio < 1) {
+      cloaking.integrity = Math.max(0, cloaking.integrity - (1 - ratio) * this.CLOAK_DECAY_RATE * deltaTime);
+    }
+  }
+
+  setPriorities(priorities: PowerConsumer[]): void {
+    // Keep every consumer exactly once, in the requested order
+    const ordered = priorities.filter((consumer, index) =>
+      POWER_CONSUMERS.includes(consumer) && priorities.indexOf(consumer) === index
+    );
+    const missing = POWER_CONSUMERS.filter(consumer => !ordered.includes(consumer));
+    this.priorities = [...ordered, ...missing];
+    this.state = { ...this.state, priorities: [...this.priorities] };
+  }
+
+  setReactorOutput(reactorOutput: number): void {
+    this.state = { ...this.state, reactorOutput };
+  }
+
+  getSupplyRatio(consumer: PowerConsumer): number {
+    return this.state.allocations[consumer].ratio;
+  }
+
+  getState(): PowerState {
+    return {
+      ...this.state,
+      priorities: [...this.state.priorities],
+      allocations: {
+        propulsion: { ...this.state.allocations.propulsion },
+        cloaking: { ...this.state.allocations.cloaking },
+        sensors: { ...this.state.allocations.sensors }
+      }
+    };
+  }
+}
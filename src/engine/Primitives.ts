@@ -0,0 +1,166 @@
+import { MeshData } from './Mesh';
+
+const TRIANGLES = 4; // gl.TRIANGLES
+
+// Axis-aligned box centred on the origin, with flat normals per face
+export function createBox(width: number, height: number, depth: number): MeshData {
+  const x = width / 2;
+  const y = height / 2;
+  const z = depth / 2;
+
+  // Each face: normal followed by its four corners, counter-clockwise from outside
+  const faces: number[][] = [
+    [0, 0, 1, -x, -y, z, x, -y, z, x, y, z, -x, y, z],
+    [0, 0, -1, x, -y, -z, -x, -y, -z, -x, y, -z, x, y, -z],
+    [1, 0, 0, x, -y, z, x, -y, -z, x, y, -z, x, y, z],
+    [-1, 0, 0, -x, -y, -z, -x, -y, z, -x, y, z, -x, y, -z],
+    [0, 1, 0, -x, y, z, x, y, z, x, y, -z, -x, y, -z],
+    [0, -1, 0, -x, -y, -z, x, -y, -z, x, -y, z, -x, -y, z]
+  ];
+
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const texCoords: number[] = [];
+  const indices: number[] = [];
+
+  faces.forEach((face, faceIndex) => {
+    for (let corner = 0; corner < 4; corner++) {
+      positions.push(face[3 + corner * 3], face[4 + corner * 3], face[5 + corner * 3]);
+      normals.push(face[0], face[1], face[2]);
+    }
+    texCoords.push(0, 0, 1, 0, 1, 1, 0, 1);
+    const base = faceIndex * 4;
+    indices.push(base, base + 1, base + 2, base, base + 2, base + 3);
+  });
+
+  return {
+    positions: new Float32Array(positions),
+    normals: new Float32Array(normals),
+    texCoords: new Float32Array(texCoords),
+    indices: new Uint16Array(indices),
+    mode: TRIANGLES
+  };
+}
+
+// Horizontal grid facing +Y
+export function createPlane(size: number, segments = 1): MeshData {
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const texCoords: number[] = [];
+  const indices: number[] = [];
+  const half = size / 2;
+
+  for (let row = 0; row <= segments; row++) {
+    for (let column = 0; column <= segments; column++) {
+      const u = column / segments;
+      const v = row / segments;
+      positions.push(-half + u * size, 0, -half + v * size);
+      normals.push(0, 1, 0);
+      texCoords.push(u, v);
+    }
+  }
+
+  for (let row = 0; row < segments; row++) {
+    for (let column = 0; column < segments; column++) {
+      const a = row * (segments + 1) + column;
+      const b = a + segments + 1;
+      indices.push(a, b, a + 1, a + 1, b, b + 1);
+    }
+  }
+
+  const IndexArray = positions.length / 3 > 65535 ? Uint32Array : Uint16Array;
+  return {
+    positions: new Float32Array(positions),
+    normals: new Float32Array(normals),
+    texCoords: new Float32Array(texCoords),
+    indices: new IndexArray(indices),
+    mode: TRIANGLES
+  };
+}
+
+// Capped cylinder standing on the origin, along +Y
+export function createCylinder(radius: number, height: number, segments = 16): MeshData {
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const texCoords: number[] = [];
+  const indices: number[] = [];
+
+  // Side wall
+  for (let i = 0; i <= segments; i++) {
+    const angle = (i / segments) * Math.PI * 2;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    positions.push(cos * radius, 0, sin * radius, cos * radius, height, sin * radius);
+    normals.push(cos, 0, sin, cos, 0, sin);
+    texCoords.push(i / segments, 0, i / segments, 1);
+  }
+  for (let i = 0; i < segments; i++) {
+    const a = i * 2;
+    indices.push(a, a + 1, a + 3, a, a + 3, a + 2);
+  }
+
+  // Caps as fans around a centre vertex
+  for (const [y, ny] of [[height, 1], [0, -1]]) {
+    const centre = positions.length / 3;
+    positions.push(0, y, 0);
+    normals.push(0, ny, 0);
+    texCoords.push(0.5, 0.5);
+    for (let i = 0; i <= segments; i++) {
+      const angle = (i / segments) * Math.PI * 2;
+      positions.push(Math.cos(angle) * radius, y, Math.sin(angle) * radius);
+      normals.push(0, ny, 0);
+      texCoords.push(0.5 + Math.cos(angle) * 0.5, 0.5 + Math.sin(angle) * 0.5);
+    }
+    for (let i = 0; i < segments; i++) {
+      if (ny > 0) {
+        indices.push(centre, centre + i + 2, centre + i + 1);
+      } else {
+        indices.push(centre, centre + i + 1, centre + i + 2);
+      }
+    }
+  }
+
+  return {
+    positions: new Float32Array(positions),
+    normals: new Float32Array(normals),
+    texCoords: new Float32Array(texCoords),
+    indices: new Uint16Array(indices),
+    mode: TRIANGLES
+  };
+}
+
+export function createSphere(radius: number, rings = 12, segments = 16): MeshData {
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const texCoords: number[] = [];
+  const indices: number[] = [];
+
+  for (let ring = 0; ring <= rings; ring++) {
+    const theta = (ring / rings) * Math.PI;
+    for (let segment = 0; segment <= segments; segment++) {
+      const phi = (segment / segments) * Math.PI * 2;
+      const nx = Math.sin(theta) * Math.cos(phi);
+      const ny = Math.cos(theta);
+      const nz = Math.sin(theta) * Math.sin(phi);
+      positions.push(nx * radius, ny * radius, nz * radius);
+      normals.push(nx, ny, nz);
+      texCoords.push(segment / segments, ring / rings);
+    }
+  }
+
+  for (let ring = 0; ring < rings; ring++) {
+    for (let segment = 0; segment < segments; segment++) {
+      const a = ring * (segments + 1) + segment;
+      const b = a + segments + 1;
+      indices.push(a, a + 1, b, a + 1, b + 1, b);
+    }
+  }
+
+  return {
+    positions: new Float32Array(positions),
+    normals: new Float32Array(normals),
+    texCoords: new Float32Array(texCoords),
+    indices: new Uint16Array(indices),
+    mode: TRIANGLES
+  };
+}
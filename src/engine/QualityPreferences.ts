@@ -0,0 +1,89 @@
+import { QualityLevel, QualitySettings } from '../types/GameTypes';
+
+export const QUALITY_LEVELS: QualityLevel[] = ['low', 'medium', 'high', 'ultra'];
+
+// Share of the device pixel ratio the canvas renders at, before dynamic resolution
+export const RENDER_SCALE_PRESETS: { [level in QualityLevel]: number } = {
+  low: 0.5,
+  medium: 0.75,
+  high: 1,
+  ultra: 1
+};
+
+export const TARGET_FRAME_RATES = [30, 60];
+
+const STORAGE_KEY = 'manta.quality';
+
+// Phones and tablets start a level down with resolution free to drop
+function defaultSettings(): QualitySettings {
+  const handheld = typeof matchMedia !== 'undefined' && matchMedia('(pointer: coarse)').matches;
+  return handheld
+    ? { level: 'medium', dynamicResolution: true, targetFrameRate: 30 }
+    : { level: 'high', dynamicResolution: false, targetFrameRate: 60 };
+}
+
+function parseSettings(value: unknown): QualitySettings {
+  const settings = value as { [field: string]: unknown } | null;
+  if (!settings || typeof settings !== 'object') {
+    throw new Error('Quality settings must be an object');
+  }
+
+  const { level, dynamicResolution, targetFrameRate } = settings;
+  if (!QUALITY_LEVELS.includes(level as QualityLevel)) {
+    throw new Error(`Unknown quality level: ${String(level)}`);
+  }
+  if (typeof dynamicResolution !== 'boolean') {
+    throw new Error('dynamicResolution must be true or false');
+  }
+  if (typeof targetFrameRate !== 'number' || !(targetFrameRate > 0)) {
+    throw new Error('targetFrameRate must be a positive number');
+  }
+  return { level: level as QualityLevel, dynamicResolution, targetFrameRate };
+}
+
+export default class QualityPreferences {
+  private settings: QualitySettings;
+  private storage: Storage | null;
+
+  public onChange: ((settings: QualitySettings) => void) | null = null;
+
+  constructor(storage: Storage | null = typeof localStorage !== 'undefined' ? localStorage : null) {
+    this.storage = storage;
+    this.settings = this.load();
+  }
+
+  getSettings(): QualitySettings {
+    return { ...this.settings };
+  }
+
+  update(changes: Partial<QualitySettings>): void {
+    this.settings = parseSettings({ ...this.settings, ...changes });
+    this.commit();
+  }
+
+  private load(): QualitySettings {
+    const stored = this.storage ? this.storage.getItem(STORAGE_KEY) : null;
+    if (stored) {
+      try {
+        return parseSettings(JSON.parse(stored));
+      } catch (error) {
+        console.warn('Ignoring saved quality settings:', error);
+      }
+    }
+    return defaultSettings();
+  }
+
+  private commit(): void {
+    if (this.storage) {
+      try {
+        this.storage.setItem(STORAGE_KEY, JSON.stringify(this.settings));
+      } catch (error) {
+        console.warn('Failed to save quality settings:', error);
+      }
+    }
+
+    if (this.onChange) {
+      this.onChange(this.getSettings());
+    }
+  }
+}
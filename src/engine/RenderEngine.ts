@@ -1,44 +1,258 @@
+import { mat4, vec3 } from 'gl-matrix';
+import {
+  Color3,
+  EnvironmentDescriptor,
+  PerformanceSample,
+  PostProcessSettings,
+  PropPlacement,
+  QualityLevel,
+  ShadowSettings,
+  SystemState,
+  Transform
+} from '../types/GameTypes';
+import GLTFLoader from './GLTFLoader';
+import CameraSystem from './CameraSystem';
+import SceneGraph, { CloakState, SceneNode, createNodeFromModel } from './SceneGraph';
+import RenderQueue, { DrawItem } from './RenderQueue';
+import { copyTransform } from './TransformUtils';
+import {
+  DEFAULT_MATERIAL,
+  Material,
+  Mesh,
+  MeshData,
+  Model,
+  createMeshPrimitive,
+  deleteMeshPrimitive,
+  deleteModel,
+  drawMeshPrimitive
+} from './Mesh';
+import { createBox, createCylinder, createSphere } from './Primitives';
+import TerrainRenderer, { TERRAIN_LOD_PRESETS } from './TerrainRenderer';
+import CityRenderer from './CityRenderer';
+import { createCity } from './CityGenerator';
+import SkyRenderer from './SkyRenderer';
+import ShaderLibrary, { ShaderDefinition, ShaderProgram } from './ShaderLibrary';
+import PostProcessor, { POST_PROCESS_PRESETS } from './PostProcessor';
+import ShadowRenderer, { SHADOW_PRESETS } from './ShadowRenderer';
+import ParticleSystem, { PARTICLE_BUDGETS } from './ParticleSystem';
+import CraftEffects from './CraftEffects';
+import GpuResourceTracker, { GpuResourceKind } from './GpuResourceTracker';
+import DrawStatistics from './DrawStatistics';
+import GpuTimer from './GpuTimer';
+
+const CRAFT_MODEL_URL = `${import.meta.env.BASE_URL}models/manta.gltf`;
+
+function propMaterial(name: string, baseColor: [number, number, number], metallic = 0.2, roughness = 0.8): Material {
+  return { ...DEFAULT_MATERIAL, name, baseColor: [...baseColor, 1], metallic, roughness };
+}
+
+const CONCRETE = propMaterial('concrete', [0.35, 0.35, 0.33]);
+const STEEL = propMaterial('steel', [0.5, 0.52, 0.55], 0.9, 0.35);
+const HANGAR = propMaterial('hangar', [0.22, 0.26, 0.18], 0.4, 0.6);
+const WARNING_LIGHT = propMaterial('warning-light', [1, 0.15, 0.1], 0, 0.2);
+const BEACON_LIGHT = propMaterial('beacon-light', [0.2, 0.9, 1], 0, 0.2);
+
+const TERRAIN_SHADER = 'terrain';
+const SKY_SHADER = 'sky';
+const STAR_SHADER = 'stars';
+const CELESTIAL_BODY_SHADER = 'celestial-body';
+const PARTICLE_SHADER = 'particle';
+const CITY_SHADER = 'city';
+const CITY_BEACON_SHADER = 'city-beacon';
+
+// Set on every program from the current environment
+const LIGHTING_UNIFORMS = [
+  'uCameraPosition', 'uAmbientColor', 'uSunDirection', 'uSunColor', 'uFogColor', 'uFogDensity',
+  'uShadowMap', 'uShadowMatrices', 'uCascadeSplits', 'uShadowNormalOffsets', 'uCameraForward', 'uShadowTexelSize'
+];
+
+// Programs by the shader key materials refer to
+const SHADERS: { [key: string]: ShaderDefinition } = {
+  [DEFAULT_MATERIAL.shader]: {
+    vertex: 'standard.vert',
+    fragment: 'standard.frag',
+    uniforms: [
+      'uModelMatrix', 'uViewMatrix', 'uProjectionMatrix', 'uTime', 'uCloakingIntegrity', 'uPlasmaIntensity',
+      'uBaseColor', 'uEmissive', 'uSceneColor', 'uViewportSize', ...LIGHTING_UNIFORMS
+    ]
+  },
+  [TERRAIN_SHADER]: {
+    vertex: 'terrain.vert',
+    fragment: 'terrain.frag',
+    uniforms: ['uViewMatrix', 'uProjectionMatrix', 'uMorphRange', 'uGroundColor', ...LIGHTING_UNIFORMS]
+  },
+  [SKY_SHADER]: {
+    vertex: 'sky.vert',
+    fragment: 'sky.frag',
+    uniforms: [
+      'uInverseSkyMatrix', 'uSkySunDirection', 'uSkySunIntensity', 'uScattering', 'uAltitude', 'uRayleigh',
+      'uMie', 'uScaleHeights', 'uAtmosphereRadius', 'uSpaceColor', 'uGlowColor', 'uGlowHeight'
+    ]
+  },
+  [STAR_SHADER]: {
+    vertex: 'stars.vert',
+    fragment: 'stars.frag',
+    uniforms: ['uStarMatrix', 'uStarBrightness']
+  },
+  [CELESTIAL_BODY_SHADER]: {
+    vertex: 'celestial-body.vert',
+    fragment: 'celestial-body.frag',
+    uniforms: ['uSkyMatrix', 'uSkySunDirection', 'uBodyDirection', 'uBodySize', 'uBodyKind']
+  },
+  [PARTICLE_SHADER]: {
+    vertex: 'particle.vert',
+    fragment: 'particle.frag',
+    uniforms: [
+      'uViewMatrix', 'uProjectionMatrix', 'uParticleSize', 'uColorStart', 'uColorEnd', 'uStretch', 'uParticleEmissive',
+      ...LIGHTING_UNIFORMS
+    ]
+  },
+  [CITY_SHADER]: {
+    vertex: 'city.vert',
+    fragment: 'city.frag',
+    uniforms: ['uViewMatrix', 'uProjectionMatrix', 'uFacadeColor', 'uWindowColor', 'uLitWindows', ...LIGHTING_UNIFORMS]
+  },
+  [CITY_BEACON_SHADER]: {
+    vertex: 'city-beacon.vert',
+    fragment: 'city-beacon.frag',
+    uniforms: ['uViewMatrix', 'uProjectionMatrix', 'uViewportSize', 'uTime', 'uBeaconColor', ...LIGHTING_UNIFORMS]
+  }
+};
+
+// Preprocessor switches for program variants
+const CLOAK_DEFINE = 'CLOAK';
+const FOG_DEFINE = 'FOG';
+const HDR_DEFINE = 'HDR';
+const REFRACTION_DEFINE = 'REFRACTION';
+const SHADOWS_DEFINE = 'SHADOWS';
+
+// Texture units beyond the materials' own
+const SCENE_COLOR_UNIT = 1; // the scene copy that refracting cloaks sample
+const SHADOW_MAP_UNIT = 2;
+
 export default class RenderEngine {
   private gl: WebGL2RenderingContext;
-  private shaderProgram: WebGLProgram | null = null;
-  private vertexBuffer: WebGLBuffer | null = null;
-  private indexBuffer: WebGLBuffer | null = null;
+  private resources: GpuResourceTracker;
+  private draws: DrawStatistics;
   private viewMatrix: Float32Array;
   private projectionMatrix: Float32Array;
   
-  // Shader uniforms
-  private uniformLocations: { [key: string]: WebGLUniformLocation | null } = {};
+  // Program variants, compiled on first use
+  private shaders: ShaderLibrary;
+  private skyDefines: string[] = [];
+  private environmentDefines: string[] = [];
+  private cloakDefines: string[] = [CLOAK_DEFINE];
+  private activeProgram: ShaderProgram | null = null;
+  private activeMaterial: Material | null = null;
+  private frameTime = 0;
+  private plasmaIntensity = 0;
+  
+  // Loaded models, shared by URL
+  private loader: GLTFLoader;
+  private models: Map<string, Promise<Model>> = new Map();
+  private fieldOfView = 60; // degrees
+  private readonly NEAR_PLANE = 0.5;
+  private readonly FAR_PLANE = 20000.0;
+  private readonly SEA_LEVEL_DENSITY = 1.225; // kg/m³, where particle drag is as specified
+  
+  // Everything drawn each frame lives in the scene
+  private scene = new SceneGraph();
+  private renderQueue = new RenderQueue();
+  private craftNode: SceneNode | null = null;
+  private craftCloak: CloakState = { active: false, integrity: 1 };
+  private environmentRoot: SceneNode | null = null;
+  private propMeshes: Map<string, Mesh> = new Map();
+  
+  // Offscreen HDR target and the passes that finish the frame
+  private postProcessor: PostProcessor | null = null;
+  private viewportSize = new Float32Array(2);
+  
+  // Key light depth, rendered before anything else each frame
+  private shadows: ShadowRenderer | null = null;
+  
+  // GPU-simulated particles, drawn over everything else
+  private particles: ParticleSystem | null = null;
+  private craftEffects: CraftEffects | null = null;
+  private heightAt: (x: number, z: number) => number = () => 0;
+  
+  // Kept to rebuild everything after the context is restored
+  private environment: EnvironmentDescriptor | null = null;
+  private postSettings: PostProcessSettings | null = null;
+  private exposure = 1;
+  private shadowSettings: ShadowSettings | null = null;
+  private particleBudget: number | null = null;
+  private terrainLodDistance: number | null = null;
+  
+  // Sky behind everything, then streaming ground and the city on it, drawn before the scene
+  private sky: SkyRenderer | null = null;
+  private terrain: TerrainRenderer | null = null;
+  private city: CityRenderer | null = null;
+  private groundColor: Color3 = [0.2, 0.2, 0.2];
+  
+  // Environment lighting, shared by every program
+  private skyColor: Color3 = [0.02, 0.02, 0.1];
+  private ambientColor: Color3 = [0.3, 0.3, 0.3];
+  private sunDirection = vec3.normalize(vec3.create(), vec3.fromValues(1, 1, 1));
+  private sunRadiance = vec3.fromValues(0.7, 0.7, 0.7);
+  private fogColor: Color3 = [0, 0, 0];
+  private fogDensity = 0;
+  private cameraPosition = vec3.create();
+  private viewProjectionMatrix = mat4.create();
+  
+  // Frame timing on the GPU, only while the performance overlay is watching
+  private gpuTimer: GpuTimer | null = null;
+  private profiling = false;
   
   constructor(gl: WebGL2RenderingContext) {
     this.gl = gl;
+    // First, so nothing is created before it is tracked
+    this.resources = new GpuResourceTracker(gl);
+    this.draws = new DrawStatistics(gl);
     this.viewMatrix = new Float32Array(16);
     this.projectionMatrix = new Float32Array(16);
+    this.loader = new GLTFLoader(gl);
+    this.shaders = new ShaderLibrary(gl);
   }
   
   async initialize(): Promise<void> {
     try {
-      // Create shader program
-      this.shaderProgram = this.createShaderProgram();
-      if (!this.shaderProgram) {
-        throw new Error('Failed to create shader program');
+      this.postProcessor = new PostProcessor(this.gl, this.shaders);
+      this.shadows = new ShadowRenderer(this.gl, this.shaders);
+      this.shadows.setLightDirection(this.sunDirection);
+      this.particles = new ParticleSystem(this.gl, this.shaders);
+      this.gpuTimer = new GpuTimer(this.gl);
+      if (this.postSettings) this.postProcessor.setSettings(this.postSettings);
+      this.postProcessor.setExposure(this.exposure);
+      if (this.shadowSettings) this.shadows.setSettings(this.shadowSettings);
+      if (this.particleBudget !== null) this.particles.setBudget(this.particleBudget);
+      this.updateDefines();
+      
+      // Build the common variants up front so broken shaders fail startup with their file and line
+      for (const [key, definition] of Object.entries(SHADERS)) {
+        this.shaders.register(key, definition);
+        this.shaders.getProgram(key);
       }
+      this.shaders.getProgram(DEFAULT_MATERIAL.shader, this.cloakDefines);
+      this.shaders.getProgram(SKY_SHADER, this.skyDefines);
       
-      // Get uniform locations
-      this.uniformLocations = {
-        uModelMatrix: this.gl.getUniformLocation(this.shaderProgram, 'uModelMatrix'),
-        uViewMatrix: this.gl.getUniformLocation(this.shaderProgram, 'uViewMatrix'),
-        uProjectionMatrix: this.gl.getUniformLocation(this.shaderProgram, 'uProjectionMatrix'),
-        uTime: this.gl.getUniformLocation(this.shaderProgram, 'uTime'),
-        uCloakingActive: this.gl.getUniformLocation(this.shaderProgram, 'uCloakingActive'),
-        uCloakingIntegrity: this.gl.getUniformLocation(this.shaderProgram, 'uCloakingIntegrity'),
-        uPlasmaIntensity: this.gl.getUniformLocation(this.shaderProgram, 'uPlasmaIntensity')
-      };
+      this.sky = new SkyRenderer(this.gl);
+      this.terrain = new TerrainRenderer(this.gl);
+      if (this.terrainLodDistance !== null) this.terrain.setLodDistance(this.terrainLodDistance);
+      this.city = new CityRenderer(this.gl);
+      this.createPropMeshes();
       
-      // Create geometry
-      this.createGeometry();
+      // Load the craft; a missing asset leaves the scene empty rather than failing startup
+      try {
+        const craftModel = await this.loadModel(CRAFT_MODEL_URL);
+        this.craftNode = this.scene.add(createNodeFromModel('craft', craftModel));
+        this.craftNode.cloak = this.craftCloak;
+        this.craftEffects = new CraftEffects(this.particles, this.craftNode, this.groundColor);
+      } catch (error) {
+        console.error('Failed to load craft model:', error);
+      }
       
-      // Setup projection matrix
-      this.updateProjectionMatrix();
+      // Size the projection and offscreen targets to the canvas
+      this.updateViewport(this.gl.canvas.width, this.gl.canvas.height);
       
       console.log('Render Engine initialized successfully');
     } catch (error) {
@@ -47,177 +261,83 @@ export default class RenderEngine {
     }
   }
   
-  private createShaderProgram(): WebGLProgram | null {
-    const vertexShaderSource = `#version 300 es
-      precision highp float;
-      
-      in vec3 aPosition;
-      in vec3 aNormal;
-      in vec2 aTexCoord;
-      
-      uniform mat4 uModelMatrix;
-      uniform mat4 uViewMatrix;
-      uniform mat4 uProjectionMatrix;
-      uniform float uTime;
-      
-      out vec3 vNormal;
-      out vec2 vTexCoord;
-      out vec3 vWorldPos;
-      out float vTime;
-      
-      void main() {
-        vec4 worldPos = uModelMatrix * vec4(aPosition, 1.0);
-        vWorldPos = worldPos.xyz;
-        vNormal = normalize((uModelMatrix * vec4(aNormal, 0.0)).xyz);
-        vTexCoord = aTexCoord;
-        vTime = uTime;
-        
-        gl_Position = uProjectionMatrix * uViewMatrix * worldPos;
-      }
-    `;
-    
-    const fragmentShaderSource = `#version 300 es
-      precision highp float;
-      
-      in vec3 vNormal;
-      in vec2 vTexCoord;
-      in vec3 vWorldPos;
-      in float vTime;
-      
-      uniform bool uCloakingActive;
-      uniform float uCloakingIntegrity;
-      uniform float uPlasmaIntensity;
-      
-      out vec4 fragColor;
-      
-      // Simple noise function for plasma effects
-      float noise(vec2 p) {
-        return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
-      }
-      
-      // Plasma ring shader
-      vec3 plasmaEffect(vec3 pos, float intensity) {
-        float ringDist = length(pos.xz);
-        float ringMask = smoothstep(0.8, 1.0, ringDist) * smoothstep(1.2, 1.0, ringDist);
-        
-        float plasmaFlow = sin(vTime * 10.0 + ringDist * 20.0) * 0.5 + 0.5;
-        vec3 plasmaColor = mix(vec3(0.0, 0.5, 1.0), vec3(0.5, 0.0, 1.0), plasmaFlow);
-        
-        return plasmaColor * ringMask * intensity;
-      }
-      
-      // Cloaking shimmer effect
-      vec3 cloakingShimmer(vec3 baseColor, vec3 worldPos, float integrity) {
-        float shimmer = noise(worldPos.xy * 5.0 + vTime * 2.0);
-        shimmer = smoothstep(0.3, 0.7, shimmer);
-        
-        vec3 refraction = vec3(0.1, 0.2, 0.3) * (1.0 - integrity);
-        return mix(baseColor + refraction, baseColor * 0.1, shimmer * (1.0 - integrity));
-      }
-      
-      void main() {
-        vec3 baseColor = vec3(0.1, 0.1, 0.15);
-        
-        // Add plasma ring effects
-        vec3 plasmaColor = plasmaEffect(vWorldPos, uPlasmaIntensity);
-        baseColor += plasmaColor;
-        
-        // Apply cloaking effects
-        if (uCloakingActive) {
-          baseColor = cloakingShimmer(baseColor, vWorldPos, uCloakingIntegrity);
-          
-          // Reduce opacity based on cloaking integrity
-          fragColor = vec4(baseColor, uCloakingIntegrity * 0.3 + 0.1);
-        } else {
-          // Add normal lighting
-          vec3 lightDir = normalize(vec3(1.0, 1.0, 1.0));
-          float NdotL = max(dot(vNormal, lightDir), 0.0);
-          baseColor *= (0.3 + 0.7 * NdotL);
-          
-          fragColor = vec4(baseColor, 1.0);
-        }
-      }
-    `;
-    
-    try {
-      const vertexShader = this.compileShader(vertexShaderSource, this.gl.VERTEX_SHADER);
-      const fragmentShader = this.compileShader(fragmentShaderSource, this.gl.FRAGMENT_SHADER);
-      
-      if (!vertexShader || !fragmentShader) {
-        return null;
-      }
-      
-      const program = this.gl.createProgram();
-      if (!program) return null;
-      
-      this.gl.attachShader(program, vertexShader);
-      this.gl.attachShader(program, fragmentShader);
-      this.gl.linkProgram(program);
-      
-      if (!this.gl.getProgramParameter(program, this.gl.LINK_STATUS)) {
-        console.error('Shader program linking failed:', this.gl.getProgramInfoLog(program));
-        return null;
-      }
-      
-      // Clean up shaders
-      this.gl.deleteShader(vertexShader);
-      this.gl.deleteShader(fragmentShader);
-      
-      return program;
-    } catch (error) {
-      console.error('Shader program creation failed:', error);
-      return null;
+  // Each URL is fetched and uploaded once
+  loadModel(url: string): Promise<Model> {
+    let model = this.models.get(url);
+    if (!model) {
+      model = this.loader.load(url);
+      this.models.set(url, model);
+      // Let a failed load be retried later
+      model.catch(() => this.models.delete(url));
     }
+    return model;
   }
   
-  private compileShader(source: string, type: number): WebGLShader | null {
-    const shader = this.gl.createShader(type);
-    if (!shader) return null;
-    
-    this.gl.shaderSource(shader, source);
-    this.gl.compileShader(shader);
-    
-    if (!this.gl.getShaderParameter(shader, this.gl.COMPILE_STATUS)) {
-      console.error('Shader compilation failed:', this.gl.getShaderInfoLog(shader));
-      this.gl.deleteShader(shader);
-      return null;
-    }
-    
-    return shader;
+  updateViewport(width: number, height: number): void {
+    this.gl.viewport(0, 0, width, height);
+    this.viewportSize.set([width, height]);
+    this.postProcessor?.resize(width, height);
+    this.updateDefines();
+    this.updateProjectionMatrix();
   }
   
-  private createGeometry(): void {
-    // Create simple triangle geometry for testing
-    const vertices = new Float32Array([
-      // Position (x,y,z), Normal (x,y,z), TexCoord (u,v)
-       0.0,  0.5,  0.0,   0.0,  0.0,  1.0,   0.5, 1.0,
-      -0.5, -0.5,  0.0,   0.0,  0.0,  1.0,   0.0, 0.0,
-       0.5, -0.5,  0.0,   0.0,  0.0,  1.0,   1.0, 0.0,
-    ]);
-    
-    const indices = new Uint16Array([0, 1, 2]);
-    
-    // Create vertex buffer
-    this.vertexBuffer = this.gl.createBuffer();
-    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.vertexBuffer);
-    this.gl.bufferData(this.gl.ARRAY_BUFFER, vertices, this.gl.STATIC_DRAW);
-    
-    // Create index buffer
-    this.indexBuffer = this.gl.createBuffer();
-    this.gl.bindBuffer(this.gl.ELEMENT_ARRAY_BUFFER, this.indexBuffer);
-    this.gl.bufferData(this.gl.ELEMENT_ARRAY_BUFFER, indices, this.gl.STATIC_DRAW);
+  setPostProcessing(settings: PostProcessSettings): void {
+    this.postSettings = settings;
+    this.postProcessor?.setSettings(settings);
+    this.updateDefines();
   }
   
-  updateViewport(width: number, height: number): void {
-    this.gl.viewport(0, 0, width, height);
-    this.updateProjectionMatrix();
+  // Scene brightness ahead of tone mapping; environments set their own on load
+  setExposure(exposure: number): void {
+    this.exposure = exposure;
+    this.postProcessor?.setExposure(exposure);
+  }
+  
+  setShadows(settings: ShadowSettings): void {
+    this.shadowSettings = settings;
+    this.shadows?.setSettings(settings);
+    this.updateDefines();
+  }
+  
+  // Share of every emitter's full particle capacity
+  setParticleBudget(budget: number): void {
+    this.particleBudget = budget;
+    this.particles?.setBudget(budget);
+  }
+  
+  // Node sizes from the viewer at which terrain chunks split
+  setTerrainLodDistance(splitDistance: number): void {
+    this.terrainLodDistance = splitDistance;
+    this.terrain?.setLodDistance(splitDistance);
+  }
+  
+  // Post-processing, shadows, particles and terrain detail from one level's presets
+  setQuality(level: QualityLevel): void {
+    this.setPostProcessing(POST_PROCESS_PRESETS[level]);
+    this.setShadows(SHADOW_PRESETS[level]);
+    this.setParticleBudget(PARTICLE_BUDGETS[level]);
+    this.setTerrainLodDistance(TERRAIN_LOD_PRESETS[level]);
+  }
+  
+  // Program variants follow the environment, shadows and the post-processing passes in use
+  private updateDefines(): void {
+    const post = this.postProcessor;
+    this.skyDefines = post?.isHdr() ? [HDR_DEFINE] : [];
+    this.environmentDefines = this.fogDensity > 0 ? [...this.skyDefines, FOG_DEFINE] : [...this.skyDefines];
+    if (this.shadows?.isActive()) {
+      this.environmentDefines.push(SHADOWS_DEFINE, `SHADOW_CASCADES ${this.shadows.getCascadeCount()}`);
+    }
+    this.cloakDefines = [...this.environmentDefines, CLOAK_DEFINE];
+    if (post?.canRefract()) {
+      this.cloakDefines.push(REFRACTION_DEFINE);
+    }
   }
   
   private updateProjectionMatrix(): void {
     const aspect = this.gl.canvas.width / this.gl.canvas.height;
-    const fov = Math.PI / 4; // 45 degrees
-    const near = 0.1;
-    const far = 1000.0;
+    const fov = this.fieldOfView * Math.PI / 180;
+    const near = this.NEAR_PLANE;
+    const far = this.FAR_PLANE;
     
     // Create perspective projection matrix
     const f = Math.tan(Math.PI * 0.5 - 0.5 * fov);
@@ -231,69 +351,386 @@ export default class RenderEngine {
     this.projectionMatrix[14] = near * far * rangeInv * 2;
   }
   
-  render(deltaTime: number, craftTransform: any, systemStates: any): void {
-    if (!this.shaderProgram) return;
+  render(deltaTime: number, craftTransform: Transform, systemStates: SystemState, camera: CameraSystem): void {
+    this.draws.reset();
+    const standard = this.shaders.findProgram(DEFAULT_MATERIAL.shader, this.environmentDefines);
+    if (!standard) return;
     
-    this.gl.useProgram(this.shaderProgram);
+    if (this.profiling) this.gpuTimer?.beginFrame();
     
-    // Update view matrix (simple camera)
-    this.viewMatrix.fill(0);
-    this.viewMatrix[0] = 1; this.viewMatrix[5] = 1; this.viewMatrix[10] = 1; this.viewMatrix[15] = 1;
-    this.viewMatrix[14] = -5; // Move camera back
+    // Camera drives the view and field of view
+    if (camera.getFov() !== this.fieldOfView) {
+      this.fieldOfView = camera.getFov();
+      this.updateProjectionMatrix();
+    }
+    this.viewMatrix.set(camera.getViewMatrix());
+    mat4.multiply(this.viewProjectionMatrix, this.projectionMatrix, this.viewMatrix);
+    vec3.copy(this.cameraPosition, camera.getPosition());
+    this.frameTime = performance.now() * 0.001;
+    this.plasmaIntensity = systemStates.propulsion.plasmaRate;
     
-    // Create model matrix (identity for now)
-    const modelMatrix = new Float32Array(16);
-    modelMatrix.fill(0);
-    modelMatrix[0] = 1; modelMatrix[5] = 1; modelMatrix[10] = 1; modelMatrix[15] = 1;
+    if (this.craftNode) {
+      copyTransform(this.craftNode.transform, craftTransform);
+    }
+    this.craftCloak.active = systemStates.cloaking.active;
+    this.craftCloak.integrity = systemStates.cloaking.integrity;
     
-    // Set uniforms
-    this.gl.uniformMatrix4fv(this.uniformLocations.uModelMatrix, false, modelMatrix);
-    this.gl.uniformMatrix4fv(this.uniformLocations.uViewMatrix, false, this.viewMatrix);
-    this.gl.uniformMatrix4fv(this.uniformLocations.uProjectionMatrix, false, this.projectionMatrix);
-    this.gl.uniform1f(this.uniformLocations.uTime, performance.now() * 0.001);
-    this.gl.uniform1i(this.uniformLocations.uCloakingActive, systemStates.cloaking.active ? 1 : 0);
-    this.gl.uniform1f(this.uniformLocations.uCloakingIntegrity, systemStates.cloaking.integrity);
-    this.gl.uniform1f(this.uniformLocations.uPlasmaIntensity, systemStates.propulsion.plasmaRate);
+    this.scene.update();
     
-    // Bind vertex data
-    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.vertexBuffer);
-    this.gl.bindBuffer(this.gl.ELEMENT_ARRAY_BUFFER, this.indexBuffer);
+    // Particles simulate from the craft's systems and its height above the ground
+    const { position } = craftTransform;
+    this.craftEffects?.update(systemStates, position.y - this.heightAt(position.x, position.z));
+    this.particles?.update(deltaTime);
     
-    // Set vertex attributes
-    const stride = 8 * Float32Array.BYTES_PER_ELEMENT;
-    this.gl.vertexAttribPointer(0, 3, this.gl.FLOAT, false, stride, 0);
-    this.gl.enableVertexAttribArray(0);
-    this.gl.vertexAttribPointer(1, 3, this.gl.FLOAT, false, stride, 3 * Float32Array.BYTES_PER_ELEMENT);
-    this.gl.enableVertexAttribArray(1);
-    this.gl.vertexAttribPointer(2, 2, this.gl.FLOAT, false, stride, 6 * Float32Array.BYTES_PER_ELEMENT);
-    this.gl.enableVertexAttribArray(2);
+    this.renderQueue.clear();
+    this.sky?.update(this.viewMatrix, this.projectionMatrix, this.cameraPosition);
+    this.terrain?.update(camera.getPosition());
+    this.scene.submit(this.renderQueue, camera.getPosition());
+    this.renderQueue.sort();
     
-    // Enable blending for cloaking effects
-    if (systemStates.cloaking.active) {
+    // Shadow maps first, as they replace the framebuffer and viewport
+    if (this.shadows?.isActive()) {
+      const aspect = this.viewportSize[0] / this.viewportSize[1];
+      this.shadows.update(this.viewMatrix, this.cameraPosition, this.fieldOfView * Math.PI / 180, aspect, this.NEAR_PLANE);
+      this.shadows.render(this.terrain, this.city, this.renderQueue, this.cameraPosition);
+      this.shadows.bindTexture(SHADOW_MAP_UNIT);
+      this.gl.viewport(0, 0, this.viewportSize[0], this.viewportSize[1]);
+    }
+    
+    // Uniforms are re-sent whenever a program is bound
+    this.activeProgram = null;
+    this.activeMaterial = null;
+    
+    // Offscreen when post-processing, otherwise straight onto the canvas the game engine cleared
+    const post = this.postProcessor?.isActive() ? this.postProcessor : null;
+    post?.beginScene(this.skyColor);
+    
+    this.drawSky();
+    this.gl.disable(this.gl.BLEND);
+    this.drawTerrain();
+    this.drawCity();
+    this.drawItems(this.renderQueue.opaque);
+    
+    // Cloaked and translucent objects blend over the finished opaque scene
+    if (this.renderQueue.transparent.length > 0) {
+      // Refracting cloaks sample the opaque scene behind them
+      if (post?.canRefract() && this.renderQueue.transparent.some(item => item.cloak?.active)) {
+        this.gl.activeTexture(this.gl.TEXTURE0 + SCENE_COLOR_UNIT);
+        this.gl.bindTexture(this.gl.TEXTURE_2D, post.captureScene());
+        this.gl.activeTexture(this.gl.TEXTURE0);
+      }
+      
       this.gl.enable(this.gl.BLEND);
       this.gl.blendFunc(this.gl.SRC_ALPHA, this.gl.ONE_MINUS_SRC_ALPHA);
-    } else {
+      this.gl.depthMask(false);
+      this.drawItems(this.renderQueue.transparent);
+      this.gl.depthMask(true);
       this.gl.disable(this.gl.BLEND);
     }
     
-    // Draw the geometry
-    this.gl.drawElements(this.gl.TRIANGLES, 3, this.gl.UNSIGNED_SHORT, 0);
+    this.drawBeacons();
+    this.drawParticles();
+    this.gl.enable(this.gl.CULL_FACE);
+    post?.finish();
+    this.gpuTimer?.endFrame();
+  }
+  
+  // Depth stays untouched so everything else draws over the sky
+  private drawSky(): void {
+    const skyProgram = this.shaders.findProgram(SKY_SHADER, this.skyDefines);
+    const starProgram = this.shaders.findProgram(STAR_SHADER);
+    const bodyProgram = this.shaders.findProgram(CELESTIAL_BODY_SHADER);
+    if (!this.sky || !skyProgram || !starProgram || !bodyProgram) return;
+    
+    this.gl.disable(this.gl.DEPTH_TEST);
+    this.gl.disable(this.gl.CULL_FACE);
+    this.gl.disable(this.gl.BLEND);
+    this.bindProgram(skyProgram);
+    this.sky.drawBackground(skyProgram.uniforms);
+    
+    this.gl.enable(this.gl.BLEND);
+    this.gl.blendFunc(this.gl.ONE, this.gl.ONE);
+    this.bindProgram(starProgram);
+    this.sky.drawStars(starProgram.uniforms);
+    
+    this.gl.blendFunc(this.gl.SRC_ALPHA, this.gl.ONE_MINUS_SRC_ALPHA);
+    this.bindProgram(bodyProgram);
+    this.sky.drawBodies(bodyProgram.uniforms);
+    
+    this.gl.enable(this.gl.DEPTH_TEST);
   }
   
-  loadEnvironment(environment: string): void {
-    console.log(`Loading environment: ${environment}`);
-    // Load environment-specific assets and lighting
+  private drawTerrain(): void {
+    const program = this.shaders.findProgram(TERRAIN_SHADER, this.environmentDefines);
+    if (!this.terrain || !program) return;
+    
+    this.bindProgram(program);
+    this.gl.uniform3fv(program.uniforms.uGroundColor, this.groundColor);
+    this.gl.enable(this.gl.CULL_FACE);
+    this.terrain.draw(program.uniforms, this.viewProjectionMatrix);
   }
   
-  cleanup(): void {
-    if (this.shaderProgram) {
-      this.gl.deleteProgram(this.shaderProgram);
+  private drawCity(): void {
+    const program = this.shaders.findProgram(CITY_SHADER, this.environmentDefines);
+    if (!this.city?.hasCity() || !program) return;
+    
+    this.bindProgram(program);
+    this.gl.enable(this.gl.CULL_FACE);
+    this.city.drawBuildings(program.uniforms, this.viewProjectionMatrix, this.cameraPosition);
+  }
+  
+  // Rooftop lights only add, like emissive particles
+  private drawBeacons(): void {
+    const program = this.shaders.findProgram(CITY_BEACON_SHADER, this.environmentDefines);
+    if (!this.city?.hasCity() || !program) return;
+    
+    this.bindProgram(program);
+    this.gl.disable(this.gl.CULL_FACE);
+    this.gl.enable(this.gl.BLEND);
+    this.gl.blendFunc(this.gl.ONE, this.gl.ONE_MINUS_SRC_ALPHA);
+    this.gl.depthMask(false);
+    this.city.drawBeacons(program.uniforms, this.viewProjectionMatrix, this.cameraPosition);
+    this.gl.depthMask(true);
+    this.gl.disable(this.gl.BLEND);
+  }
+  
+  // Premultiplied: lit dust blends, emissive sparks and ions only add
+  private drawParticles(): void {
+    const program = this.shaders.findProgram(PARTICLE_SHADER, this.environmentDefines);
+    if (!this.particles?.hasEmitters() || !program) return;
+    
+    this.bindProgram(program);
+    this.gl.disable(this.gl.CULL_FACE);
+    this.gl.enable(this.gl.BLEND);
+    this.gl.blendFunc(this.gl.ONE, this.gl.ONE_MINUS_SRC_ALPHA);
+    this.gl.depthMask(false);
+    this.particles.draw(program.uniforms);
+    this.gl.depthMask(true);
+    this.gl.disable(this.gl.BLEND);
+  }
+  
+  private drawItems(items: DrawItem[]): void {
+    for (const item of items) {
+      const { material } = item.primitive;
+      
+      // Unknown or broken shader keys fall back to the standard program
+      const defines = item.cloak?.active ? this.cloakDefines : this.environmentDefines;
+      const program = this.shaders.findProgram(material.shader, defines)
+        ?? this.shaders.findProgram(DEFAULT_MATERIAL.shader, defines);
+      if (!program) continue;
+      if (program !== this.activeProgram) {
+        this.bindProgram(program);
+      }
+      const { uniforms } = program;
+      
+      if (material !== this.activeMaterial) {
+        this.activeMaterial = material;
+        this.gl.uniform4fv(uniforms.uBaseColor, material.baseColor);
+        this.gl.uniform3fv(uniforms.uEmissive, material.emissive);
+        if (material.doubleSided) {
+          this.gl.disable(this.gl.CULL_FACE);
+        } else {
+          this.gl.enable(this.gl.CULL_FACE);
+        }
+      }
+      
+      this.gl.uniformMatrix4fv(uniforms.uModelMatrix, false, item.worldMatrix);
+      this.gl.uniform1f(uniforms.uCloakingIntegrity, item.cloak?.integrity ?? 1);
+      drawMeshPrimitive(this.gl, item.primitive);
     }
-    if (this.vertexBuffer) {
-      this.gl.deleteBuffer(this.vertexBuffer);
+  }
+  
+  private bindProgram(program: ShaderProgram): void {
+    const { uniforms } = program;
+    this.gl.useProgram(program.program);
+    this.gl.uniformMatrix4fv(uniforms.uViewMatrix, false, this.viewMatrix);
+    this.gl.uniformMatrix4fv(uniforms.uProjectionMatrix, false, this.projectionMatrix);
+    this.gl.uniform1f(uniforms.uTime, this.frameTime);
+    this.gl.uniform1f(uniforms.uPlasmaIntensity, this.plasmaIntensity);
+    this.gl.uniform3fv(uniforms.uCameraPosition, this.cameraPosition);
+    this.gl.uniform3fv(uniforms.uAmbientColor, this.ambientColor);
+    this.gl.uniform3fv(uniforms.uSunDirection, this.sunDirection);
+    this.gl.uniform3fv(uniforms.uSunColor, this.sunRadiance);
+    this.gl.uniform3fv(uniforms.uFogColor, this.fogColor);
+    this.gl.uniform1f(uniforms.uFogDensity, this.fogDensity);
+    this.gl.uniform1i(uniforms.uSceneColor, SCENE_COLOR_UNIT);
+    this.gl.uniform2fv(uniforms.uViewportSize, this.viewportSize);
+    this.gl.uniform1i(uniforms.uShadowMap, SHADOW_MAP_UNIT);
+    this.shadows?.applyUniforms(uniforms);
+    this.activeProgram = program;
+    this.activeMaterial = null;
+  }
+  
+  private createPropMeshes(): void {
+    const meshes: [string, MeshData, Material][] = [
+      ['radar-base', createBox(8, 3, 8), CONCRETE],
+      ['radar-mast', createCylinder(0.8, 14), STEEL],
+      ['radar-dish', createSphere(1, 8, 16), STEEL],
+      ['radar-light', createSphere(0.5, 6, 8), WARNING_LIGHT],
+      ['hangar', createBox(14, 6, 22), HANGAR],
+      ['beacon-pole', createCylinder(0.3, 6, 8), STEEL],
+      ['beacon-light', createSphere(0.7, 6, 8), BEACON_LIGHT]
+    ];
+    for (const [name, data, material] of meshes) {
+      this.propMeshes.set(name, { name, primitives: [createMeshPrimitive(this.gl, data, material)] });
+    }
+  }
+  
+  private propNode(name: string, mesh: string): SceneNode {
+    return new SceneNode(name, this.propMeshes.get(mesh) ?? null);
+  }
+  
+  private createProp(placement: PropPlacement, index: number): SceneNode {
+    const prop = new SceneNode(`${placement.kind}-${index}`);
+    switch (placement.kind) {
+      case 'radar-site':
+        prop.add(this.propNode('base', 'radar-base').setPosition(0, 1.5, 0));
+        prop.add(this.propNode('mast', 'radar-mast').setPosition(0, 3, 0));
+        prop.add(this.propNode('dish', 'radar-dish').setPosition(0, 17.5, 0).setScale(5, 1.2, 5));
+        prop.add(this.propNode('light', 'radar-light').setPosition(0, 19, 0));
+        break;
+      case 'target':
+        prop.add(this.propNode('hangar', 'hangar').setPosition(0, 3, 0));
+        break;
+      case 'beacon':
+        prop.add(this.propNode('pole', 'beacon-pole'));
+        prop.add(this.propNode('light', 'beacon-light').setPosition(0, 6.5, 0));
+        break;
+    }
+    return prop;
+  }
+  
+  // Props sit on the ground at heights given by the physics terrain
+  loadEnvironment(environment: EnvironmentDescriptor, heightAt: (x: number, z: number) => number = () => 0): void {
+    console.log(`Loading environment: ${environment.name}`);
+    this.environment = environment;
+    
+    const { lighting, fog, sky, terrain } = environment;
+    this.skyColor = lighting.skyColor;
+    this.ambientColor = lighting.ambientColor;
+    const { x, y, z } = lighting.sunDirection;
+    vec3.normalize(this.sunDirection, vec3.fromValues(x, y, z));
+    vec3.scale(this.sunRadiance, vec3.fromValues(...lighting.sunColor), lighting.sunIntensity);
+    this.shadows?.setLightDirection(this.sunDirection);
+    this.fogColor = fog ? fog.color : lighting.skyColor;
+    this.fogDensity = fog ? fog.density : 0;
+    this.setExposure(lighting.exposure);
+    this.updateDefines();
+    
+    const { gravity, atmosphere } = environment.physics;
+    this.heightAt = heightAt;
+    this.particles?.setEnvironment(gravity, atmosphere ? atmosphere.seaLevelDensity / this.SEA_LEVEL_DENSITY : 0, heightAt);
+    
+    this.sky?.setSky(sky, environment.physics.atmosphere, lighting.skyColor);
+    
+    this.groundColor = terrain.color;
+    this.craftEffects?.setGroundColor(terrain.color);
+    this.terrain?.setTerrain(terrain);
+    this.city?.setCity(createCity(environment), environment.city);
+    
+    if (this.environmentRoot) {
+      this.scene.remove(this.environmentRoot);
+    }
+    this.environmentRoot = this.scene.add(new SceneNode(`environment:${environment.id}`));
+    environment.props.forEach((placement, index) => {
+      const prop = this.createProp(placement, index)
+        .setPosition(placement.x, heightAt(placement.x, placement.z), placement.z)
+        .setYaw(placement.yaw ?? 0);
+      this.environmentRoot!.add(prop);
+    });
+  }
+  
+  getEnvironment(): EnvironmentDescriptor | null {
+    return this.environment;
+  }
+  
+  // The current environment's props, in placement order
+  getPropNodes(): SceneNode[] {
+    return this.environmentRoot ? [...this.environmentRoot.children] : [];
+  }
+  
+  // Clear colour behind the sky
+  getSkyColor(): Color3 {
+    return this.skyColor;
+  }
+  
+  // Live GPU objects by kind, whoever in the renderer created them
+  getGpuResourceCounts(): { [kind in GpuResourceKind]: number } {
+    return this.resources.counts();
+  }
+  
+  // GPU frame timing costs a query per frame, so it only runs when asked for
+  setProfiling(enabled: boolean): void {
+    this.profiling = enabled;
+  }
+  
+  // Counters for the last frame rendered
+  getFrameStatistics(): Pick<PerformanceSample, 'gpuTime' | 'drawCalls' | 'triangles' | 'bufferMemory' | 'terrainChunks' | 'buildings'> {
+    return {
+      gpuTime: this.profiling ? this.gpuTimer?.getTime() ?? null : null,
+      drawCalls: this.draws.getCalls(),
+      triangles: this.draws.getTriangles(),
+      bufferMemory: this.resources.bufferBytes(),
+      terrainChunks: this.terrain?.getDrawnChunkCount() ?? 0,
+      buildings: this.city?.getDrawnBuildingCount() ?? 0
+    };
+  }
+  
+  // GPU and driver, where the browser exposes them
+  getRendererDescription(): string {
+    const debugInfo = this.gl.getExtension('WEBGL_debug_renderer_info');
+    return this.gl.getParameter(debugInfo ? debugInfo.UNMASKED_RENDERER_WEBGL : this.gl.RENDERER) ?? 'unknown';
+  }
+  
+  // Every GPU object went with the context: release our side of them and stop drawing until restored
+  async handleContextLost(): Promise<void> {
+    const models = [...this.models.values()];
+    this.cleanup();
+    // Models are released once their loads settle
+    await Promise.allSettled(models);
+    const leaked = Object.entries(this.resources.counts()).filter(([, count]) => count > 0);
+    if (leaked.length > 0) {
+      console.warn(`GPU objects not released on context loss: ${leaked.map(([kind, count]) => `${count} ${kind}`).join(', ')}`);
+    }
+    this.resources.forget();
+  }
+  
+  // Rebuild programs, targets, meshes and terrain on the new context, then put the environment back
+  async restore(): Promise<void> {
+    this.shaders = new ShaderLibrary(this.gl);
+    await this.initialize();
+    if (this.environment) {
+      this.loadEnvironment(this.environment, this.heightAt);
+    }
+  }
+  
+  cleanup(): void {
+    this.gpuTimer?.cleanup();
+    this.gpuTimer = null;
+    this.postProcessor?.cleanup();
+    this.postProcessor = null;
+    this.shadows?.cleanup();
+    this.shadows = null;
+    this.craftEffects = null;
+    this.particles?.cleanup();
+    this.particles = null;
+    this.shaders.cleanup();
+    for (const model of this.models.values()) {
+      model.then(loaded => deleteModel(this.gl, loaded), () => undefined);
     }
-    if (this.indexBuffer) {
-      this.gl.deleteBuffer(this.indexBuffer);
+    this.models.clear();
+    for (const mesh of this.propMeshes.values()) {
+      mesh.primitives.forEach(primitive => deleteMeshPrimitive(this.gl, primitive));
     }
+    this.propMeshes.clear();
+    this.sky?.cleanup();
+    this.sky = null;
+    this.terrain?.cleanup();
+    this.terrain = null;
+    this.city?.cleanup();
+    this.city = null;
+    this.scene = new SceneGraph();
+    this.craftNode = null;
+    this.environmentRoot = null;
   }
 }
\ No newline at end of file
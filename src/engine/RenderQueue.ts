@@ -0,0 +1,57 @@
+import { mat4 } from 'gl-matrix';
+import { Material, MeshPrimitive } from './Mesh';
+import { CloakState } from './SceneGraph';
+
+export interface DrawItem {
+  primitive: MeshPrimitive;
+  worldMatrix: mat4;
+  cloak: CloakState | null;
+  // Squared distance from the camera
+  depth: number;
+}
+
+// Stable sort keys for materials, assigned on first sight
+const materialIds = new WeakMap<Material, number>();
+let nextMaterialId = 0;
+
+function materialId(material: Material): number {
+  let id = materialIds.get(material);
+  if (id === undefined) {
+    id = nextMaterialId++;
+    materialIds.set(material, id);
+  }
+  return id;
+}
+
+export default class RenderQueue {
+  // Drawn first, grouped to minimise program and material switches
+  readonly opaque: DrawItem[] = [];
+  // Drawn after everything opaque, back to front, so blending sees what lies behind
+  readonly transparent: DrawItem[] = [];
+
+  clear(): void {
+    this.opaque.length = 0;
+    this.transparent.length = 0;
+  }
+
+  push(primitive: MeshPrimitive, worldMatrix: mat4, cloak: CloakState | null, depth: number): void {
+    const item: DrawItem = { primitive, worldMatrix, cloak, depth };
+    if (cloak?.active || primitive.material.alphaMode === 'BLEND') {
+      this.transparent.push(item);
+    } else {
+      this.opaque.push(item);
+    }
+  }
+
+  sort(): void {
+    this.opaque.sort((a, b) => {
+      const shaderOrder = a.primitive.material.shader.localeCompare(b.primitive.material.shader);
+      if (shaderOrder !== 0) return shaderOrder;
+      const materialOrder = materialId(a.primitive.material) - materialId(b.primitive.material);
+      if (materialOrder !== 0) return materialOrder;
+      // Front to back within a material helps early depth rejection
+      return a.depth - b.depth;
+    });
+    this.transparent.sort((a, b) => b.depth - a.depth);
+  }
+}
@@ -0,0 +1,134 @@
+import { mat3, quat, vec3 } from 'gl-matrix';
+import { Vector3 } from '../types/GameTypes';
+
+export default class RigidBody {
+  public mass = 1;
+  public inverseMass = 1;
+  public inertiaTensor = mat3.create();
+  public inverseInertiaTensor = mat3.create();
+
+  // World-space linear state, body-space angular velocity
+  public position = vec3.create();
+  public velocity = vec3.create();
+  public orientation = quat.create();
+  public angularVelocity = vec3.create();
+
+  // Forces accumulate in world space, torques in body space
+  private forceAccumulator = vec3.create();
+  private torqueAccumulator = vec3.create();
+
+  // Scratch vectors reused every step
+  private scratchA = vec3.create();
+  private scratchB = vec3.create();
+  private spin = quat.create();
+
+  constructor(mass: number, inertia: Vector3) {
+    this.setMass(mass);
+    this.setInertia(inertia);
+  }
+
+  setMass(mass: number): void {
+    this.mass = mass;
+    this.inverseMass = mass > 0 ? 1 / mass : 0;
+  }
+
+  setInertia(inertia: Vector3): void {
+    mat3.set(this.inertiaTensor,
+      inertia.x, 0, 0,
+      0, inertia.y, 0,
+      0, 0, inertia.z
+    );
+    mat3.invert(this.inverseInertiaTensor, this.inertiaTensor);
+  }
+
+  addForce(force: vec3): void {
+    vec3.add(this.forceAccumulator, this.forceAccumulator, force);
+  }
+
+  addRelativeForce(force: vec3): void {
+    vec3.transformQuat(this.scratchA, force, this.orientation);
+    vec3.add(this.forceAccumulator, this.forceAccumulator, this.scratchA);
+  }
+
+  // Body-space force applied at a body-space point, producing both force and torque
+  addForceAtBodyPoint(force: vec3, point: vec3): void {
+    this.addRelativeForce(force);
+    vec3.cross(this.scratchB, point, force);
+    vec3.add(this.torqueAccumulator, this.torqueAccumulator, this.scratchB);
+  }
+
+  addTorque(torque: vec3): void {
+    vec3.add(this.torqueAccumulator, this.torqueAccumulator, torque);
+  }
+
+  localToWorld(out: vec3, direction: vec3): vec3 {
+    return vec3.transformQuat(out, direction, this.orientation);
+  }
+
+  worldToLocal(out: vec3, direction: vec3): vec3 {
+    const inverse = quat.invert(this.spin, this.orientation);
+    return vec3.transformQuat(out, direction, inverse);
+  }
+
+  // Velocity of a point given relative to the centre of mass in world space
+  getPointVelocity(out: vec3, relativePoint: vec3): vec3 {
+    const worldAngular = this.localToWorld(this.scratchA, this.angularVelocity);
+    vec3.cross(out, worldAngular, relativePoint);
+    return vec3.add(out, out, this.velocity);
+  }
+
+  // Instantaneous world-space impulse applied at a world-space offset from the centre of mass
+  applyImpulse(impulse: vec3, relativePoint: vec3): void {
+    vec3.scaleAndAdd(this.velocity, this.velocity, impulse, this.inverseMass);
+
+    const angularImpulse = vec3.cross(this.scratchA, relativePoint, impulse);
+    this.worldToLocal(angularImpulse, angularImpulse);
+    vec3.transformMat3(angularImpulse, angularImpulse, this.inverseInertiaTensor);
+    vec3.add(this.angularVelocity, this.angularVelocity, angularImpulse);
+  }
+
+  // Inverse of the mass felt by an impulse along a direction at a point
+  getInverseMassAt(relativePoint: vec3, direction: vec3): number {
+    const axis = vec3.cross(this.scratchA, relativePoint, direction);
+    this.worldToLocal(axis, axis);
+    vec3.transformMat3(axis, axis, this.inverseInertiaTensor);
+    this.localToWorld(axis, axis);
+    const response = vec3.cross(this.scratchB, axis, relativePoint);
+    return this.inverseMass + vec3.dot(response, direction);
+  }
+
+  integrate(deltaTime: number): void {
+    // Semi-implicit Euler: velocities first, then positions from the new velocities
+    vec3.scaleAndAdd(this.velocity, this.velocity, this.forceAccumulator, this.inverseMass * deltaTime);
+    vec3.scaleAndAdd(this.position, this.position, this.velocity, deltaTime);
+
+    // Euler's rotation equation in body space: I·dω/dt = τ - ω × (I·ω)
+    const angularMomentum = vec3.transformMat3(this.scratchA, this.angularVelocity, this.inertiaTensor);
+    const gyroscopic = vec3.cross(this.scratchB, this.angularVelocity, angularMomentum);
+    vec3.subtract(gyroscopic, this.torqueAccumulator, gyroscopic);
+    const angularAcceleration = vec3.transformMat3(gyroscopic, gyroscopic, this.inverseInertiaTensor);
+    vec3.scaleAndAdd(this.angularVelocity, this.angularVelocity, angularAcceleration, deltaTime);
+
+    // q' = q + ½·q·ω·dt with ω in body space
+    quat.set(this.spin, this.angularVelocity[0], this.angularVelocity[1], this.angularVelocity[2], 0);
+    quat.multiply(this.spin, this.orientation, this.spin);
+    this.orientation[0] += this.spin[0] * 0.5 * deltaTime;
+    this.orientation[1] += this.spin[1] * 0.5 * deltaTime;
+    this.orientation[2] += this.spin[2] * 0.5 * deltaTime;
+    this.orientation[3] += this.spin[3] * 0.5 * deltaTime;
+    quat.normalize(this.orientation, this.orientation);
+
+    this.clearAccumulators();
+  }
+
+  clearAccumulators(): void {
+    vec3.zero(this.forceAccumulator);
+    vec3.zero(this.torqueAccumulator);
+  }
+
+  reset(): void {
+    vec3.zero(this.velocity);
+    vec3.zero(this.angularVelocity);
+    this.clearAccumulators();
+  }
+}
@@ -0,0 +1,158 @@
+import { mat4, quat, vec3 } from 'gl-matrix';
+import { Transform } from '../types/GameTypes';
+import { createTransform } from './TransformUtils';
+import { Mesh, Model, ModelNode } from './Mesh';
+import RenderQueue from './RenderQueue';
+
+// Shared with whatever drives the cloak, so the scene sees changes without copying
+export interface CloakState {
+  active: boolean;
+  integrity: number;
+}
+
+export class SceneNode {
+  readonly name: string;
+  readonly transform: Transform = createTransform();
+  readonly children: SceneNode[] = [];
+  readonly worldMatrix = mat4.create();
+  parent: SceneNode | null = null;
+
+  mesh: Mesh | null;
+  visible = true;
+  // Applies to the whole subtree unless a child sets its own
+  cloak: CloakState | null = null;
+
+  constructor(name: string, mesh: Mesh | null = null) {
+    this.name = name;
+    this.mesh = mesh;
+  }
+
+  add(child: SceneNode): SceneNode {
+    if (child.parent) {
+      child.parent.remove(child);
+    }
+    child.parent = this;
+    this.children.push(child);
+    return child;
+  }
+
+  remove(child: SceneNode): void {
+    const index = this.children.indexOf(child);
+    if (index !== -1) {
+      this.children.splice(index, 1);
+      child.parent = null;
+    }
+  }
+
+  // Depth-first search of this subtree
+  find(name: string): SceneNode | null {
+    if (this.name === name) return this;
+    for (const child of this.children) {
+      const found = child.find(name);
+      if (found) return found;
+    }
+    return null;
+  }
+
+  setPosition(x: number, y: number, z: number): SceneNode {
+    this.transform.position = { x, y, z };
+    return this;
+  }
+
+  // Heading in radians, positive turns left like the craft's yaw
+  setYaw(radians: number): SceneNode {
+    this.transform.rotation = { x: 0, y: Math.sin(radians / 2), z: 0, w: Math.cos(radians / 2) };
+    return this;
+  }
+
+  setScale(x: number, y = x, z = x): SceneNode {
+    this.transform.scale = { x, y, z };
+    return this;
+  }
+
+  updateWorldMatrix(parentMatrix: mat4 | null): void {
+    const { position, rotation, scale } = this.transform;
+    mat4.fromRotationTranslationScale(
+      this.worldMatrix,
+      quat.fromValues(rotation.x, rotation.y, rotation.z, rotation.w),
+      vec3.fromValues(position.x, position.y, position.z),
+      vec3.fromValues(scale.x, scale.y, scale.z)
+    );
+    if (parentMatrix) {
+      mat4.multiply(this.worldMatrix, parentMatrix, this.worldMatrix);
+    }
+
+    for (const child of this.children) {
+      child.updateWorldMatrix(this.worldMatrix);
+    }
+  }
+}
+
+function createNodeFromModelNode(source: ModelNode): SceneNode {
+  const node = new SceneNode(source.name, source.mesh);
+
+  const translation = mat4.getTranslation(vec3.create(), source.localMatrix);
+  const rotation = mat4.getRotation(quat.create(), source.localMatrix);
+  const scale = mat4.getScaling(vec3.create(), source.localMatrix);
+  node.transform.position = { x: translation[0], y: translation[1], z: translation[2] };
+  node.transform.rotation = { x: rotation[0], y: rotation[1], z: rotation[2], w: rotation[3] };
+  node.transform.scale = { x: scale[0], y: scale[1], z: scale[2] };
+
+  for (const child of source.children) {
+    node.add(createNodeFromModelNode(child));
+  }
+  return node;
+}
+
+// Wrap a loaded model's hierarchy under one node that can be placed in the world.
+// Meshes are shared, so the same model can be instantiated many times.
+export function createNodeFromModel(name: string, model: Model): SceneNode {
+  const node = new SceneNode(name);
+  for (const root of model.roots) {
+    node.add(createNodeFromModelNode(root));
+  }
+  return node;
+}
+
+export default class SceneGraph {
+  readonly root = new SceneNode('root');
+
+  add(node: SceneNode, parent: SceneNode = this.root): SceneNode {
+    return parent.add(node);
+  }
+
+  remove(node: SceneNode): void {
+    node.parent?.remove(node);
+  }
+
+  find(name: string): SceneNode | null {
+    return this.root.find(name);
+  }
+
+  // Recompute every world matrix from the local transforms
+  update(): void {
+    this.root.updateWorldMatrix(null);
+  }
+
+  // Queue every visible primitive; hidden nodes hide their whole subtree
+  submit(queue: RenderQueue, cameraPosition: vec3): void {
+    this.submitNode(this.root, null, queue, cameraPosition);
+  }
+
+  private submitNode(node: SceneNode, inheritedCloak: CloakState | null, queue: RenderQueue, cameraPosition: vec3): void {
+    if (!node.visible) return;
+
+    const cloak = node.cloak ?? inheritedCloak;
+    if (node.mesh) {
+      const position = mat4.getTranslation(vec3.create(), node.worldMatrix);
+      const depth = vec3.squaredDistance(position, cameraPosition);
+      for (const primitive of node.mesh.primitives) {
+        queue.push(primitive, node.worldMatrix, cloak, depth);
+      }
+    }
+
+    for (const child of node.children) {
+      this.submitNode(child, cloak, queue, cameraPosition);
+    }
+  }
+}
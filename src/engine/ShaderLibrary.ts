@@ -0,0 +1,272 @@
+// Every shader source under src/shaders, by file name
+const sources: Map<string, string> = new Map(
+  Object.entries(import.meta.glob<string>('../shaders/*.{glsl,vert,frag}', { query: '?raw', import: 'default', eager: true }))
+    .map(([path, source]) => [path.slice(path.lastIndexOf('/') + 1), source])
+);
+
+// Libraries to tell when the dev server pushes an edited file
+const reloadListeners: Set<(file: string) => void> = new Set();
+
+if (import.meta.hot) {
+  import.meta.hot.on('shader-update', ({ file, source }: { file: string; source: string }) => {
+    sources.set(file, source);
+    reloadListeners.forEach(listener => listener(file));
+  });
+}
+
+export interface SourceLocation {
+  file: string;
+  line: number; // 1-based; 0 when the problem has no single line
+}
+
+export interface ShaderDiagnostic extends SourceLocation {
+  message: string;
+}
+
+export type ShaderStage = 'preprocess' | 'vertex' | 'fragment' | 'link';
+
+// Compiler output mapped back to the .glsl files it came from
+export class ShaderCompileError extends Error {
+  readonly stage: ShaderStage;
+  readonly file: string;
+  readonly line: number;
+  readonly diagnostics: ShaderDiagnostic[];
+  readonly log: string;
+
+  constructor(stage: ShaderStage, source: string, diagnostics: ShaderDiagnostic[], log = '') {
+    const action = stage === 'vertex' || stage === 'fragment' ? `compile ${stage} shader` : stage;
+    const details = diagnostics.map(({ file, line, message }) => `  ${file}${line > 0 ? `:${line}` : ''}: ${message}`);
+    super(`Failed to ${action} ${source}:\n${details.join('\n')}`);
+    this.name = 'ShaderCompileError';
+    this.stage = stage;
+    this.file = diagnostics[0]?.file ?? source;
+    this.line = diagnostics[0]?.line ?? 0;
+    this.diagnostics = diagnostics;
+    this.log = log;
+  }
+}
+
+export interface PreprocessedShader {
+  source: string;
+  // Original file and line of every line in `source`
+  locations: SourceLocation[];
+}
+
+const INCLUDE_DIRECTIVE = /^\s*#include\s+"([^"]+)"\s*$/;
+
+// Expand #include directives (each file at most once) under a version line and the variant's #defines.
+// Every file read is added to `dependencies`, even when expansion fails, so fixing it can trigger a rebuild.
+export function preprocessShader(
+  file: string,
+  defines: readonly string[],
+  read: (file: string) => string | undefined,
+  dependencies: Set<string> = new Set()
+): PreprocessedShader {
+  const lines = ['#version 300 es', ...defines.map(define => `#define ${define}`)];
+  const locations: SourceLocation[] = lines.map(() => ({ file, line: 0 }));
+  const included = new Set<string>();
+
+  const expand = (name: string, includedFrom: SourceLocation | null) => {
+    if (included.has(name)) return;
+    included.add(name);
+    dependencies.add(name);
+
+    const text = read(name);
+    if (text === undefined) {
+      const location = includedFrom ?? { file: name, line: 0 };
+      throw new ShaderCompileError('preprocess', file, [{ ...location, message: `cannot find "${name}"` }]);
+    }
+
+    text.split('\n').forEach((content, index) => {
+      const location = { file: name, line: index + 1 };
+      const include = INCLUDE_DIRECTIVE.exec(content);
+      if (include) {
+        expand(include[1], location);
+      } else {
+        lines.push(content);
+        locations.push(location);
+      }
+    });
+  };
+
+  expand(file, null);
+  return { source: lines.join('\n'), locations };
+}
+
+// Driver logs look like "ERROR: 0:12: 'foo' : undeclared identifier"
+const LOG_ENTRY = /^(ERROR|WARNING):\s*\d+:(\d+):\s*(.*)$/;
+
+function mapCompileLog(log: string, locations: SourceLocation[], fallbackFile: string): ShaderDiagnostic[] {
+  const diagnostics: ShaderDiagnostic[] = [];
+  for (const entry of log.split('\n')) {
+    const match = LOG_ENTRY.exec(entry.trim());
+    if (!match) continue;
+    const location = locations[Number(match[2]) - 1] ?? { file: fallbackFile, line: 0 };
+    diagnostics.push({ ...location, message: `${match[1].toLowerCase()}: ${match[3]}` });
+  }
+  // Unrecognised log format: keep the whole text rather than lose it
+  if (diagnostics.length === 0) {
+    diagnostics.push({ file: fallbackFile, line: 0, message: log.trim() || 'unknown error' });
+  }
+  return diagnostics;
+}
+
+export interface ShaderDefinition {
+  vertex: string; // file names under src/shaders
+  fragment: string;
+  uniforms: string[];
+  feedback?: string[]; // vertex outputs captured by transform feedback, interleaved
+}
+
+export interface ShaderProgram {
+  program: WebGLProgram;
+  uniforms: { [key: string]: WebGLUniformLocation | null };
+}
+
+interface ProgramVariant {
+  result: ShaderProgram | Error;
+  files: Set<string>; // sources it was built from, for hot reloading
+  reported: boolean;
+}
+
+// Compiles registered shaders on first use, once per combination of #defines
+export default class ShaderLibrary {
+  private gl: WebGL2RenderingContext;
+  private definitions: Map<string, ShaderDefinition> = new Map();
+  private variants: Map<string, ProgramVariant> = new Map();
+  private reloadListener = (file: string) => this.reload(file);
+
+  constructor(gl: WebGL2RenderingContext) {
+    this.gl = gl;
+    reloadListeners.add(this.reloadListener);
+  }
+
+  register(name: string, definition: ShaderDefinition): void {
+    this.definitions.set(name, definition);
+  }
+
+  // Throws the build error, for callers that cannot carry on without the program
+  getProgram(name: string, defines: readonly string[] = []): ShaderProgram {
+    const { result } = this.getVariant(name, defines);
+    if (result instanceof Error) {
+      throw result;
+    }
+    return result;
+  }
+
+  // Per-frame lookup: a broken variant is logged once and then skipped until its sources change
+  findProgram(name: string, defines: readonly string[] = []): ShaderProgram | null {
+    const variant = this.getVariant(name, defines);
+    if (!(variant.result instanceof Error)) {
+      return variant.result;
+    }
+    if (!variant.reported) {
+      variant.reported = true;
+      console.error(variant.result.message);
+    }
+    return null;
+  }
+
+  cleanup(): void {
+    reloadListeners.delete(this.reloadListener);
+    for (const { result } of this.variants.values()) {
+      if (!(result instanceof Error)) {
+        this.gl.deleteProgram(result.program);
+      }
+    }
+    this.variants.clear();
+  }
+
+  private getVariant(name: string, defines: readonly string[]): ProgramVariant {
+    const key = `${name}:${[...defines].sort().join(',')}`;
+    let variant = this.variants.get(key);
+    if (!variant) {
+      const files = new Set<string>();
+      variant = { result: this.build(name, defines, files), files, reported: false };
+      this.variants.set(key, variant);
+    }
+    return variant;
+  }
+
+  private build(name: string, defines: readonly string[], files: Set<string>): ShaderProgram | Error {
+    const definition = this.definitions.get(name);
+    if (!definition) {
+      return new Error(`Unknown shader "${name}"`);
+    }
+
+    const gl = this.gl;
+    const variantName = defines.length > 0 ? ` (${defines.join(', ')})` : '';
+    const read = (file: string) => sources.get(file);
+    const shaders: WebGLShader[] = [];
+
+    try {
+      // Expand both stages before compiling so either file can trigger a rebuild
+      const vertexSource = preprocessShader(definition.vertex, defines, read, files);
+      const fragmentSource = preprocessShader(definition.fragment, defines, read, files);
+      shaders.push(this.compile(gl.VERTEX_SHADER, definition.vertex, variantName, vertexSource));
+      shaders.push(this.compile(gl.FRAGMENT_SHADER, definition.fragment, variantName, fragmentSource));
+
+      const program = gl.createProgram();
+      if (!program) {
+        throw new Error(`Failed to create program for ${name}`);
+      }
+      shaders.forEach(shader => gl.attachShader(program, shader));
+      if (definition.feedback) {
+        gl.transformFeedbackVaryings(program, definition.feedback, gl.INTERLEAVED_ATTRIBS);
+      }
+      gl.linkProgram(program);
+
+      if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+        const log = gl.getProgramInfoLog(program) ?? '';
+        gl.deleteProgram(program);
+        const source = `${definition.vertex} + ${definition.fragment}${variantName}`;
+        throw new ShaderCompileError('link', source, mapCompileLog(log, [], source), log);
+      }
+
+      const uniforms: ShaderProgram['uniforms'] = {};
+      for (const uniform of definition.uniforms) {
+        uniforms[uniform] = gl.getUniformLocation(program, uniform);
+      }
+      return { program, uniforms };
+    } catch (error) {
+      return error instanceof Error ? error : new Error(String(error));
+    } finally {
+      shaders.forEach(shader => gl.deleteShader(shader));
+    }
+  }
+
+  private compile(type: number, file: string, variantName: string, preprocessed: PreprocessedShader): WebGLShader {
+    const gl = this.gl;
+    const shader = gl.createShader(type);
+    if (!shader) {
+      throw new Error(`Failed to create shader for ${file}`);
+    }
+
+    gl.shaderSource(shader, preprocessed.source);
+    gl.compileShader(shader);
+
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      const log = gl.getShaderInfoLog(shader) ?? '';
+      gl.deleteShader(shader);
+      const stage = type === gl.VERTEX_SHADER ? 'vertex' : 'fragment';
+      throw new ShaderCompileError(stage, `${file}${variantName}`, mapCompileLog(log, preprocessed.locations, file), log);
+    }
+    return shader;
+  }
+
+  // Drop every variant built from the edited file; the next lookup rebuilds it
+  private reload(file: string): void {
+    let reloaded = 0;
+    for (const [key, variant] of this.variants) {
+      if (!variant.files.has(file)) continue;
+      if (!(variant.result instanceof Error)) {
+        this.gl.deleteProgram(variant.result.program);
+      }
+      this.variants.delete(key);
+      reloaded++;
+    }
+    if (reloaded > 0) {
+      console.log(`Reloaded ${file} (${reloaded} program variant${reloaded === 1 ? '' : 's'})`);
+    }
+  }
+}
@@ -0,0 +1,280 @@
+import { mat4, vec3, vec4 } from 'gl-matrix';
+import { QualityLevel, ShadowSettings } from '../types/GameTypes';
+import ShaderLibrary, { ShaderProgram } from './ShaderLibrary';
+import RenderQueue from './RenderQueue';
+import TerrainRenderer from './TerrainRenderer';
+import CityRenderer from './CityRenderer';
+import { drawMeshPrimitive } from './Mesh';
+
+type Uniforms = { [key: string]: WebGLUniformLocation | null };
+
+export const SHADOW_PRESETS: { [level in QualityLevel]: ShadowSettings } = {
+  low: { enabled: true, resolution: 1024, cascades: 1, distance: 300 },
+  medium: { enabled: true, resolution: 1024, cascades: 3, distance: 800 },
+  high: { enabled: true, resolution: 2048, cascades: 4, distance: 1500 },
+  ultra: { enabled: true, resolution: 3072, cascades: 4, distance: 2000 }
+};
+
+// Uniform vectors hold at most this many splits
+const MAX_CASCADES = 4;
+
+const CASTER_SHADER = 'shadow-caster';
+const TERRAIN_CASTER_SHADER = 'shadow-terrain';
+const CITY_CASTER_SHADER = 'shadow-city';
+const CLOAK_DEFINE = 'CLOAK';
+
+// Maps clip space onto the shadow map's texture coordinates and depth
+const TEXTURE_SPACE = mat4.fromValues(0.5, 0, 0, 0, 0, 0.5, 0, 0, 0, 0, 0.5, 0, 0.5, 0.5, 0.5, 1);
+
+// Depth seen from the key light, one layer per cascade. Each cascade covers a slice of the view frustum
+// with a bounding sphere, so its size never changes as the camera turns, and moves in whole texels so edges don't crawl.
+export default class ShadowRenderer {
+  private gl: WebGL2RenderingContext;
+  private shaders: ShaderLibrary;
+  private settings: ShadowSettings = SHADOW_PRESETS.high;
+  private depthTexture: WebGLTexture | null = null;
+  private framebuffer: WebGLFramebuffer | null;
+  private lightDirection = vec3.fromValues(0, 1, 0);
+
+  private lightViews: mat4[] = [];
+  private lightProjections: mat4[] = [];
+  private lightViewProjections: mat4[] = [];
+  private shadowMatrix = mat4.create();
+  private shadowMatrices = new Float32Array(16 * MAX_CASCADES);
+  private cascadeSplits = new Float32Array(4);
+  private normalOffsets = new Float32Array(4);
+  private cameraForward = vec3.create();
+
+  private readonly SPLIT_BLEND = 0.8; // logarithmic (1) against even (0) splits
+  private readonly CASTER_MARGIN = 1500; // m toward the light, so high casters still reach the ground
+  private readonly NORMAL_OFFSET_TEXELS = 1.5;
+  private readonly CLOAKED_SHADOW_FADE = 0.85; // share of the shadow a perfect cloak removes
+  private readonly SLOPE_BIAS = 2;
+  private readonly CONSTANT_BIAS = 4;
+
+  constructor(gl: WebGL2RenderingContext, shaders: ShaderLibrary) {
+    this.gl = gl;
+    this.shaders = shaders;
+    this.framebuffer = gl.createFramebuffer();
+
+    for (let i = 0; i < MAX_CASCADES; i++) {
+      this.lightViews.push(mat4.create());
+      this.lightProjections.push(mat4.create());
+      this.lightViewProjections.push(mat4.create());
+    }
+
+    shaders.register(CASTER_SHADER, {
+      vertex: 'standard.vert',
+      fragment: 'shadow.frag',
+      uniforms: ['uModelMatrix', 'uViewMatrix', 'uProjectionMatrix', 'uShadowOpacity']
+    });
+    shaders.register(TERRAIN_CASTER_SHADER, {
+      vertex: 'terrain.vert',
+      fragment: 'shadow.frag',
+      uniforms: ['uViewMatrix', 'uProjectionMatrix', 'uCameraPosition', 'uMorphRange']
+    });
+    shaders.register(CITY_CASTER_SHADER, {
+      vertex: 'city.vert',
+      fragment: 'shadow.frag',
+      uniforms: ['uViewMatrix', 'uProjectionMatrix']
+    });
+
+    this.createDepthTexture();
+  }
+
+  setSettings(settings: ShadowSettings): void {
+    const previous = this.settings;
+    this.settings = { ...settings, cascades: Math.max(1, Math.min(MAX_CASCADES, Math.round(settings.cascades))) };
+    if (this.settings.resolution !== previous.resolution || this.settings.cascades !== previous.cascades || !this.depthTexture) {
+      this.createDepthTexture();
+    }
+  }
+
+  getSettings(): ShadowSettings {
+    return this.settings;
+  }
+
+  // Points toward the light, like the environment's sun direction
+  setLightDirection(direction: vec3): void {
+    vec3.normalize(this.lightDirection, direction);
+  }
+
+  // Nothing is shadowed when disabled, unsupported, or lit from below the horizon
+  isActive(): boolean {
+    return this.settings.enabled && this.depthTexture !== null && this.lightDirection[1] > 0;
+  }
+
+  getCascadeCount(): number {
+    return this.settings.cascades;
+  }
+
+  // Fit every cascade to its slice of the camera frustum
+  update(viewMatrix: mat4, cameraPosition: vec3, fieldOfView: number, aspect: number, near: number): void {
+    const { cascades, distance, resolution } = this.settings;
+    vec3.set(this.cameraForward, -viewMatrix[2], -viewMatrix[6], -viewMatrix[10]);
+
+    // Half-diagonal of the frustum per metre of depth, squared
+    const tanHalf = Math.tan(fieldOfView * 0.5);
+    const diagonal = tanHalf * tanHalf * (1 + aspect * aspect);
+    const up = Math.abs(this.lightDirection[1]) > 0.99 ? vec3.fromValues(0, 0, -1) : vec3.fromValues(0, 1, 0);
+    const center = vec3.create();
+    const eye = vec3.create();
+    const origin = vec4.create();
+
+    let sliceNear = near;
+    for (let i = 0; i < cascades; i++) {
+      const t = (i + 1) / cascades;
+      const sliceFar = this.SPLIT_BLEND * near * Math.pow(distance / near, t) + (1 - this.SPLIT_BLEND) * (near + (distance - near) * t);
+      this.cascadeSplits[i] = sliceFar;
+
+      // Smallest sphere around the slice; it depends only on the split, not on where the camera looks
+      const centerDepth = Math.min(sliceFar, (sliceNear + sliceFar) * 0.5 * (1 + diagonal));
+      const radius = Math.ceil(Math.sqrt(Math.max(
+        (sliceFar - centerDepth) ** 2 + sliceFar * sliceFar * diagonal,
+        (centerDepth - sliceNear) ** 2 + sliceNear * sliceNear * diagonal
+      )));
+      vec3.scaleAndAdd(center, cameraPosition, this.cameraForward, centerDepth);
+      vec3.scaleAndAdd(eye, center, this.lightDirection, radius + this.CASTER_MARGIN);
+
+      const view = this.lightViews[i];
+      const projection = this.lightProjections[i];
+      const viewProjection = this.lightViewProjections[i];
+      mat4.lookAt(view, eye, center, up);
+      mat4.ortho(projection, -radius, radius, -radius, radius, 0, 2 * radius + this.CASTER_MARGIN);
+
+      // Shift by under a texel so the world origin lands on a texel corner
+      mat4.multiply(viewProjection, projection, view);
+      vec4.transformMat4(origin, vec4.fromValues(0, 0, 0, 1), viewProjection);
+      const texels = resolution * 0.5;
+      projection[12] += (Math.round(origin[0] * texels) - origin[0] * texels) / texels;
+      projection[13] += (Math.round(origin[1] * texels) - origin[1] * texels) / texels;
+      mat4.multiply(viewProjection, projection, view);
+
+      this.shadowMatrices.set(mat4.multiply(this.shadowMatrix, TEXTURE_SPACE, viewProjection), i * 16);
+      this.normalOffsets[i] = this.NORMAL_OFFSET_TEXELS * 2 * radius / resolution;
+      sliceNear = sliceFar;
+    }
+  }
+
+  // Render depth for the terrain, the city and everything queued; leaves the default framebuffer bound
+  render(terrain: TerrainRenderer | null, city: CityRenderer | null, queue: RenderQueue, cameraPosition: vec3): void {
+    if (!this.depthTexture) return;
+    const gl = this.gl;
+    const casterProgram = this.shaders.findProgram(CASTER_SHADER);
+    const cloakedProgram = this.shaders.findProgram(CASTER_SHADER, [CLOAK_DEFINE]);
+    const terrainProgram = this.shaders.findProgram(TERRAIN_CASTER_SHADER);
+    const cityProgram = city?.hasCity() ? this.shaders.findProgram(CITY_CASTER_SHADER) : null;
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this.framebuffer);
+    gl.viewport(0, 0, this.settings.resolution, this.settings.resolution);
+    gl.enable(gl.DEPTH_TEST);
+    gl.depthMask(true);
+    gl.disable(gl.BLEND);
+    // Both faces cast, so open and double-sided meshes still throw a shadow
+    gl.disable(gl.CULL_FACE);
+    gl.enable(gl.POLYGON_OFFSET_FILL);
+    gl.polygonOffset(this.SLOPE_BIAS, this.CONSTANT_BIAS);
+
+    for (let i = 0; i < this.settings.cascades; i++) {
+      gl.framebufferTextureLayer(gl.FRAMEBUFFER, gl.DEPTH_ATTACHMENT, this.depthTexture, 0, i);
+      gl.clear(gl.DEPTH_BUFFER_BIT);
+
+      if (terrain && terrainProgram) {
+        const { uniforms } = terrainProgram;
+        gl.useProgram(terrainProgram.program);
+        gl.uniformMatrix4fv(uniforms.uViewMatrix, false, this.lightViews[i]);
+        gl.uniformMatrix4fv(uniforms.uProjectionMatrix, false, this.lightProjections[i]);
+        // Morph as the camera sees it, or the ground would shadow itself
+        gl.uniform3fv(uniforms.uCameraPosition, cameraPosition);
+        terrain.draw(uniforms, this.lightViewProjections[i]);
+      }
+
+      if (city && cityProgram) {
+        const { uniforms } = cityProgram;
+        gl.useProgram(cityProgram.program);
+        gl.uniformMatrix4fv(uniforms.uViewMatrix, false, this.lightViews[i]);
+        gl.uniformMatrix4fv(uniforms.uProjectionMatrix, false, this.lightProjections[i]);
+        city.drawBuildings(uniforms, this.lightViewProjections[i], cameraPosition);
+      }
+
+      let activeProgram: ShaderProgram | null = null;
+      for (const items of [queue.opaque, queue.transparent]) {
+        for (const item of items) {
+          // Cloaked casters dither out part of their shadow as integrity rises
+          const cloaked = item.cloak?.active ?? false;
+          const program = cloaked ? cloakedProgram : casterProgram;
+          if (!program) continue;
+          const { uniforms } = program;
+          if (program !== activeProgram) {
+            activeProgram = program;
+            gl.useProgram(program.program);
+            gl.uniformMatrix4fv(uniforms.uViewMatrix, false, this.lightViews[i]);
+            gl.uniformMatrix4fv(uniforms.uProjectionMatrix, false, this.lightProjections[i]);
+          }
+          gl.uniformMatrix4fv(uniforms.uModelMatrix, false, item.worldMatrix);
+          if (cloaked) {
+            gl.uniform1f(uniforms.uShadowOpacity, 1 - this.CLOAKED_SHADOW_FADE * (item.cloak?.integrity ?? 0));
+          }
+          drawMeshPrimitive(gl, item.primitive);
+        }
+      }
+    }
+
+    gl.disable(gl.POLYGON_OFFSET_FILL);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+  }
+
+  bindTexture(unit: number): void {
+    this.gl.activeTexture(this.gl.TEXTURE0 + unit);
+    this.gl.bindTexture(this.gl.TEXTURE_2D_ARRAY, this.depthTexture);
+    this.gl.activeTexture(this.gl.TEXTURE0);
+  }
+
+  // Receiving programs; the shadow map's texture unit is set by the caller
+  applyUniforms(uniforms: Uniforms): void {
+    const gl = this.gl;
+    gl.uniformMatrix4fv(uniforms.uShadowMatrices, false, this.shadowMatrices.subarray(0, 16 * this.settings.cascades));
+    gl.uniform4fv(uniforms.uCascadeSplits, this.cascadeSplits);
+    gl.uniform4fv(uniforms.uShadowNormalOffsets, this.normalOffsets);
+    gl.uniform3fv(uniforms.uCameraForward, this.cameraForward);
+    gl.uniform1f(uniforms.uShadowTexelSize, 1 / this.settings.resolution);
+  }
+
+  cleanup(): void {
+    this.gl.deleteTexture(this.depthTexture);
+    this.gl.deleteFramebuffer(this.framebuffer);
+    this.depthTexture = null;
+    this.framebuffer = null;
+  }
+
+  // Compared on lookup, so the shader's filtered reads return how much of each texel is lit
+  private createDepthTexture(): void {
+    const gl = this.gl;
+    const { resolution, cascades } = this.settings;
+    gl.deleteTexture(this.depthTexture);
+
+    const texture = gl.createTexture();
+    gl.bindTexture(gl.TEXTURE_2D_ARRAY, texture);
+    gl.texStorage3D(gl.TEXTURE_2D_ARRAY, 1, gl.DEPTH_COMPONENT24, resolution, resolution, cascades);
+    gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_COMPARE_MODE, gl.COMPARE_REF_TO_TEXTURE);
+    gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_COMPARE_FUNC, gl.LEQUAL);
+    gl.bindTexture(gl.TEXTURE_2D_ARRAY, null);
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this.framebuffer);
+    gl.framebufferTextureLayer(gl.FRAMEBUFFER, gl.DEPTH_ATTACHMENT, texture, 0, 0);
+    const complete = gl.checkFramebufferStatus(gl.FRAMEBUFFER) === gl.FRAMEBUFFER_COMPLETE;
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+
+    if (complete) {
+      this.depthTexture = texture;
+    } else {
+      console.warn('Depth texture arrays unsupported as render targets, shadows disabled');
+      gl.deleteTexture(texture);
+      this.depthTexture = null;
+    }
+  }
+}
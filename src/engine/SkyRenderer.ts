@@ -0,0 +1,174 @@
+import { mat4, vec3 } from 'gl-matrix';
+import { AtmosphereProfile, CelestialBody, Color3, EnvironmentSky } from '../types/GameTypes';
+import { STAR_CATALOG, colorFromIndex, createFaintStars, equatorialToDirection } from './StarCatalog';
+
+type Uniforms = { [key: string]: WebGLUniformLocation | null };
+
+const BODY_KINDS: { [kind in CelestialBody['kind']]: number } = { earth: 0, moon: 1 };
+
+const smoothstep = (edge0: number, edge1: number, x: number): number => {
+  const t = Math.max(0, Math.min(1, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+};
+
+// Everything beyond the far plane: scattered sunlight, stars, and the Earth or Moon.
+// Drawn first without depth so the terrain and scene cover it.
+export default class SkyRenderer {
+  private gl: WebGL2RenderingContext;
+  private sky: EnvironmentSky | null = null;
+
+  // Full-screen and billboard passes build their vertices from gl_VertexID
+  private emptyVao: WebGLVertexArrayObject | null;
+  private starVao: WebGLVertexArrayObject | null;
+  private starBuffer: WebGLBuffer | null;
+  private starCount: number;
+
+  private sunDirection = vec3.fromValues(0, 1, 0);
+  private bodyDirections: vec3[] = [];
+  private spaceColor: Color3 = [0, 0, 0];
+  private glowColor = vec3.create();
+  private airDensity = 0; // relative to Earth at sea level
+  private rayleigh = vec3.create(); // sea-level scattering coefficients, 1/m
+  private mie = 0;
+  private scaleHeights: [number, number] = [1, 1];
+  private atmosphereRadius = 0;
+  private altitude = 0;
+  private starVisibility = 0;
+
+  // Rotation-only view so the sky stays at infinity
+  private skyMatrix = mat4.create();
+  private inverseSkyMatrix = mat4.create();
+  private celestialRotation = mat4.create();
+  private starMatrix = mat4.create();
+
+  private readonly PLANET_RADIUS = 6371e3; // m
+  private readonly ATMOSPHERE_SCALE_HEIGHTS = 12; // thickness of the simulated shell
+  private readonly EARTH_SEA_LEVEL_DENSITY = 1.225; // kg/m³
+  private readonly RAYLEIGH_COEFFICIENTS = vec3.fromValues(5.8e-6, 13.5e-6, 33.1e-6);
+  private readonly MIE_COEFFICIENT = 21e-6;
+  private readonly MIE_HEIGHT_RATIO = 0.14; // aerosols sit far lower than the air itself
+  private readonly FAINT_STAR_COUNT = 2500;
+
+  constructor(gl: WebGL2RenderingContext) {
+    this.gl = gl;
+    this.emptyVao = gl.createVertexArray();
+
+    const stars = [...STAR_CATALOG, ...createFaintStars(this.FAINT_STAR_COUNT)];
+    const data = new Float32Array(stars.length * 7);
+    stars.forEach((star, i) => {
+      // Perceived brightness compresses the magnitude scale; the brightest also look larger
+      const brightness = Math.min(1, Math.max(0.06, Math.pow(10, -0.2 * (star.magnitude - 1))));
+      const size = Math.min(4, Math.max(1, 1.5 + (2.5 - star.magnitude) * 0.5));
+      const [r, g, b] = colorFromIndex(star.colorIndex);
+      data.set([...equatorialToDirection(star.rightAscension, star.declination), r * brightness, g * brightness, b * brightness, size], i * 7);
+    });
+    this.starCount = stars.length;
+
+    this.starVao = gl.createVertexArray();
+    this.starBuffer = gl.createBuffer();
+    gl.bindVertexArray(this.starVao);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.starBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, data, gl.STATIC_DRAW);
+    gl.enableVertexAttribArray(0);
+    gl.vertexAttribPointer(0, 3, gl.FLOAT, false, 28, 0);
+    gl.enableVertexAttribArray(1);
+    gl.vertexAttribPointer(1, 4, gl.FLOAT, false, 28, 12);
+    gl.bindVertexArray(null);
+  }
+
+  // Air comes from the physics profile so the sky thins exactly as drag does
+  setSky(sky: EnvironmentSky, atmosphere: AtmosphereProfile | null, spaceColor: Color3): void {
+    this.sky = sky;
+    this.spaceColor = spaceColor;
+
+    const { x, y, z } = sky.sunDirection;
+    vec3.normalize(this.sunDirection, vec3.fromValues(x, y, z));
+    this.bodyDirections = sky.bodies.map(body => vec3.normalize(vec3.create(), vec3.fromValues(body.direction.x, body.direction.y, body.direction.z)));
+
+    if (sky.horizonGlow) {
+      vec3.scale(this.glowColor, vec3.fromValues(...sky.horizonGlow.color), sky.horizonGlow.intensity);
+    } else {
+      vec3.zero(this.glowColor);
+    }
+
+    this.airDensity = atmosphere ? atmosphere.seaLevelDensity / this.EARTH_SEA_LEVEL_DENSITY : 0;
+    vec3.scale(this.rayleigh, this.RAYLEIGH_COEFFICIENTS, this.airDensity);
+    this.mie = this.MIE_COEFFICIENT * this.airDensity;
+    const scaleHeight = atmosphere?.scaleHeight ?? 1;
+    this.scaleHeights = [scaleHeight, scaleHeight * this.MIE_HEIGHT_RATIO];
+    this.atmosphereRadius = this.PLANET_RADIUS + scaleHeight * this.ATMOSPHERE_SCALE_HEIGHTS;
+
+    // Celestial pole stands `latitude` degrees above the northern (-Z) horizon
+    mat4.fromXRotation(this.celestialRotation, (sky.latitude - 90) * Math.PI / 180);
+  }
+
+  update(viewMatrix: mat4, projectionMatrix: mat4, cameraPosition: vec3): void {
+    if (!this.sky) return;
+
+    mat4.copy(this.skyMatrix, viewMatrix);
+    this.skyMatrix[12] = this.skyMatrix[13] = this.skyMatrix[14] = 0;
+    mat4.multiply(this.skyMatrix, projectionMatrix, this.skyMatrix);
+    mat4.invert(this.inverseSkyMatrix, this.skyMatrix);
+    mat4.multiply(this.starMatrix, this.skyMatrix, this.celestialRotation);
+
+    // Daylight drowns the stars until the air above the craft thins out
+    this.altitude = Math.max(cameraPosition[1], 0);
+    const airAbove = Math.min(1, this.airDensity * Math.exp(-this.altitude / this.scaleHeights[0]));
+    const daylight = Math.min(1, this.sky.sunIntensity * smoothstep(-0.2, 0.05, this.sunDirection[1]) * airAbove);
+    this.starVisibility = this.sky.starBrightness * (1 - daylight);
+  }
+
+  // The sky program must already be bound
+  drawBackground(uniforms: Uniforms): void {
+    if (!this.sky) return;
+    const gl = this.gl;
+    gl.uniformMatrix4fv(uniforms.uInverseSkyMatrix, false, this.inverseSkyMatrix);
+    gl.uniform3fv(uniforms.uSkySunDirection, this.sunDirection);
+    gl.uniform1f(uniforms.uSkySunIntensity, this.sky.sunIntensity);
+    gl.uniform1i(uniforms.uScattering, this.airDensity > 0 ? 1 : 0);
+    gl.uniform1f(uniforms.uAltitude, this.altitude);
+    gl.uniform3fv(uniforms.uRayleigh, this.rayleigh);
+    gl.uniform1f(uniforms.uMie, this.mie);
+    gl.uniform2fv(uniforms.uScaleHeights, this.scaleHeights);
+    gl.uniform1f(uniforms.uAtmosphereRadius, this.atmosphereRadius);
+    gl.uniform3fv(uniforms.uSpaceColor, this.spaceColor);
+    gl.uniform3fv(uniforms.uGlowColor, this.glowColor);
+    gl.uniform1f(uniforms.uGlowHeight, this.sky.horizonGlow?.height ?? 1);
+    gl.bindVertexArray(this.emptyVao);
+    gl.drawArrays(gl.TRIANGLES, 0, 3);
+    gl.bindVertexArray(null);
+  }
+
+  // The star program must already be bound, with additive blending
+  drawStars(uniforms: Uniforms): void {
+    if (this.starVisibility <= 0) return;
+    this.gl.uniformMatrix4fv(uniforms.uStarMatrix, false, this.starMatrix);
+    this.gl.uniform1f(uniforms.uStarBrightness, this.starVisibility);
+    this.gl.bindVertexArray(this.starVao);
+    this.gl.drawArrays(this.gl.POINTS, 0, this.starCount);
+    this.gl.bindVertexArray(null);
+  }
+
+  // The celestial body program must already be bound, with alpha blending
+  drawBodies(uniforms: Uniforms): void {
+    if (!this.sky) return;
+    const gl = this.gl;
+    gl.uniformMatrix4fv(uniforms.uSkyMatrix, false, this.skyMatrix);
+    gl.uniform3fv(uniforms.uSkySunDirection, this.sunDirection);
+    gl.bindVertexArray(this.emptyVao);
+    this.sky.bodies.forEach((body, i) => {
+      gl.uniform3fv(uniforms.uBodyDirection, this.bodyDirections[i]);
+      gl.uniform1f(uniforms.uBodySize, Math.tan(body.angularSize * Math.PI / 360));
+      gl.uniform1i(uniforms.uBodyKind, BODY_KINDS[body.kind]);
+      gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    });
+    gl.bindVertexArray(null);
+  }
+
+  cleanup(): void {
+    this.gl.deleteVertexArray(this.emptyVao);
+    this.gl.deleteVertexArray(this.starVao);
+    this.gl.deleteBuffer(this.starBuffer);
+    this.sky = null;
+  }
+}
@@ -0,0 +1,136 @@
+import { hash2D } from './Noise';
+
+export interface CatalogStar {
+  name: string;
+  rightAscension: number; // hours, J2000
+  declination: number; // degrees, J2000
+  magnitude: number; // apparent visual
+  colorIndex: number; // B-V
+}
+
+// The brightest naked-eye stars, positions rounded to about a tenth of a degree
+const BRIGHT_STARS: [string, number, number, number, number][] = [
+  ['Sirius', 6.752, -16.716, -1.46, 0.0],
+  ['Canopus', 6.399, -52.696, -0.74, 0.15],
+  ['Rigil Kentaurus', 14.660, -60.834, -0.27, 0.71],
+  ['Arcturus', 14.261, 19.182, -0.05, 1.23],
+  ['Vega', 18.616, 38.784, 0.03, 0.0],
+  ['Capella', 5.278, 45.998, 0.08, 0.8],
+  ['Rigel', 5.242, -8.202, 0.13, -0.03],
+  ['Procyon', 7.655, 5.225, 0.34, 0.42],
+  ['Achernar', 1.629, -57.237, 0.46, -0.16],
+  ['Betelgeuse', 5.919, 7.407, 0.5, 1.85],
+  ['Hadar', 14.064, -60.373, 0.61, -0.23],
+  ['Altair', 19.846, 8.868, 0.76, 0.22],
+  ['Acrux', 12.443, -63.099, 0.77, -0.24],
+  ['Aldebaran', 4.599, 16.509, 0.86, 1.54],
+  ['Antares', 16.49, -26.432, 0.96, 1.83],
+  ['Spica', 13.42, -11.161, 0.97, -0.23],
+  ['Pollux', 7.755, 28.026, 1.14, 1.0],
+  ['Fomalhaut', 22.961, -29.622, 1.16, 0.09],
+  ['Deneb', 20.69, 45.28, 1.25, 0.09],
+  ['Mimosa', 12.795, -59.689, 1.25, -0.23],
+  ['Regulus', 10.14, 11.967, 1.35, -0.11],
+  ['Adhara', 6.977, -28.972, 1.5, -0.21],
+  ['Castor', 7.577, 31.888, 1.58, 0.03],
+  ['Shaula', 17.56, -37.104, 1.62, -0.22],
+  ['Gacrux', 12.519, -57.113, 1.64, 1.6],
+  ['Bellatrix', 5.419, 6.35, 1.64, -0.22],
+  ['Elnath', 5.438, 28.608, 1.65, -0.13],
+  ['Miaplacidus', 9.22, -69.717, 1.67, 0.07],
+  ['Alnilam', 5.604, -1.202, 1.69, -0.18],
+  ['Alnair', 22.137, -46.961, 1.73, -0.13],
+  ['Alnitak', 5.679, -1.943, 1.77, -0.21],
+  ['Alioth', 12.9, 55.96, 1.77, -0.02],
+  ['Dubhe', 11.062, 61.751, 1.79, 1.07],
+  ['Mirfak', 3.405, 49.861, 1.79, 0.48],
+  ['Wezen', 7.14, -26.393, 1.84, 0.68],
+  ['Kaus Australis', 18.403, -34.385, 1.85, -0.03],
+  ['Avior', 8.375, -59.51, 1.86, 1.28],
+  ['Alkaid', 13.792, 49.313, 1.86, -0.19],
+  ['Sargas', 17.622, -42.998, 1.86, 0.4],
+  ['Menkalinan', 5.992, 44.948, 1.9, 0.03],
+  ['Atria', 16.811, -69.028, 1.91, 1.44],
+  ['Alhena', 6.628, 16.399, 1.93, 0.0],
+  ['Peacock', 20.427, -56.735, 1.94, -0.2],
+  ['Polaris', 2.53, 89.264, 1.98, 0.6],
+  ['Mirzam', 6.378, -17.956, 1.98, -0.23],
+  ['Alphard', 9.46, -8.659, 1.99, 1.44],
+  ['Hamal', 2.12, 23.462, 2.0, 1.15],
+  ['Algieba', 10.333, 19.842, 2.01, 1.15],
+  ['Diphda', 0.726, -17.987, 2.04, 1.02],
+  ['Nunki', 18.921, -26.297, 2.05, -0.22],
+  ['Mirach', 1.162, 35.621, 2.05, 1.58],
+  ['Menkent', 14.111, -36.37, 2.06, 1.01],
+  ['Alpheratz', 0.14, 29.091, 2.06, -0.11],
+  ['Saiph', 5.796, -9.67, 2.09, -0.18],
+  ['Kochab', 14.845, 74.156, 2.08, 1.47],
+  ['Rasalhague', 17.582, 12.56, 2.08, 0.15],
+  ['Almach', 2.065, 42.33, 2.1, 1.37],
+  ['Algol', 3.136, 40.956, 2.12, -0.05],
+  ['Denebola', 11.818, 14.572, 2.14, 0.09],
+  ['Gamma Cassiopeiae', 0.945, 60.717, 2.15, -0.15],
+  ['Alphecca', 15.578, 26.715, 2.22, -0.02],
+  ['Mizar', 13.399, 54.925, 2.23, 0.02],
+  ['Sadr', 20.37, 40.257, 2.23, 0.67],
+  ['Mintaka', 5.533, -0.299, 2.23, -0.22],
+  ['Eltanin', 17.943, 51.489, 2.23, 1.52],
+  ['Schedar', 0.675, 56.537, 2.24, 1.17],
+  ['Caph', 0.153, 59.15, 2.28, 0.34],
+  ['Izar', 14.75, 27.074, 2.37, 0.97],
+  ['Merak', 11.031, 56.382, 2.37, -0.02],
+  ['Enif', 21.736, 9.875, 2.39, 1.53],
+  ['Scheat', 23.063, 28.083, 2.42, 1.67],
+  ['Phecda', 11.897, 53.695, 2.44, 0.0],
+  ['Alderamin', 21.31, 62.586, 2.45, 0.22],
+  ['Markab', 23.079, 15.205, 2.48, -0.04],
+  ['Unukalhai', 15.738, 6.426, 2.63, 1.17],
+  ['Porrima', 12.694, -1.449, 2.74, 0.36],
+  ['Zubenelgenubi', 14.848, -16.042, 2.75, 0.15],
+  ['Algenib', 0.22, 15.184, 2.83, -0.23],
+  ['Vindemiatrix', 13.036, 10.959, 2.83, 0.94],
+  ['Albireo', 19.512, 27.96, 3.05, 1.09],
+  ['Megrez', 12.257, 57.033, 3.31, 0.08]
+];
+
+export const STAR_CATALOG: CatalogStar[] = BRIGHT_STARS.map(([name, rightAscension, declination, magnitude, colorIndex]) => ({
+  name,
+  rightAscension,
+  declination,
+  magnitude,
+  colorIndex
+}));
+
+// Unit vector in the equatorial frame: +Y to the celestial pole, +X to the vernal equinox
+export function equatorialToDirection(rightAscension: number, declination: number): [number, number, number] {
+  const ra = rightAscension / 12 * Math.PI;
+  const dec = declination * Math.PI / 180;
+  return [Math.cos(dec) * Math.cos(ra), Math.sin(dec), -Math.cos(dec) * Math.sin(ra)];
+}
+
+// Fainter background stars down to naked-eye limit, spread evenly over the sphere.
+// Deterministic so every session sees the same sky.
+export function createFaintStars(count: number, seed = 3): CatalogStar[] {
+  const stars: CatalogStar[] = [];
+  for (let i = 0; i < count; i++) {
+    // Uniform on the sphere: RA uniform, sin(dec) uniform
+    const rightAscension = hash2D(i, 0, seed) * 24;
+    const declination = Math.asin(hash2D(i, 1, seed) * 2 - 1) * 180 / Math.PI;
+    // Faint stars vastly outnumber bright ones
+    const magnitude = 6.5 - 3 * Math.pow(hash2D(i, 2, seed), 3);
+    const colorIndex = -0.2 + 1.8 * hash2D(i, 3, seed) * hash2D(i, 4, seed);
+    stars.push({ name: '', rightAscension, declination, magnitude, colorIndex });
+  }
+  return stars;
+}
+
+// Approximate star colour from its B-V index
+export function colorFromIndex(colorIndex: number): [number, number, number] {
+  const t = Math.max(0, Math.min(1, (colorIndex + 0.4) / 2.4));
+  if (t < 0.25) {
+    const k = t / 0.25;
+    return [0.62 + 0.38 * k, 0.72 + 0.28 * k, 1];
+  }
+  const k = (t - 0.25) / 0.75;
+  return [1, 1 - 0.35 * k, 1 - 0.65 * k];
+}
@@ -0,0 +1,131 @@
+import { TerrainGenerator, TerrainSettings } from '../types/GameTypes';
+import { HeightField, SurfaceMaterial } from './CollisionWorld';
+import { fbm, hash2D } from './Noise';
+
+type LunarSettings = Extract<TerrainGenerator, { generator: 'lunar' }>;
+type UrbanSettings = Extract<TerrainGenerator, { generator: 'urban' }>;
+
+// Level ground, used until an environment says otherwise
+export const FLAT_TERRAIN: TerrainSettings = {
+  generator: 'flat',
+  elevation: 0,
+  color: [0.2, 0.2, 0.2],
+  surface: { restitution: 0.2, friction: 0.6 }
+};
+
+export class FlatHeightField implements HeightField {
+  private readonly elevation: number;
+
+  constructor(elevation = 0) {
+    this.elevation = elevation;
+  }
+
+  getHeight(): number {
+    return this.elevation;
+  }
+}
+
+// Rolling regolith plains pocked with craters at two scales
+export class LunarHeightField implements HeightField {
+  private readonly settings: LunarSettings;
+
+  constructor(settings: LunarSettings) {
+    this.settings = settings;
+  }
+
+  getHeight(x: number, z: number): number {
+    const { seed, plainsScale, plainsHeight } = this.settings;
+    return fbm(x * plainsScale, z * plainsScale, 5, seed) * plainsHeight
+      + this.craters(x, z, 400, 150, seed + 100)
+      + this.craters(x, z, 90, 30, seed + 200);
+  }
+
+  // At most one crater per cell; radii stay small enough that only neighbouring cells can reach a point
+  private craters(x: number, z: number, cellSize: number, maxRadius: number, seed: number): number {
+    const cellX = Math.floor(x / cellSize);
+    const cellZ = Math.floor(z / cellSize);
+    let height = 0;
+
+    for (let dz = -1; dz <= 1; dz++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const ix = cellX + dx;
+        const iz = cellZ + dz;
+        if (hash2D(ix, iz, seed) > this.settings.craterDensity) continue;
+
+        const centreX = (ix + 0.2 + hash2D(ix, iz, seed + 1) * 0.6) * cellSize;
+        const centreZ = (iz + 0.2 + hash2D(ix, iz, seed + 2) * 0.6) * cellSize;
+        const radius = maxRadius * (0.3 + 0.7 * hash2D(ix, iz, seed + 3));
+        const d = Math.hypot(x - centreX, z - centreZ) / radius;
+        if (d > 1.6) continue;
+
+        // Parabolic bowl inside the rim, raised rim falling away outside
+        const depth = radius * 0.2;
+        if (d < 1) {
+          height += depth * (d * d - 1);
+        }
+        const rim = (d - 1) / 0.25;
+        height += depth * 0.35 * Math.exp(-rim * rim);
+      }
+    }
+    return height;
+  }
+}
+
+// Flat street grid with city blocks raised on low plinths
+export class UrbanHeightField implements HeightField {
+  // Block size runs street centre to street centre
+  private readonly settings: UrbanSettings;
+  private readonly RAMP_WIDTH = 3; // m, softens block edges
+
+  constructor(settings: UrbanSettings) {
+    this.settings = settings;
+  }
+
+  getHeight(x: number, z: number): number {
+    const { seed, blockSize, maxPlinthHeight } = this.settings;
+    const blockX = Math.floor(x / blockSize);
+    const blockZ = Math.floor(z / blockSize);
+    const localX = x - blockX * blockSize;
+    const localZ = z - blockZ * blockSize;
+
+    const edge = Math.min(this.edgeFactor(localX), this.edgeFactor(localZ));
+    if (edge <= 0) return 0;
+
+    // Most blocks sit on a kerb; some are raised decks and plazas
+    const roll = hash2D(blockX, blockZ, seed);
+    const plinth = roll < 0.7 ? Math.min(0.3, maxPlinthHeight) : 1 + (roll - 0.7) / 0.3 * (maxPlinthHeight - 1);
+    return plinth * edge;
+  }
+
+  // 0 in the street, 1 on the block, with a smooth ramp between
+  private edgeFactor(local: number): number {
+    const start = this.settings.streetWidth / 2;
+    const end = this.settings.blockSize - this.settings.streetWidth / 2;
+    const rise = Math.min(local - start, end - local) / this.RAMP_WIDTH;
+    const t = Math.max(0, Math.min(1, rise));
+    return t * t * (3 - 2 * t);
+  }
+}
+
+export interface TerrainDefinition {
+  heightField: HeightField;
+  surface: SurfaceMaterial;
+}
+
+export function createTerrain(settings: TerrainSettings): TerrainDefinition {
+  return {
+    heightField: createHeightField(settings),
+    surface: { ...settings.surface }
+  };
+}
+
+function createHeightField(settings: TerrainSettings): HeightField {
+  switch (settings.generator) {
+    case 'lunar':
+      return new LunarHeightField(settings);
+    case 'urban':
+      return new UrbanHeightField(settings);
+    case 'flat':
+      return new FlatHeightField(settings.elevation);
+  }
+}
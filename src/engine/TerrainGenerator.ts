@@ -0,0 +1,144 @@
+import { TerrainSettings } from '../types/GameTypes';
+import { createTerrain } from './Terrain';
+
+export interface TerrainChunkRequest {
+  id: number;
+  terrain: TerrainSettings;
+  // Minimum corner of the chunk in world space
+  x: number;
+  z: number;
+  size: number;
+  // Grid cells per side; must be even so every vertex has a parent-grid position
+  resolution: number;
+  skirtDepth: number;
+}
+
+export interface TerrainChunkData {
+  id: number;
+  positions: Float32Array;
+  normals: Float32Array;
+  // Height of the surface one LOD level coarser, for geomorphing
+  morphHeights: Float32Array;
+  minHeight: number;
+  maxHeight: number;
+}
+
+// Skirt edges walk with the outside on their left (seen from above), so one winding fits all four
+function edgeVertices(resolution: number): number[][] {
+  const row = resolution + 1;
+  const north: number[] = [];
+  const east: number[] = [];
+  const south: number[] = [];
+  const west: number[] = [];
+  for (let i = 0; i <= resolution; i++) {
+    north.push(i);
+    east.push(i * row + resolution);
+    south.push(resolution * row + (resolution - i));
+    west.push((resolution - i) * row);
+  }
+  return [north, east, south, west];
+}
+
+export function terrainVertexCount(resolution: number): number {
+  return (resolution + 1) * (resolution + 1) + 4 * (resolution + 1);
+}
+
+// Every chunk shares the same topology: the grid followed by four skirts
+export function createTerrainIndices(resolution: number): Uint16Array {
+  const row = resolution + 1;
+  const indices: number[] = [];
+
+  // Cells split along the same diagonal as their parent cells, so morph targets lie on the coarse surface
+  for (let r = 0; r < resolution; r++) {
+    for (let c = 0; c < resolution; c++) {
+      const a = r * row + c;
+      const b = a + row;
+      indices.push(a, b, b + 1, a, b + 1, a + 1);
+    }
+  }
+
+  // Skirts hang below the chunk edges and hide cracks between neighbouring LOD levels
+  const skirtBase = row * row;
+  edgeVertices(resolution).forEach((edge, edgeIndex) => {
+    for (let i = 0; i < resolution; i++) {
+      const top = edge[i];
+      const nextTop = edge[i + 1];
+      const bottom = skirtBase + edgeIndex * row + i;
+      indices.push(top, nextTop, bottom, nextTop, bottom + 1, bottom);
+    }
+  });
+
+  return new Uint16Array(indices);
+}
+
+export function generateTerrainChunk(request: TerrainChunkRequest): TerrainChunkData {
+  const { heightField } = createTerrain(request.terrain);
+  const { resolution, size, x, z, skirtDepth } = request;
+  const row = resolution + 1;
+  const step = size / resolution;
+
+  const vertexCount = terrainVertexCount(resolution);
+  const positions = new Float32Array(vertexCount * 3);
+  const normals = new Float32Array(vertexCount * 3);
+  const morphHeights = new Float32Array(vertexCount);
+
+  const heights = new Float32Array(row * row);
+  let minHeight = Infinity;
+  let maxHeight = -Infinity;
+
+  for (let r = 0; r <= resolution; r++) {
+    for (let c = 0; c <= resolution; c++) {
+      const index = r * row + c;
+      const worldX = x + c * step;
+      const worldZ = z + r * step;
+      const height = heightField.getHeight(worldX, worldZ);
+      heights[index] = height;
+      minHeight = Math.min(minHeight, height);
+      maxHeight = Math.max(maxHeight, height);
+
+      positions[index * 3] = worldX;
+      positions[index * 3 + 1] = height;
+      positions[index * 3 + 2] = worldZ;
+
+      // Sampled from the height field itself so normals match across chunk borders
+      const dx = heightField.getHeight(worldX + step, worldZ) - heightField.getHeight(worldX - step, worldZ);
+      const dz = heightField.getHeight(worldX, worldZ + step) - heightField.getHeight(worldX, worldZ - step);
+      const length = Math.hypot(dx, 2 * step, dz);
+      normals[index * 3] = -dx / length;
+      normals[index * 3 + 1] = 2 * step / length;
+      normals[index * 3 + 2] = -dz / length;
+    }
+  }
+
+  // Odd vertices morph onto the parent grid's edge or diagonal
+  for (let r = 0; r <= resolution; r++) {
+    for (let c = 0; c <= resolution; c++) {
+      const index = r * row + c;
+      const oddRow = r % 2 === 1;
+      const oddColumn = c % 2 === 1;
+      if (oddRow && oddColumn) {
+        morphHeights[index] = (heights[index - row - 1] + heights[index + row + 1]) / 2;
+      } else if (oddRow) {
+        morphHeights[index] = (heights[index - row] + heights[index + row]) / 2;
+      } else if (oddColumn) {
+        morphHeights[index] = (heights[index - 1] + heights[index + 1]) / 2;
+      } else {
+        morphHeights[index] = heights[index];
+      }
+    }
+  }
+
+  const skirtBase = row * row;
+  edgeVertices(resolution).forEach((edge, edgeIndex) => {
+    edge.forEach((source, i) => {
+      const target = skirtBase + edgeIndex * row + i;
+      positions[target * 3] = positions[source * 3];
+      positions[target * 3 + 1] = positions[source * 3 + 1] - skirtDepth;
+      positions[target * 3 + 2] = positions[source * 3 + 2];
+      normals.copyWithin(target * 3, source * 3, source * 3 + 3);
+      morphHeights[target] = morphHeights[source] - skirtDepth;
+    });
+  });
+
+  return { id: request.id, positions, normals, morphHeights, minHeight, maxHeight };
+}
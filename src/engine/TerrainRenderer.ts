@@ -0,0 +1,320 @@
+import { mat4, vec3 } from 'gl-matrix';
+import { QualityLevel, TerrainSettings } from '../types/GameTypes';
+import { ATTRIBUTE_LOCATIONS } from './Mesh';
+import {
+  TerrainChunkData,
+  TerrainChunkRequest,
+  createTerrainIndices,
+  generateTerrainChunk
+} from './TerrainGenerator';
+
+// Node sizes from the viewer at which chunks split, at every quality level. Never below 2.2, so
+// neighbours differ by at most one level and coarse edges are not yet morphing.
+export const TERRAIN_LOD_PRESETS: { [level in QualityLevel]: number } = {
+  low: 2.2,
+  medium: 2.6,
+  high: 3,
+  ultra: 3.6
+};
+
+type ChunkState = 'queued' | 'pending' | 'ready';
+
+interface TerrainChunk {
+  key: string;
+  level: number;
+  x: number;
+  z: number;
+  size: number;
+  state: ChunkState;
+  vao: WebGLVertexArrayObject | null;
+  buffers: WebGLBuffer[];
+  minHeight: number;
+  maxHeight: number;
+  lastUsed: number;
+}
+
+// Six planes (a, b, c, d) pointing inward, from a view-projection matrix
+export function extractFrustumPlanes(m: mat4): number[][] {
+  const row = (i: number) => [m[i], m[4 + i], m[8 + i], m[12 + i]];
+  const [r0, r1, r2, r3] = [row(0), row(1), row(2), row(3)];
+  const combine = (a: number[], b: number[], sign: number) => a.map((value, i) => value + sign * b[i]);
+  return [
+    combine(r3, r0, 1), combine(r3, r0, -1),
+    combine(r3, r1, 1), combine(r3, r1, -1),
+    combine(r3, r2, 1), combine(r3, r2, -1)
+  ];
+}
+
+// Quadtree terrain streamed around the viewer. Chunks are generated in a worker,
+// refined by distance, and geomorphed toward their parent grid (CDLOD) so level
+// changes neither pop nor crack; skirts cover chunks still waiting on neighbours.
+export default class TerrainRenderer {
+  private gl: WebGL2RenderingContext;
+  private worker: Worker | null = null;
+  private settings: TerrainSettings | null = null;
+
+  private chunks: Map<string, TerrainChunk> = new Map();
+  private requests: Map<number, TerrainChunk> = new Map();
+  private nextRequestId = 1;
+  private visible: TerrainChunk[] = [];
+  private drawnCount = 0;
+  private frame = 0;
+
+  private indexBuffer: WebGLBuffer;
+  private indexCount: number;
+
+  private readonly ROOT_SIZE = 4096; // m
+  private readonly ROOT_RADIUS = 2; // root tiles either side of the viewer's tile
+  private readonly MAX_LEVEL = 6; // 64 m leaves
+  private readonly RESOLUTION = 32; // grid cells per chunk side
+  // A node splits when the viewer is closer than this many node sizes
+  private splitDistance = TERRAIN_LOD_PRESETS.high;
+  private readonly MORPH_START = 0.85; // fraction of the morph range
+  private readonly NO_MORPH_DISTANCE = 1e9; // m
+  private readonly MAX_PENDING = 6;
+  private readonly MAX_CACHED_CHUNKS = 1024;
+
+  constructor(gl: WebGL2RenderingContext) {
+    this.gl = gl;
+
+    const indices = createTerrainIndices(this.RESOLUTION);
+    const indexBuffer = gl.createBuffer();
+    if (!indexBuffer) {
+      throw new Error('Failed to create terrain index buffer');
+    }
+    gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, indexBuffer);
+    gl.bufferData(gl.ELEMENT_ARRAY_BUFFER, indices, gl.STATIC_DRAW);
+    gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, null);
+    this.indexBuffer = indexBuffer;
+    this.indexCount = indices.length;
+
+    // Without workers chunks are built on the main thread instead
+    if (typeof Worker !== 'undefined') {
+      try {
+        this.worker = new Worker(new URL('./TerrainWorker.ts', import.meta.url), { type: 'module' });
+        this.worker.onmessage = (event: MessageEvent<TerrainChunkData>) => this.receiveChunk(event.data);
+        this.worker.onerror = (event) => console.error('Terrain worker error:', event.message);
+      } catch (error) {
+        console.warn('Terrain worker unavailable, generating on the main thread:', error);
+      }
+    }
+  }
+
+  setLodDistance(splitDistance: number): void {
+    this.splitDistance = Math.max(TERRAIN_LOD_PRESETS.low, splitDistance);
+  }
+
+  setTerrain(settings: TerrainSettings): void {
+    this.clearChunks();
+    this.settings = settings;
+  }
+
+  // Choose the chunks to draw for this viewpoint and stream in missing ones
+  update(viewer: vec3): void {
+    if (!this.settings) return;
+    this.frame++;
+    this.visible = [];
+
+    const rootX = Math.floor(viewer[0] / this.ROOT_SIZE);
+    const rootZ = Math.floor(viewer[2] / this.ROOT_SIZE);
+    for (let dz = -this.ROOT_RADIUS; dz <= this.ROOT_RADIUS; dz++) {
+      for (let dx = -this.ROOT_RADIUS; dx <= this.ROOT_RADIUS; dx++) {
+        this.select(0, (rootX + dx) * this.ROOT_SIZE, (rootZ + dz) * this.ROOT_SIZE, this.ROOT_SIZE, viewer);
+      }
+    }
+
+    this.dispatchRequests(viewer);
+    this.evictChunks();
+  }
+
+  // The terrain program must already be bound. Culling happens here rather than during
+  // selection so chunks behind the viewer keep streaming and are ready when it turns.
+  draw(uniforms: { [key: string]: WebGLUniformLocation | null }, viewProjection: mat4): void {
+    const planes = extractFrustumPlanes(viewProjection);
+    this.drawnCount = 0;
+
+    for (const chunk of this.visible) {
+      if (!this.inFrustum(chunk, planes)) continue;
+      this.drawnCount++;
+
+      // Roots have no parent to morph toward; keep the range finite for the GPU
+      const morphEnd = chunk.level === 0 ? this.NO_MORPH_DISTANCE : chunk.size * 2 * this.splitDistance;
+      this.gl.uniform2f(uniforms.uMorphRange, morphEnd * this.MORPH_START, morphEnd);
+      this.gl.bindVertexArray(chunk.vao);
+      this.gl.drawElements(this.gl.TRIANGLES, this.indexCount, this.gl.UNSIGNED_SHORT, 0);
+    }
+    this.gl.bindVertexArray(null);
+  }
+
+  // Chunks drawn last frame, after culling
+  getDrawnChunkCount(): number {
+    return this.drawnCount;
+  }
+
+  cleanup(): void {
+    this.clearChunks();
+    this.worker?.terminate();
+    this.worker = null;
+    this.gl.deleteBuffer(this.indexBuffer);
+  }
+
+  private select(level: number, x: number, z: number, size: number, viewer: vec3): void {
+    const chunk = this.useChunk(level, x, z, size);
+
+    if (level < this.MAX_LEVEL && this.distanceTo(chunk, viewer) < size * this.splitDistance) {
+      const half = size / 2;
+      const children = [
+        this.useChunk(level + 1, x, z, half),
+        this.useChunk(level + 1, x + half, z, half),
+        this.useChunk(level + 1, x, z + half, half),
+        this.useChunk(level + 1, x + half, z + half, half)
+      ];
+
+      // Keep drawing this chunk until all four children can replace it
+      if (chunk.state !== 'ready' || children.every(child => child.state === 'ready')) {
+        for (const child of children) {
+          this.select(child.level, child.x, child.z, child.size, viewer);
+        }
+        return;
+      }
+    }
+
+    if (chunk.state === 'ready') {
+      this.visible.push(chunk);
+    }
+  }
+
+  private useChunk(level: number, x: number, z: number, size: number): TerrainChunk {
+    const key = `${level}:${x}:${z}`;
+    let chunk = this.chunks.get(key);
+    if (!chunk) {
+      chunk = { key, level, x, z, size, state: 'queued', vao: null, buffers: [], minHeight: 0, maxHeight: 0, lastUsed: 0 };
+      this.chunks.set(key, chunk);
+    }
+    chunk.lastUsed = this.frame;
+    return chunk;
+  }
+
+  private inFrustum(chunk: TerrainChunk, planes: number[][]): boolean {
+    for (const [a, b, c, d] of planes) {
+      // Corner furthest along the plane normal; skirts hang below the minimum height
+      const x = a >= 0 ? chunk.x + chunk.size : chunk.x;
+      const y = b >= 0 ? chunk.maxHeight : chunk.minHeight;
+      const z = c >= 0 ? chunk.z + chunk.size : chunk.z;
+      if (a * x + b * y + c * z + d < 0) return false;
+    }
+    return true;
+  }
+
+  private distanceTo(chunk: TerrainChunk, viewer: vec3): number {
+    const dx = Math.max(chunk.x - viewer[0], 0, viewer[0] - (chunk.x + chunk.size));
+    const dy = Math.max(chunk.minHeight - viewer[1], 0, viewer[1] - chunk.maxHeight);
+    const dz = Math.max(chunk.z - viewer[2], 0, viewer[2] - (chunk.z + chunk.size));
+    return Math.hypot(dx, dy, dz);
+  }
+
+  // Coarse levels first so there is always something to draw, then nearest first
+  private dispatchRequests(viewer: vec3): void {
+    const available = this.MAX_PENDING - this.requests.size;
+    if (available <= 0 || !this.settings) return;
+
+    const queued = [...this.chunks.values()]
+      .filter(chunk => chunk.state === 'queued')
+      .sort((a, b) => a.level - b.level || this.distanceTo(a, viewer) - this.distanceTo(b, viewer))
+      .slice(0, available);
+
+    for (const chunk of queued) {
+      const request: TerrainChunkRequest = {
+        id: this.nextRequestId++,
+        terrain: this.settings,
+        x: chunk.x,
+        z: chunk.z,
+        size: chunk.size,
+        resolution: this.RESOLUTION,
+        skirtDepth: chunk.size / this.RESOLUTION * 2
+      };
+      chunk.state = 'pending';
+      this.requests.set(request.id, chunk);
+
+      if (this.worker) {
+        this.worker.postMessage(request);
+      } else {
+        this.receiveChunk(generateTerrainChunk(request));
+      }
+    }
+  }
+
+  private receiveChunk(data: TerrainChunkData): void {
+    const chunk = this.requests.get(data.id);
+    // Stale replies from previous terrain settings are dropped
+    if (!chunk) return;
+    this.requests.delete(data.id);
+
+    const gl = this.gl;
+    const vao = gl.createVertexArray();
+    if (!vao) {
+      console.error('Failed to create terrain vertex array');
+      this.chunks.delete(chunk.key);
+      return;
+    }
+
+    gl.bindVertexArray(vao);
+    const attributes: [number, Float32Array, number][] = [
+      [ATTRIBUTE_LOCATIONS.position, data.positions, 3],
+      [ATTRIBUTE_LOCATIONS.normal, data.normals, 3],
+      [ATTRIBUTE_LOCATIONS.morphHeight, data.morphHeights, 1]
+    ];
+    for (const [location, values, size] of attributes) {
+      const buffer = gl.createBuffer();
+      if (!buffer) continue;
+      gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+      gl.bufferData(gl.ARRAY_BUFFER, values, gl.STATIC_DRAW);
+      gl.enableVertexAttribArray(location);
+      gl.vertexAttribPointer(location, size, gl.FLOAT, false, 0, 0);
+      chunk.buffers.push(buffer);
+    }
+    gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, this.indexBuffer);
+    gl.bindVertexArray(null);
+
+    chunk.vao = vao;
+    chunk.minHeight = data.minHeight;
+    chunk.maxHeight = data.maxHeight;
+    chunk.state = 'ready';
+  }
+
+  private evictChunks(): void {
+    // Requests never sent are cheap to forget
+    for (const chunk of this.chunks.values()) {
+      if (chunk.state === 'queued' && chunk.lastUsed < this.frame) {
+        this.chunks.delete(chunk.key);
+      }
+    }
+
+    if (this.chunks.size <= this.MAX_CACHED_CHUNKS) return;
+
+    const stale = [...this.chunks.values()]
+      .filter(chunk => chunk.state === 'ready' && chunk.lastUsed < this.frame)
+      .sort((a, b) => a.lastUsed - b.lastUsed);
+    for (const chunk of stale.slice(0, this.chunks.size - this.MAX_CACHED_CHUNKS)) {
+      this.deleteChunk(chunk);
+    }
+  }
+
+  private deleteChunk(chunk: TerrainChunk): void {
+    if (chunk.vao) {
+      this.gl.deleteVertexArray(chunk.vao);
+    }
+    for (const buffer of chunk.buffers) {
+      this.gl.deleteBuffer(buffer);
+    }
+    this.chunks.delete(chunk.key);
+  }
+
+  private clearChunks(): void {
+    for (const chunk of [...this.chunks.values()]) {
+      this.deleteChunk(chunk);
+    }
+    this.requests.clear();
+    this.visible = [];
+  }
+}
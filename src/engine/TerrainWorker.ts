@@ -0,0 +1,9 @@
+import { TerrainChunkRequest, generateTerrainChunk } from './TerrainGenerator';
+
+// Builds terrain chunks off the main thread; buffers are transferred, not copied
+const scope = self as unknown as Worker;
+
+scope.onmessage = (event: MessageEvent<TerrainChunkRequest>) => {
+  const chunk = generateTerrainChunk(event.data);
+  scope.postMessage(chunk, [chunk.positions.buffer, chunk.normals.buffer, chunk.morphHeights.buffer]);
+};
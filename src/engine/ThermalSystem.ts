@@ -0,0 +1,136 @@
+import { SystemState, ThermalState, ThermalStatus } from '../types/GameTypes';
+
+export interface ThermalConditions {
+  throttle: number;
+  speed: number;
+  airDensity: number; // kg/m³, 0 in vacuum
+  ambientTemp: number; // normalized, same scale as coilTemp
+}
+
+export default class ThermalSystem {
+  // Heat inputs (normalized temperature units per second at full load)
+  private readonly COIL_HEAT_RATE = 0.1;
+  private readonly CLOAK_HEAT_RATE = 0.05;
+  private readonly COIL_TO_SKIN_CONDUCTANCE = 0.02;
+
+  // Thermal mass slows every temperature change
+  private readonly COIL_HEAT_CAPACITY = 4.0;
+  private readonly SKIN_HEAT_CAPACITY = 3.0;
+
+  // Radiators shed heat by radiation everywhere and by convection in air
+  private readonly RADIATIVE_COOLING = 0.06;
+  private readonly CONVECTIVE_COOLING = 0.1;
+  private readonly SEA_LEVEL_DENSITY = 1.225;
+  private readonly CONVECTION_REFERENCE_SPEED = 100;
+
+  // Thresholds
+  private readonly CLOAK_DEGRADE_THRESHOLD = 0.6;
+  private readonly CLOAK_RECOVERY_THRESHOLD = 0.4;
+  private readonly THROTTLE_THRESHOLD = 0.75;
+  private readonly SHUTDOWN_THRESHOLD = 0.95;
+  private readonly RESTART_THRESHOLD = 0.5;
+  private readonly MIN_THRUST_LIMIT = 0.2;
+
+  private state: ThermalState = {
+    coilTemp: 0.3,
+    cloakHeat: 0,
+    radiatorEfficiency: 1,
+    thrustLimit: 1,
+    status: 'nominal'
+  };
+
+  public onStatusChange: ((status: ThermalStatus, previous: ThermalStatus) => void) | null = null;
+
+  update(deltaTime: number, systemStates: SystemState, conditions: ThermalConditions): void {
+    const { propulsion, cloaking } = systemStates;
+    const shutdown = this.state.status === 'shutdown';
+
+    // Radiator performance: convection needs both air and airflow
+    const densityRatio = Math.min(conditions.airDensity / this.SEA_LEVEL_DENSITY, 1);
+    const airflow = Math.min(conditions.speed / this.CONVECTION_REFERENCE_SPEED, 1);
+    const coolingRate = this.RADIATIVE_COOLING + this.CONVECTIVE_COOLING * densityRatio * airflow;
+    this.state.radiatorEfficiency = coolingRate / (this.RADIATIVE_COOLING + this.CONVECTIVE_COOLING);
+
+    // Plasma circulation heats the coils, harder under thrust
+    const plasmaLoad = shutdown ? 0 : propulsion.plasmaRate * (0.3 + 0.7 * conditions.throttle);
+    const coilHeatIn = plasmaLoad * this.COIL_HEAT_RATE;
+    const coilHeatOut = coolingRate * (this.state.coilTemp - conditions.ambientTemp);
+    this.state.coilTemp += (coilHeatIn - coilHeatOut) / this.COIL_HEAT_CAPACITY * deltaTime;
+
+    // The metamaterial skin soaks coil heat and its own losses while cloaked,
+    // and an active cloak has to hold its heat in rather than radiate it
+    const cloakLoad = cloaking.active ? 0.5 + 0.5 * (1 - cloaking.integrity) : 0;
+    const skinHeatIn = cloakLoad * this.CLOAK_HEAT_RATE
+      + Math.max(0, this.state.coilTemp - this.state.cloakHeat) * this.COIL_TO_SKIN_CONDUCTANCE;
+    const skinCooling = cloaking.active ? coolingRate * 0.25 : coolingRate;
+    const skinHeatOut = skinCooling * this.state.cloakHeat;
+    this.state.cloakHeat += (skinHeatIn - skinHeatOut) / this.SKIN_HEAT_CAPACITY * deltaTime;
+
+    this.state.coilTemp = Math.max(conditions.ambientTemp, Math.min(1, this.state.coilTemp));
+    this.state.cloakHeat = Math.max(0, Math.min(1, this.state.cloakHeat));
+
+    // Overheated skin loses its optical properties
+    if (this.state.cloakHeat > this.CLOAK_DEGRADE_THRESHOLD) {
+      const degradation = (this.state.cloakHeat - this.CLOAK_DEGRADE_THRESHOLD) * 0.5 * deltaTime;
+      cloaking.integrity = Math.max(0, cloaking.integrity - degradation);
+    } else if (this.state.cloakHeat < this.CLOAK_RECOVERY_THRESHOLD) {
+      cloaking.integrity = Math.min(1, cloaking.integrity + 0.05 * deltaTime);
+    }
+
+    // Hot coils are throttled back before they trip
+    const overTemp = (this.state.coilTemp - this.THROTTLE_THRESHOLD) / (this.SHUTDOWN_THRESHOLD - this.THROTTLE_THRESHOLD);
+    this.state.thrustLimit = Math.max(this.MIN_THRUST_LIMIT, Math.min(1, 1 - overTemp * (1 - this.MIN_THRUST_LIMIT)));
+
+    this.updateStatus();
+
+    if (this.state.status === 'shutdown') {
+      this.state.thrustLimit = 0;
+      cloaking.active = false;
+    }
+
+    // Publish the simulated values back into the shared system state
+    propulsion.coilTemp = this.state.coilTemp;
+    cloaking.heat = this.state.cloakHeat;
+  }
+
+  private updateStatus(): void {
+    const previous = this.state.status;
+    const peak = Math.max(this.state.coilTemp, this.state.cloakHeat);
+    let status: ThermalStatus;
+
+    if (previous === 'shutdown') {
+      // Latched until both loops cool well below the trip point
+      const cooled = this.state.coilTemp < this.RESTART_THRESHOLD && this.state.cloakHeat < this.RESTART_THRESHOLD;
+      status = cooled ? 'nominal' : 'shutdown';
+    } else if (peak >= this.SHUTDOWN_THRESHOLD) {
+      status = 'shutdown';
+    } else if (this.state.coilTemp > this.THROTTLE_THRESHOLD || this.state.cloakHeat > this.CLOAK_DEGRADE_THRESHOLD + 0.2) {
+      status = 'critical';
+    } else if (this.state.coilTemp > this.THROTTLE_THRESHOLD - 0.15 || this.state.cloakHeat > this.CLOAK_DEGRADE_THRESHOLD) {
+      status = 'warning';
+    } else {
+      status = 'nominal';
+    }
+
+    if (status !== previous) {
+      this.state.status = status;
+      if (this.onStatusChange) {
+        this.onStatusChange(status, previous);
+      }
+    }
+  }
+
+  getState(): ThermalState {
+    return { ...this.state };
+  }
+
+  reset(coilTemp = 0.3): void {
+    this.state = {
+      coilTemp,
+      cloakHeat: 0,
+      radiatorEfficiency: 1,
+      thrustLimit: 1,
+      status: 'nominal'
+    };
+  }
+}
@@ -0,0 +1,46 @@
+import { quat } from 'gl-matrix';
+import { Transform } from '../types/GameTypes';
+
+export function createTransform(): Transform {
+  return {
+    position: { x: 0, y: 0, z: 0 },
+    rotation: { x: 0, y: 0, z: 0, w: 1 },
+    scale: { x: 1, y: 1, z: 1 }
+  };
+}
+
+export function copyTransform(out: Transform, source: Transform): Transform {
+  out.position.x = source.position.x;
+  out.position.y = source.position.y;
+  out.position.z = source.position.z;
+  out.rotation.x = source.rotation.x;
+  out.rotation.y = source.rotation.y;
+  out.rotation.z = source.rotation.z;
+  out.rotation.w = source.rotation.w;
+  out.scale.x = source.scale.x;
+  out.scale.y = source.scale.y;
+  out.scale.z = source.scale.z;
+  return out;
+}
+
+// Blend two simulation states for rendering between fixed steps
+export function interpolateTransform(out: Transform, from: Transform, to: Transform, alpha: number): Transform {
+  out.position.x = from.position.x + (to.position.x - from.position.x) * alpha;
+  out.position.y = from.position.y + (to.position.y - from.position.y) * alpha;
+  out.position.z = from.position.z + (to.position.z - from.position.z) * alpha;
+
+  const a = quat.fromValues(from.rotation.x, from.rotation.y, from.rotation.z, from.rotation.w);
+  const b = quat.fromValues(to.rotation.x, to.rotation.y, to.rotation.z, to.rotation.w);
+  const blended = quat.create();
+  quat.slerp(blended, a, b, alpha);
+
+  out.rotation.x = blended[0];
+  out.rotation.y = blended[1];
+  out.rotation.z = blended[2];
+  out.rotation.w = blended[3];
+
+  out.scale.x = from.scale.x + (to.scale.x - from.scale.x) * alpha;
+  out.scale.y = from.scale.y + (to.scale.y - from.scale.y) * alpha;
+  out.scale.z = from.scale.z + (to.scale.z - from.scale.z) * alpha;
+  return out;
+}
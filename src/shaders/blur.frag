@@ -0,0 +1,21 @@
+// Separable 9-tap Gaussian, five taps by sampling between texels
+precision highp float;
+
+in vec2 vTexCoord;
+
+uniform sampler2D uSource;
+uniform vec2 uDirection; // one texel along the blur axis
+
+out vec4 fragColor;
+
+const float WEIGHTS[3] = float[](0.2270270270, 0.3162162162, 0.0702702703);
+const float OFFSETS[3] = float[](0.0, 1.3846153846, 3.2307692308);
+
+void main() {
+  vec3 color = texture(uSource, vTexCoord).rgb * WEIGHTS[0];
+  for (int i = 1; i < 3; i++) {
+    color += texture(uSource, vTexCoord + uDirection * OFFSETS[i]).rgb * WEIGHTS[i];
+    color += texture(uSource, vTexCoord - uDirection * OFFSETS[i]).rgb * WEIGHTS[i];
+  }
+  fragColor = vec4(color, 1.0);
+}
@@ -0,0 +1,24 @@
+// Keeps only what is brighter than the threshold, downsampling to the bloom resolution
+precision highp float;
+
+in vec2 vTexCoord;
+
+uniform sampler2D uSource;
+uniform vec2 uTexelSize; // of the source
+uniform float uThreshold;
+
+out vec4 fragColor;
+
+void main() {
+  // Four bilinear taps average a 4x4 block, which keeps small highlights from flickering
+  vec3 color = 0.25 * (
+    texture(uSource, vTexCoord + uTexelSize * vec2(-1.0, -1.0)).rgb +
+    texture(uSource, vTexCoord + uTexelSize * vec2(1.0, -1.0)).rgb +
+    texture(uSource, vTexCoord + uTexelSize * vec2(-1.0, 1.0)).rgb +
+    texture(uSource, vTexCoord + uTexelSize * vec2(1.0, 1.0)).rgb
+  );
+
+  float brightness = max(color.r, max(color.g, color.b));
+  float contribution = max(brightness - uThreshold, 0.0) / max(brightness, 1e-4);
+  fragColor = vec4(color * contribution, 1.0);
+}
@@ -0,0 +1,6 @@
+// Right and up axes of a billboard facing back along `forward`
+void bodyBasis(vec3 forward, out vec3 right, out vec3 up) {
+  vec3 reference = abs(forward.y) > 0.99 ? vec3(0.0, 0.0, 1.0) : vec3(0.0, 1.0, 0.0);
+  right = normalize(cross(forward, reference));
+  up = cross(right, forward);
+}
@@ -0,0 +1,67 @@
+// Earth and Moon as camera-facing discs shaded like spheres, lit by the sun for their phase
+
+precision highp float;
+
+in vec2 vCorner;
+
+uniform vec3 uBodyDirection;
+uniform vec3 uSkySunDirection;
+uniform int uBodyKind;
+
+out vec4 fragColor;
+
+#include "celestial-basis.glsl"
+
+float hash(vec3 p) {
+  p = fract(p * 0.3183099 + 0.1) * 17.0;
+  return fract(p.x * p.y * p.z * (p.x + p.y + p.z));
+}
+
+float valueNoise(vec3 p) {
+  vec3 i = floor(p);
+  vec3 f = fract(p);
+  f = f * f * (3.0 - 2.0 * f);
+  return mix(
+    mix(mix(hash(i), hash(i + vec3(1, 0, 0)), f.x), mix(hash(i + vec3(0, 1, 0)), hash(i + vec3(1, 1, 0)), f.x), f.y),
+    mix(mix(hash(i + vec3(0, 0, 1)), hash(i + vec3(1, 0, 1)), f.x), mix(hash(i + vec3(0, 1, 1)), hash(i + vec3(1, 1, 1)), f.x), f.y),
+    f.z);
+}
+
+float fbm(vec3 p) {
+  float sum = 0.0;
+  float amplitude = 0.5;
+  for (int i = 0; i < 4; i++) {
+    sum += amplitude * valueNoise(p);
+    p *= 2.0;
+    amplitude *= 0.5;
+  }
+  return sum;
+}
+
+void main() {
+  float r2 = dot(vCorner, vCorner);
+  if (r2 > 1.0) discard;
+
+  vec3 right;
+  vec3 up;
+  bodyBasis(uBodyDirection, right, up);
+  vec3 normal = normalize(right * vCorner.x + up * vCorner.y - uBodyDirection * sqrt(1.0 - r2));
+  float sunlight = max(dot(normal, uSkySunDirection), 0.0);
+
+  vec3 color;
+  if (uBodyKind == 0) {
+    // Earth: oceans, continents and cloud, with a thin blue limb on the day side
+    float land = fbm(normal * 3.0);
+    vec3 ground = land > 0.55 ? mix(vec3(0.22, 0.32, 0.14), vec3(0.55, 0.45, 0.3), fbm(normal * 8.0)) : vec3(0.03, 0.1, 0.3);
+    vec3 surface = mix(ground, vec3(0.95), smoothstep(0.5, 0.75, fbm(normal * 5.0 + 7.0)));
+    color = surface * (0.01 + sunlight);
+    color += vec3(0.3, 0.5, 1.0) * pow(r2, 4.0) * smoothstep(-0.2, 0.3, dot(normal, uSkySunDirection)) * 0.6;
+  } else {
+    // Moon: bright highlands with darker maria
+    float maria = smoothstep(0.5, 0.6, fbm(normal * 2.5));
+    vec3 surface = mix(vec3(0.7, 0.69, 0.66), vec3(0.38, 0.37, 0.36), maria) * (0.85 + 0.15 * fbm(normal * 12.0));
+    color = surface * (0.01 + sunlight);
+  }
+
+  fragColor = vec4(color, 1.0 - smoothstep(0.96, 1.0, r2));
+}
@@ -0,0 +1,18 @@
+precision highp float;
+
+uniform mat4 uSkyMatrix;
+uniform vec3 uBodyDirection;
+uniform float uBodySize;
+
+out vec2 vCorner;
+
+#include "celestial-basis.glsl"
+
+void main() {
+  vCorner = vec2(gl_VertexID & 1, gl_VertexID >> 1) * 2.0 - 1.0;
+  vec3 right;
+  vec3 up;
+  bodyBasis(uBodyDirection, right, up);
+  vec3 direction = uBodyDirection + (right * vCorner.x + up * vCorner.y) * uBodySize;
+  gl_Position = (uSkyMatrix * vec4(direction, 0.0)).xyww;
+}
@@ -0,0 +1,26 @@
+precision highp float;
+
+in vec2 vCorner;
+in float vFlash;
+in vec3 vWorldPos;
+
+uniform vec3 uBeaconColor;
+
+#ifdef HDR
+const float EMISSIVE_SCALE = 6.0;
+#else
+const float EMISSIVE_SCALE = 1.0;
+#endif
+
+#include "lighting.glsl"
+
+out vec4 fragColor;
+
+void main() {
+  float glow = vFlash * pow(max(1.0 - length(vCorner), 0.0), 2.0);
+  if (glow < 0.002) discard;
+
+  // Added over the scene, so fog may only dim the light, never tint it
+  vec3 light = uBeaconColor * glow * EMISSIVE_SCALE;
+  fragColor = vec4(applyFog(light, vWorldPos) - applyFog(vec3(0.0), vWorldPos), 0.0);
+}
@@ -0,0 +1,34 @@
+precision highp float;
+
+// Per beacon: position on the roof and blink phase
+layout(location = 0) in vec4 aBeacon;
+
+uniform mat4 uViewMatrix;
+uniform mat4 uProjectionMatrix;
+uniform vec2 uViewportSize;
+uniform float uTime;
+
+out vec2 vCorner;
+out float vFlash;
+out vec3 vWorldPos;
+
+const float BEACON_RADIUS = 1.2; // m
+const float MIN_PIXELS = 2.5; // radius in pixels, so distant rooftops still show
+const float BLINK_PERIOD = 1.5; // s
+const float FLASH_LENGTH = 0.3; // share of the period lit
+
+void main() {
+  vec2 corner = vec2(gl_VertexID & 1, gl_VertexID >> 1) * 2.0 - 1.0;
+  vec4 viewPos = uViewMatrix * vec4(aBeacon.xyz, 1.0);
+
+  float metresPerPixel = -viewPos.z * 2.0 / (uProjectionMatrix[1][1] * uViewportSize.y);
+  viewPos.xy += corner * max(BEACON_RADIUS, metresPerPixel * MIN_PIXELS);
+
+  // Sharp on, slower fade off
+  float cycle = fract(uTime / BLINK_PERIOD + aBeacon.w);
+  vFlash = smoothstep(0.0, 0.03, cycle) * (1.0 - smoothstep(FLASH_LENGTH * 0.5, FLASH_LENGTH, cycle));
+
+  vCorner = corner;
+  vWorldPos = aBeacon.xyz;
+  gl_Position = uProjectionMatrix * viewPos;
+}
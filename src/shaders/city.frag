@@ -0,0 +1,66 @@
+precision highp float;
+
+in vec3 vNormal;
+in vec3 vWorldPos;
+in vec3 vFacadePos;
+flat in float vStyle;
+
+uniform vec3 uFacadeColor;
+uniform vec3 uWindowColor;
+uniform float uLitWindows; // share of windows lit
+
+#ifdef HDR
+// Lit windows sit above white so bloom picks them up
+const float EMISSIVE_SCALE = 3.0;
+#else
+const float EMISSIVE_SCALE = 1.0;
+#endif
+
+// Bays across each face and storeys up it, m; the ground floor is a lobby with no windows
+const vec2 WINDOW_SPACING = vec2(4.0, 3.5);
+const float LOBBY_HEIGHT = 5.0;
+// Glass within each bay
+const vec2 PANE_MIN = vec2(0.2, 0.25);
+const vec2 PANE_MAX = vec2(0.8, 0.85);
+
+#include "lighting.glsl"
+
+out vec4 fragColor;
+
+// Per window, face and building, in [0, 1)
+float windowHash(vec2 window, float face) {
+  vec3 p = fract(vec3(window, face + vStyle * 113.0) * vec3(0.1031, 0.1030, 0.0973));
+  p += dot(p, p.yzx + 33.33);
+  return fract((p.x + p.y) * p.z);
+}
+
+void main() {
+  vec3 normal = normalize(vNormal);
+
+  // Each building gets its own shade of concrete or glass
+  vec3 albedo = uFacadeColor * (0.6 + 0.8 * vStyle);
+  vec3 color = applyLighting(albedo, normal, vWorldPos);
+
+  // Walls carry the window grid, measured along whichever axis runs across the face
+  float across = abs(normal.x) > 0.5 ? vFacadePos.z : vFacadePos.x;
+  vec2 bay = vec2(across, vFacadePos.y - LOBBY_HEIGHT) / WINDOW_SPACING;
+  vec2 window = floor(bay);
+  vec2 pane = fract(bay);
+  float face = dot(normal, vec3(1.0, 2.0, 3.0));
+
+  vec2 glass = step(PANE_MIN, pane) * step(pane, PANE_MAX);
+  float lit = step(windowHash(window, face), uLitWindows);
+  // Office lights run cool or warm, some dimmed
+  float tone = windowHash(window + 17.0, face);
+  vec3 light = uWindowColor * mix(vec3(0.75, 0.9, 1.2), vec3(1.1, 0.95, 0.8), tone) * (0.4 + 0.6 * tone);
+  vec3 windows = light * glass.x * glass.y * lit;
+
+  // Once a window shrinks below a pixel the grid would shimmer; fade to its average glow instead
+  vec2 coverage = (PANE_MAX - PANE_MIN);
+  vec3 average = uWindowColor * coverage.x * coverage.y * uLitWindows * 0.7;
+  float detail = 1.0 - smoothstep(0.3, 0.8, length(fwidth(bay)));
+  windows = mix(average, windows, detail);
+
+  float wall = step(abs(normal.y), 0.5) * step(0.0, bay.y);
+  fragColor = vec4(applyFog(color + windows * wall * EMISSIVE_SCALE, vWorldPos), 1.0);
+}
@@ -0,0 +1,28 @@
+precision highp float;
+
+// Unit box centred on the origin
+layout(location = 0) in vec3 aPosition;
+layout(location = 1) in vec3 aNormal;
+// Per building: footprint centre at ground level and style, then width, height and depth
+layout(location = 4) in vec4 aOrigin;
+layout(location = 5) in vec3 aSize;
+
+uniform mat4 uViewMatrix;
+uniform mat4 uProjectionMatrix;
+
+out vec3 vNormal;
+out vec3 vWorldPos;
+out vec3 vFacadePos; // m from the building's lowest corner
+flat out float vStyle;
+
+void main() {
+  // Axis-aligned scaling leaves the box's normals as they are
+  vec3 local = (aPosition + vec3(0.0, 0.5, 0.0)) * aSize;
+  vec3 position = aOrigin.xyz + local;
+
+  vNormal = aNormal;
+  vWorldPos = position;
+  vFacadePos = local + vec3(aSize.x, 0.0, aSize.z) * 0.5;
+  vStyle = aOrigin.w;
+  gl_Position = uProjectionMatrix * uViewMatrix * vec4(position, 1.0);
+}
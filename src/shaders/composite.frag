@@ -0,0 +1,39 @@
+// Final pass to the canvas: bloom, exposure and tone mapping
+precision highp float;
+
+in vec2 vTexCoord;
+
+uniform sampler2D uScene;
+uniform float uExposure;
+
+#ifdef BLOOM
+uniform sampler2D uBloom;
+uniform float uBloomStrength;
+#endif
+
+out vec4 fragColor;
+
+#ifdef TONE_MAPPING
+// Narkowicz's fit of the ACES filmic curve
+vec3 toneMapACES(vec3 color) {
+  return clamp((color * (2.51 * color + 0.03)) / (color * (2.43 * color + 0.59) + 0.14), 0.0, 1.0);
+}
+#endif
+
+void main() {
+  vec3 color = texture(uScene, vTexCoord).rgb;
+
+#ifdef BLOOM
+  color += texture(uBloom, vTexCoord).rgb * uBloomStrength;
+#endif
+
+  color *= uExposure;
+
+#ifdef TONE_MAPPING
+  color = toneMapACES(color);
+#else
+  color = clamp(color, 0.0, 1.0);
+#endif
+
+  fragColor = vec4(color, 1.0);
+}
@@ -0,0 +1,10 @@
+precision highp float;
+
+out vec2 vTexCoord;
+
+void main() {
+  // One triangle covering the screen
+  vec2 clip = vec2((gl_VertexID << 1) & 2, gl_VertexID & 2) * 2.0 - 1.0;
+  vTexCoord = clip * 0.5 + 0.5;
+  gl_Position = vec4(clip, 0.0, 1.0);
+}
@@ -0,0 +1,64 @@
+// Environment lighting, shadows and distance fog, shared by every lit program
+uniform vec3 uCameraPosition;
+uniform vec3 uAmbientColor;
+uniform vec3 uSunDirection;
+uniform vec3 uSunColor;
+
+#ifdef FOG
+uniform vec3 uFogColor;
+uniform float uFogDensity;
+#endif
+
+#ifdef SHADOWS
+// One layer per cascade; SHADOW_CASCADES is defined with the variant
+uniform highp sampler2DArrayShadow uShadowMap;
+uniform mat4 uShadowMatrices[SHADOW_CASCADES]; // world to shadow map texture space
+uniform vec4 uCascadeSplits; // far view depth of each cascade, m
+uniform vec4 uShadowNormalOffsets; // world size of a texel in each cascade, m
+uniform vec3 uCameraForward;
+uniform float uShadowTexelSize;
+
+float shadowFactor(vec3 worldPos, vec3 normal) {
+  float depth = dot(worldPos - uCameraPosition, uCameraForward);
+  float distance = uCascadeSplits[SHADOW_CASCADES - 1];
+  if (depth > distance) return 1.0;
+
+  int cascade = 0;
+  for (int i = 0; i < SHADOW_CASCADES - 1; i++) {
+    if (depth > uCascadeSplits[i]) cascade = i + 1;
+  }
+
+  // Looking up slightly off the surface keeps it from shadowing itself
+  vec4 coord = uShadowMatrices[cascade] * vec4(worldPos + normal * uShadowNormalOffsets[cascade], 1.0);
+  if (any(lessThan(coord.xyz, vec3(0.0))) || any(greaterThan(coord.xyz, vec3(1.0)))) return 1.0;
+
+  // 3x3 PCF on top of the hardware's bilinear compare
+  float lit = 0.0;
+  for (int x = -1; x <= 1; x++) {
+    for (int y = -1; y <= 1; y++) {
+      vec2 uv = coord.xy + vec2(x, y) * uShadowTexelSize;
+      lit += texture(uShadowMap, vec4(uv, float(cascade), coord.z));
+    }
+  }
+
+  // Fade out before the last cascade ends rather than cut off in a line
+  return mix(lit / 9.0, 1.0, smoothstep(0.85, 1.0, depth / distance));
+}
+#endif
+
+vec3 applyLighting(vec3 albedo, vec3 normal, vec3 worldPos) {
+  float NdotL = max(dot(normal, uSunDirection), 0.0);
+#ifdef SHADOWS
+  if (NdotL > 0.0) NdotL *= shadowFactor(worldPos, normal);
+#endif
+  return albedo * (uAmbientColor + uSunColor * NdotL);
+}
+
+vec3 applyFog(vec3 color, vec3 worldPos) {
+#ifdef FOG
+  float fogAmount = uFogDensity * length(worldPos - uCameraPosition);
+  return mix(uFogColor, color, exp(-fogAmount * fogAmount));
+#else
+  return color;
+#endif
+}
@@ -0,0 +1,5 @@
+precision highp float;
+
+// Simulation runs with rasterization off; this stage only completes the program
+void main() {
+}
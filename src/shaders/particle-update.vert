@@ -0,0 +1,106 @@
+precision highp float;
+
+// One particle per vertex, written back through transform feedback
+layout(location = 0) in vec4 aPositionAge; // world position, m; age, s
+layout(location = 1) in vec4 aVelocityLife; // world velocity, m/s; lifetime, s
+
+uniform float uDeltaTime;
+uniform uint uSeed;
+uniform int uCapacity;
+uniform int uSpawnStart; // first slot of this frame's ring window
+uniform int uSpawnCount;
+
+uniform mat4 uEmitterMatrix;
+uniform vec3 uEmitterVelocity;
+uniform vec3 uOffset; // emitter-local spawn point
+uniform vec3 uDirection; // emitter-local, cone axis
+uniform float uSpread; // cone half-angle, rad; upward share of ring velocity
+uniform float uRadius; // spawn jitter, ring or shell radius, m
+uniform vec2 uSpeedRange;
+uniform vec2 uLifeRange;
+uniform float uInheritVelocity;
+
+uniform vec3 uGravity;
+uniform float uDrag; // 1/s
+uniform float uGroundHeight;
+uniform float uBounce;
+
+out vec4 vPositionAge;
+out vec4 vVelocityLife;
+
+const float TAU = 6.2831853;
+
+uint hash(uint x) {
+  x ^= x >> 16;
+  x *= 0x7feb352du;
+  x ^= x >> 15;
+  x *= 0x846ca68bu;
+  x ^= x >> 16;
+  return x;
+}
+
+float random(inout uint state) {
+  state = hash(state);
+  return float(state) / 4294967295.0;
+}
+
+vec3 randomUnitVector(inout uint state) {
+  float z = random(state) * 2.0 - 1.0;
+  float angle = random(state) * TAU;
+  return vec3(sqrt(1.0 - z * z) * vec2(cos(angle), sin(angle)), z);
+}
+
+void main() {
+  vec3 position = aPositionAge.xyz;
+  float age = aPositionAge.w + uDeltaTime;
+  vec3 velocity = aVelocityLife.xyz;
+  float life = aVelocityLife.w;
+
+  int slot = (gl_VertexID - uSpawnStart + uCapacity) % uCapacity;
+  if (slot < uSpawnCount && age >= life) {
+    uint state = hash(uint(gl_VertexID) ^ hash(uSeed));
+    vec3 emitter = (uEmitterMatrix * vec4(uOffset, 1.0)).xyz;
+    vec3 direction;
+
+#if defined(SPAWN_RING)
+    // Blown outward across the ground beneath the emitter
+    float angle = random(state) * TAU;
+    vec3 outward = vec3(cos(angle), 0.0, sin(angle));
+    position = vec3(emitter.x, uGroundHeight, emitter.z) + outward * uRadius * sqrt(mix(0.05, 1.0, random(state)));
+    direction = normalize(outward + vec3(0.0, uSpread * random(state), 0.0));
+#elif defined(SPAWN_SHELL)
+    // Thrown off a sphere around the emitter
+    direction = randomUnitVector(state);
+    position = emitter + direction * uRadius;
+#else
+    // Jet inside a cone around the emitter's axis
+    vec3 axis = normalize(mat3(uEmitterMatrix) * uDirection);
+    vec3 side = normalize(cross(axis, abs(axis.y) < 0.99 ? vec3(0.0, 1.0, 0.0) : vec3(1.0, 0.0, 0.0)));
+    vec3 up = cross(side, axis);
+    float theta = uSpread * sqrt(random(state));
+    float phi = random(state) * TAU;
+    direction = axis * cos(theta) + (side * cos(phi) + up * sin(phi)) * sin(theta);
+    position = emitter + randomUnitVector(state) * uRadius * random(state);
+#endif
+
+    velocity = direction * mix(uSpeedRange.x, uSpeedRange.y, random(state)) + uEmitterVelocity * uInheritVelocity;
+    life = mix(uLifeRange.x, uLifeRange.y, random(state));
+
+    // Born at a random moment within the frame, from where the emitter was then
+    age = random(state) * uDeltaTime;
+    position += (velocity - uEmitterVelocity) * age;
+  } else if (age < life) {
+    velocity += uGravity * uDeltaTime;
+    velocity *= exp(-uDrag * uDeltaTime);
+    position += velocity * uDeltaTime;
+
+    if (position.y < uGroundHeight) {
+      position.y = uGroundHeight;
+      velocity.y = abs(velocity.y) * uBounce;
+      velocity.xz *= 0.6;
+    }
+  }
+
+  vPositionAge = vec4(position, age);
+  vVelocityLife = vec4(velocity, life);
+}
@@ -0,0 +1,30 @@
+precision highp float;
+
+in vec2 vCorner;
+in vec4 vColor;
+in vec3 vWorldPos;
+
+uniform float uParticleEmissive; // 1 glows and adds light, 0 is lit and blends
+
+#ifdef HDR
+const float EMISSIVE_SCALE = 4.0;
+#else
+const float EMISSIVE_SCALE = 1.0;
+#endif
+
+#include "lighting.glsl"
+
+out vec4 fragColor;
+
+void main() {
+  float alpha = vColor.a * (1.0 - smoothstep(0.0, 1.0, length(vCorner)));
+  if (alpha < 0.002) discard;
+
+  // Dust is lit like the ground it came from
+  vec3 color = uParticleEmissive > 0.5
+    ? vColor.rgb * EMISSIVE_SCALE
+    : applyFog(applyLighting(vColor.rgb, vec3(0.0, 1.0, 0.0), vWorldPos), vWorldPos);
+
+  // Premultiplied; emissive particles keep zero alpha so they only add
+  fragColor = vec4(color * alpha, alpha * (1.0 - uParticleEmissive));
+}
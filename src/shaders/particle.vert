@@ -0,0 +1,40 @@
+precision highp float;
+
+// Per-instance particle state, straight from the simulation buffer
+layout(location = 0) in vec4 aPositionAge;
+layout(location = 1) in vec4 aVelocityLife;
+
+uniform mat4 uViewMatrix;
+uniform mat4 uProjectionMatrix;
+uniform vec2 uParticleSize; // radius at birth and death, m
+uniform vec4 uColorStart;
+uniform vec4 uColorEnd;
+uniform float uStretch; // seconds of motion each billboard streaks over
+
+out vec2 vCorner;
+out vec4 vColor;
+out vec3 vWorldPos;
+
+void main() {
+  float t = aPositionAge.w / max(aVelocityLife.w, 0.001);
+  if (t >= 1.0) {
+    // Dead: outside the clip volume
+    gl_Position = vec4(2.0, 2.0, 2.0, 1.0);
+    return;
+  }
+
+  vec2 corner = vec2(gl_VertexID & 1, gl_VertexID >> 1) * 2.0 - 1.0;
+  vec4 viewPos = uViewMatrix * vec4(aPositionAge.xyz, 1.0);
+  float size = mix(uParticleSize.x, uParticleSize.y, t);
+
+  // Camera-facing, drawn out along the on-screen direction of travel
+  vec2 streak = (mat3(uViewMatrix) * aVelocityLife.xyz).xy * uStretch;
+  float streakLength = length(streak);
+  vec2 axis = streakLength > 0.0001 ? streak / streakLength : vec2(1.0, 0.0);
+  viewPos.xy += axis * (corner.x * (size + streakLength * 0.5) - streakLength * 0.5) + vec2(-axis.y, axis.x) * corner.y * size;
+
+  vCorner = corner;
+  vColor = mix(uColorStart, uColorEnd, t);
+  vWorldPos = aPositionAge.xyz;
+  gl_Position = uProjectionMatrix * viewPos;
+}
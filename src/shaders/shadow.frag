@@ -0,0 +1,18 @@
+precision highp float;
+
+#ifdef CLOAK
+// Share of a full shadow the cloaked caster still throws
+uniform float uShadowOpacity;
+
+// 4x4 ordered dither; filtered lookups average the holes into a lighter shadow
+const float BAYER[16] = float[16](0.0, 8.0, 2.0, 10.0, 12.0, 4.0, 14.0, 6.0, 3.0, 11.0, 1.0, 9.0, 15.0, 7.0, 13.0, 5.0);
+#endif
+
+void main() {
+#ifdef CLOAK
+  ivec2 cell = ivec2(gl_FragCoord.xy) & 3;
+  if ((BAYER[cell.y * 4 + cell.x] + 0.5) / 16.0 > uShadowOpacity) {
+    discard;
+  }
+#endif
+}
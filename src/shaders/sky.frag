@@ -0,0 +1,114 @@
+// Single Rayleigh/Mie scattering along each view ray, marched through a spherical
+// shell so the sky darkens to space as the viewer climbs
+
+precision highp float;
+
+in vec2 vClip;
+
+uniform mat4 uInverseSkyMatrix;
+uniform vec3 uSkySunDirection;
+uniform float uSkySunIntensity;
+uniform bool uScattering;
+uniform float uAltitude;
+uniform vec3 uRayleigh;
+uniform float uMie;
+uniform vec2 uScaleHeights;
+uniform float uAtmosphereRadius;
+uniform vec3 uSpaceColor;
+uniform vec3 uGlowColor;
+uniform float uGlowHeight;
+
+out vec4 fragColor;
+
+const float PI = 3.14159265;
+const float PLANET_RADIUS = 6371e3;
+const float SUN_RADIANCE = 20.0;
+const float MIE_G = 0.76;
+const int VIEW_SAMPLES = 12;
+const int LIGHT_SAMPLES = 6;
+
+// Near and far distances to a planet-centred sphere; near > far on a miss
+vec2 raySphere(vec3 origin, vec3 direction, float radius) {
+  float b = dot(origin, direction);
+  float c = dot(origin, origin) - radius * radius;
+  float discriminant = b * b - c;
+  if (discriminant < 0.0) return vec2(1.0, -1.0);
+  float root = sqrt(discriminant);
+  return vec2(-b - root, -b + root);
+}
+
+// Rayleigh and Mie densities integrated over a step
+vec2 density(vec3 position, float stepLength) {
+  float height = max(length(position) - PLANET_RADIUS, 0.0);
+  return exp(-height / uScaleHeights) * stepLength;
+}
+
+vec3 scatter(vec3 direction) {
+  vec3 origin = vec3(0.0, PLANET_RADIUS + uAltitude, 0.0);
+  vec2 shell = raySphere(origin, direction, uAtmosphereRadius);
+  if (shell.x > shell.y || shell.y < 0.0) return vec3(0.0);
+
+  float start = max(shell.x, 0.0);
+  float end = shell.y;
+  vec2 ground = raySphere(origin, direction, PLANET_RADIUS);
+  if (ground.x <= ground.y && ground.x > 0.0) {
+    end = min(end, ground.x);
+  }
+
+  float stepLength = (end - start) / float(VIEW_SAMPLES);
+  vec2 viewDepth = vec2(0.0);
+  vec3 rayleighSum = vec3(0.0);
+  vec3 mieSum = vec3(0.0);
+
+  for (int i = 0; i < VIEW_SAMPLES; i++) {
+    vec3 position = origin + direction * (start + (float(i) + 0.5) * stepLength);
+    vec2 stepDensity = density(position, stepLength);
+    viewDepth += stepDensity;
+
+    // Samples in the planet's shadow see no sun
+    vec2 planet = raySphere(position, uSkySunDirection, PLANET_RADIUS);
+    if (planet.x <= planet.y && planet.x > 0.0) continue;
+
+    float lightStep = raySphere(position, uSkySunDirection, uAtmosphereRadius).y / float(LIGHT_SAMPLES);
+    vec2 lightDepth = vec2(0.0);
+    for (int j = 0; j < LIGHT_SAMPLES; j++) {
+      lightDepth += density(position + uSkySunDirection * (float(j) + 0.5) * lightStep, lightStep);
+    }
+
+    vec2 depth = viewDepth + lightDepth;
+    vec3 attenuation = exp(-(uRayleigh * depth.x + uMie * 1.1 * depth.y));
+    rayleighSum += stepDensity.x * attenuation;
+    mieSum += stepDensity.y * attenuation;
+  }
+
+  float mu = dot(direction, uSkySunDirection);
+  float rayleighPhase = 3.0 / (16.0 * PI) * (1.0 + mu * mu);
+  float g2 = MIE_G * MIE_G;
+  float miePhase = 3.0 / (8.0 * PI) * ((1.0 - g2) * (1.0 + mu * mu)) / ((2.0 + g2) * pow(1.0 + g2 - 2.0 * MIE_G * mu, 1.5));
+
+  return SUN_RADIANCE * uSkySunIntensity * (rayleighSum * uRayleigh * rayleighPhase + mieSum * uMie * miePhase);
+}
+
+void main() {
+  vec4 far = uInverseSkyMatrix * vec4(vClip, 1.0, 1.0);
+  vec3 direction = normalize(far.xyz / far.w);
+
+  vec3 color = uSpaceColor;
+  if (uScattering) {
+    color += scatter(direction);
+  }
+
+  // Sun disc, enlarged a little so it reads at game resolutions
+  float mu = dot(direction, uSkySunDirection);
+  color += vec3(1.0, 0.96, 0.9) * uSkySunIntensity * SUN_RADIANCE * smoothstep(0.99985, 0.9999, mu);
+
+  // Light pollution banks up along the horizon
+  color += uGlowColor * exp(-max(direction.y, 0.0) / uGlowHeight);
+
+#ifdef HDR
+  // Tone mapped with the rest of the scene
+  fragColor = vec4(color, 1.0);
+#else
+  fragColor = vec4(1.0 - exp(-color), 1.0);
+#endif
+}
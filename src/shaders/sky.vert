@@ -0,0 +1,9 @@
+precision highp float;
+
+out vec2 vClip;
+
+void main() {
+  // One triangle covering the screen, at the far plane
+  vClip = vec2((gl_VertexID << 1) & 2, gl_VertexID & 2) * 2.0 - 1.0;
+  gl_Position = vec4(vClip, 1.0, 1.0);
+}
@@ -0,0 +1,95 @@
+precision highp float;
+
+in vec3 vNormal;
+in vec3 vViewNormal;
+in vec2 vTexCoord;
+in vec3 vWorldPos;
+in vec3 vLocalPos;
+in float vTime;
+
+uniform vec4 uBaseColor;
+uniform vec3 uEmissive;
+uniform float uPlasmaIntensity;
+
+#ifdef CLOAK
+uniform float uCloakingIntegrity;
+#endif
+
+#ifdef REFRACTION
+uniform sampler2D uSceneColor; // the opaque scene, copied before transparent objects draw
+uniform vec2 uViewportSize;
+#endif
+
+#ifdef HDR
+// Plasma burns well above white so bloom picks it up
+const float EMISSIVE_SCALE = 4.0;
+#else
+const float EMISSIVE_SCALE = 1.0;
+#endif
+
+#include "lighting.glsl"
+
+out vec4 fragColor;
+
+// Simple noise function for plasma effects
+float noise(vec2 p) {
+  return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
+}
+
+// Plasma flow around emissive materials (the ring)
+vec3 plasmaEffect(vec3 pos, float intensity) {
+  float angle = atan(pos.z, pos.x);
+  float plasmaFlow = sin(vTime * 10.0 + angle * 12.0) * 0.5 + 0.5;
+  vec3 plasmaColor = mix(uEmissive, vec3(0.5, 0.0, 1.0) * length(uEmissive), plasmaFlow);
+
+  return plasmaColor * (0.3 + 0.7 * intensity) * EMISSIVE_SCALE;
+}
+
+#if defined(CLOAK) && defined(REFRACTION)
+// Heat haze: the scene behind bends around the hull, most strongly at the silhouette,
+// and the hull itself shows through as integrity fails
+vec3 cloakingRefraction(vec3 hullColor, vec3 normal, float integrity) {
+  float rim = 1.0 - abs(dot(normal, normalize(uCameraPosition - vWorldPos)));
+  float ripple = sin(vWorldPos.x * 3.0 + vTime * 6.0) * sin(vWorldPos.z * 3.0 - vTime * 5.0);
+  float strength = (0.004 + 0.02 * (1.0 - integrity)) * (0.4 + rim);
+  vec2 offset = (normalize(vViewNormal).xy + ripple * 0.5) * strength;
+
+  vec3 behind = texture(uSceneColor, gl_FragCoord.xy / uViewportSize + offset).rgb;
+  vec3 outline = vec3(0.2, 0.35, 0.5) * pow(rim, 3.0) * 0.3;
+  return mix(behind, hullColor, (1.0 - integrity) * 0.35) + outline;
+}
+#elif defined(CLOAK)
+// Cloaking shimmer effect
+vec3 cloakingShimmer(vec3 baseColor, vec3 worldPos, float integrity) {
+  float shimmer = noise(worldPos.xy * 5.0 + vTime * 2.0);
+  shimmer = smoothstep(0.3, 0.7, shimmer);
+
+  vec3 refraction = vec3(0.1, 0.2, 0.3) * (1.0 - integrity);
+  return mix(baseColor + refraction, baseColor * 0.1, shimmer * (1.0 - integrity));
+}
+#endif
+
+void main() {
+  vec3 baseColor = uBaseColor.rgb;
+
+  // Add plasma ring effects
+  vec3 plasmaColor = plasmaEffect(vLocalPos, uPlasmaIntensity);
+
+#if defined(CLOAK) && defined(REFRACTION)
+  vec3 normal = normalize(vNormal);
+  vec3 hullColor = applyLighting(baseColor, normal, vWorldPos) + plasmaColor;
+
+  // Already contains the background, so it draws opaque
+  fragColor = vec4(applyFog(cloakingRefraction(hullColor, normal, uCloakingIntegrity), vWorldPos), 1.0);
+#elif defined(CLOAK)
+  baseColor = cloakingShimmer(baseColor + plasmaColor, vWorldPos, uCloakingIntegrity);
+
+  // Reduce opacity based on cloaking integrity
+  fragColor = vec4(applyFog(baseColor, vWorldPos), uCloakingIntegrity * 0.3 + 0.1);
+#else
+  // Add normal lighting
+  baseColor = applyLighting(baseColor, normalize(vNormal), vWorldPos);
+
+  fragColor = vec4(applyFog(baseColor + plasmaColor, vWorldPos), uBaseColor.a);
+#endif
+}
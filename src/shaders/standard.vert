@@ -0,0 +1,29 @@
+precision highp float;
+
+layout(location = 0) in vec3 aPosition;
+layout(location = 1) in vec3 aNormal;
+layout(location = 2) in vec2 aTexCoord;
+
+uniform mat4 uModelMatrix;
+uniform mat4 uViewMatrix;
+uniform mat4 uProjectionMatrix;
+uniform float uTime;
+
+out vec3 vNormal;
+out vec3 vViewNormal;
+out vec2 vTexCoord;
+out vec3 vWorldPos;
+out vec3 vLocalPos;
+out float vTime;
+
+void main() {
+  vec4 worldPos = uModelMatrix * vec4(aPosition, 1.0);
+  vWorldPos = worldPos.xyz;
+  vLocalPos = aPosition;
+  vNormal = normalize((uModelMatrix * vec4(aNormal, 0.0)).xyz);
+  vViewNormal = mat3(uViewMatrix) * vNormal;
+  vTexCoord = aTexCoord;
+  vTime = uTime;
+
+  gl_Position = uProjectionMatrix * uViewMatrix * worldPos;
+}
@@ -0,0 +1,10 @@
+precision highp float;
+
+in vec3 vColor;
+
+out vec4 fragColor;
+
+void main() {
+  float falloff = smoothstep(0.5, 0.1, length(gl_PointCoord - 0.5));
+  fragColor = vec4(vColor * falloff, 1.0);
+}
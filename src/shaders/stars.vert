@@ -0,0 +1,15 @@
+precision highp float;
+
+layout(location = 0) in vec3 aDirection;
+layout(location = 1) in vec4 aColorSize;
+
+uniform mat4 uStarMatrix;
+uniform float uStarBrightness;
+
+out vec3 vColor;
+
+void main() {
+  vColor = aColorSize.rgb * uStarBrightness;
+  gl_PointSize = aColorSize.a;
+  gl_Position = (uStarMatrix * vec4(aDirection, 0.0)).xyww;
+}
@@ -0,0 +1,20 @@
+precision highp float;
+
+in vec3 vNormal;
+in vec3 vWorldPos;
+
+uniform vec3 uGroundColor;
+
+#include "lighting.glsl"
+
+out vec4 fragColor;
+
+void main() {
+  vec3 normal = normalize(vNormal);
+
+  // Steep faces read darker, like exposed rock or kerb walls
+  float slope = 1.0 - normal.y;
+  vec3 color = uGroundColor * (1.0 - 0.4 * slope);
+
+  fragColor = vec4(applyFog(applyLighting(color, normal, vWorldPos), vWorldPos), 1.0);
+}
@@ -0,0 +1,24 @@
+precision highp float;
+
+layout(location = 0) in vec3 aPosition;
+layout(location = 1) in vec3 aNormal;
+layout(location = 3) in float aMorphHeight;
+
+uniform mat4 uViewMatrix;
+uniform mat4 uProjectionMatrix;
+uniform vec3 uCameraPosition;
+uniform vec2 uMorphRange;
+
+out vec3 vNormal;
+out vec3 vWorldPos;
+
+void main() {
+  // Blend toward the parent level's surface as the chunk nears its LOD boundary
+  float distance = length(aPosition - uCameraPosition);
+  float morph = clamp((distance - uMorphRange.x) / (uMorphRange.y - uMorphRange.x), 0.0, 1.0);
+  vec3 position = vec3(aPosition.x, mix(aPosition.y, aMorphHeight, morph), aPosition.z);
+
+  vWorldPos = position;
+  vNormal = aNormal;
+  gl_Position = uProjectionMatrix * uViewMatrix * vec4(position, 1.0);
+}
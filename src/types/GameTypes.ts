@@ -44,6 +44,7 @@ export interface Mission {
   objectives: string[];
   environment: string;
   duration: number;
+  waypoints: Vector3[];
 }
 
 export interface Vector3 {
@@ -63,4 +64,338 @@ export interface Transform {
   position: Vector3;
   rotation: Quaternion;
   scale: Vector3;
-}
\ No newline at end of file
+}
+
+export interface ControlInput {
+  pitch?: number;
+  yaw?: number;
+  roll?: number;
+  thrust?: number;
+  lift?: number;
+}
+
+export interface AerodynamicProfile {
+  dragCoefficients: Vector3; // per body axis
+  referenceAreas: Vector3; // projected area facing each body axis, m²
+  liftSlope: number; // lift coefficient per radian of angle of attack
+  stallAngle: number; // rad
+  wingArea: number; // m²
+  rotationalDamping: number; // 1/s at sea-level density
+}
+
+// Per-frame pilot axes; pitch, yaw, roll and lift in [-1, 1], throttle in [0, 1]
+export interface ControlAxes {
+  pitch: number;
+  yaw: number;
+  roll: number;
+  throttle: number;
+  lift: number;
+}
+
+// Half-axis actions combine into the continuous control axes
+export type AxisAction =
+  | 'pitch-up'
+  | 'pitch-down'
+  | 'yaw-left'
+  | 'yaw-right'
+  | 'roll-left'
+  | 'roll-right'
+  | 'throttle-up'
+  | 'throttle-down'
+  | 'lift-up'
+  | 'lift-down';
+
+// Discrete commands fired once per press
+export type InputAction = 'toggle-cloak' | 'sensor-ping' | 'cycle-camera';
+
+export type ControlAction = AxisAction | InputAction;
+
+export type TouchGesture = 'stick-up' | 'stick-down' | 'stick-left' | 'stick-right' | 'two-finger-tap' | 'three-finger-tap';
+
+// Keyboard bindings use physical key codes, so they survive layout changes
+export type InputBinding =
+  | { device: 'keyboard'; code: string }
+  | { device: 'mouse'; button: number }
+  | { device: 'touch'; gesture: TouchGesture }
+  | { device: 'gamepad-button'; button: number }
+  | { device: 'gamepad-axis'; axis: number; direction: 1 | -1 };
+
+export interface GamepadAxisBinding {
+  index: number;
+  invert: boolean;
+}
+
+export interface GamepadSettings {
+  deadZone: number;
+  // 1 is linear, higher values soften the centre of the stick
+  responseExponent: number;
+  invertedAxes: number[];
+  // Absolute throttle lever (HOTAS); null leaves the throttle to bound buttons
+  throttleAxis: GamepadAxisBinding | null;
+}
+
+export type KeyboardLayout = 'qwerty' | 'azerty';
+
+export interface InputProfile {
+  name: string;
+  keyboardLayout: KeyboardLayout;
+  bindings: Record<ControlAction, InputBinding[]>;
+  gamepad: GamepadSettings;
+}
+
+export interface CraftProfile {
+  name: string;
+  mass: number; // kg
+  inertia: Vector3; // principal moments of inertia in body space, kg·m²
+  maxThrust: number; // N at full plasma rate
+  plasmaEfficiency: number;
+  antiGravityCapacity: number; // fraction of craft weight cancelled at full anti-gravity
+  liftAuthority: number; // anti-gravity trim available on the lift axis
+  controlTorque: Vector3; // N·m at full pitch (x), yaw (y) and roll (z) input
+  reactorOutput: number; // MW
+  landingPoints: Vector3[]; // landing pad positions in body space, m
+  crashSpeed: number; // touchdown speed that destroys the craft, m/s
+  aerodynamics: AerodynamicProfile;
+  angularDamping: number; // gyro stabiliser damping, 1/s
+}
+
+export interface AtmosphereProfile {
+  seaLevelDensity: number; // kg/m³
+  scaleHeight: number; // m
+}
+
+export interface WindProfile {
+  velocity: Vector3; // mean wind, m/s
+  gustStrength: number; // m/s
+}
+
+export interface EnvironmentPhysicsProfile {
+  name: string;
+  gravity: number; // m/s²
+  atmosphere: AtmosphereProfile | null;
+  wind: WindProfile | null;
+  ambientTemp: number; // normalized, same scale as coilTemp
+}
+
+export type Color3 = [number, number, number]; // linear RGB, 0..1
+
+export type TerrainGenerator =
+  | { generator: 'flat'; elevation: number }
+  | { generator: 'urban'; seed: number; blockSize: number; streetWidth: number; maxPlinthHeight: number }
+  | { generator: 'lunar'; seed: number; plainsHeight: number; plainsScale: number; craterDensity: number };
+
+export type TerrainSettings = TerrainGenerator & {
+  color: Color3;
+  surface: { restitution: number; friction: number };
+};
+
+export type PropKind = 'radar-site' | 'target' | 'beacon';
+
+export interface PropPlacement {
+  kind: PropKind;
+  x: number;
+  z: number;
+  yaw?: number; // rad, positive turns left
+}
+
+// Open ground the city leaves unbuilt, such as a launch pad
+export interface CityClearing {
+  x: number;
+  z: number;
+  radius: number; // m
+}
+
+// Procedural buildings raised on the urban terrain's blocks
+export interface CitySettings {
+  seed: number;
+  radius: number; // m from the origin that blocks are built out to
+  density: number; // share of lots that hold a building
+  minHeight: number; // m
+  maxHeight: number; // m, reached only downtown
+  color: Color3; // facade
+  windowColor: Color3;
+  litWindows: number; // share of windows lit
+  beaconColor: Color3; // rooftop obstruction lights
+  clearings: CityClearing[]; // props are cleared around automatically
+}
+
+export interface EnvironmentLighting {
+  skyColor: Color3;
+  ambientColor: Color3;
+  sunDirection: Vector3; // towards the sun or moon
+  sunColor: Color3;
+  sunIntensity: number;
+  exposure: number; // scene brightness scale before tone mapping, 1 leaves it as lit
+}
+
+export interface EnvironmentFog {
+  color: Color3;
+  density: number; // exponential-squared, 1/m
+}
+
+export type CelestialBodyKind = 'earth' | 'moon';
+
+export interface CelestialBody {
+  kind: CelestialBodyKind;
+  direction: Vector3; // towards the body
+  angularSize: number; // apparent diameter, degrees
+}
+
+export interface HorizonGlow {
+  color: Color3;
+  intensity: number;
+  height: number; // falloff above the horizon, as the sine of the elevation
+}
+
+export interface EnvironmentSky {
+  // The actual sun, which may sit below the horizon on night missions where the key light is the moon
+  sunDirection: Vector3;
+  sunIntensity: number; // 1 is clear daylight
+  latitude: number; // degrees, tilts the star field about the celestial pole
+  starBrightness: number; // 0 hides the stars
+  horizonGlow: HorizonGlow | null; // city light pollution
+  bodies: CelestialBody[];
+}
+
+export type AmbientCue =
+  | { type: 'tone'; frequency: number; gain: number; modulationRate: number }
+  | { type: 'noise'; cutoff: number; gain: number; modulationRate: number };
+
+// Everything that defines a theatre, loaded from public/environments/<id>.json
+export interface EnvironmentDescriptor {
+  id: string;
+  name: string;
+  lighting: EnvironmentLighting;
+  fog: EnvironmentFog | null;
+  sky: EnvironmentSky;
+  terrain: TerrainSettings;
+  props: PropPlacement[];
+  city: CitySettings | null; // urban terrain only
+  physics: EnvironmentPhysicsProfile;
+  ambience: AmbientCue[];
+}
+
+export type ThermalStatus = 'nominal' | 'warning' | 'critical' | 'shutdown';
+
+export interface ThermalState {
+  coilTemp: number;
+  cloakHeat: number;
+  radiatorEfficiency: number;
+  thrustLimit: number;
+  status: ThermalStatus;
+}
+
+export type PowerConsumer = 'propulsion' | 'cloaking' | 'sensors';
+
+export interface PowerAllocation {
+  demand: number; // MW
+  supplied: number; // MW
+  ratio: number; // supplied / demand, 1 when fully powered
+}
+
+export interface PowerState {
+  reactorOutput: number; // MW
+  totalDemand: number; // MW
+  priorities: PowerConsumer[];
+  allocations: Record<PowerConsumer, PowerAllocation>;
+  brownout: boolean;
+}
+
+export type GameEventType =
+  | 'thermal-warning'
+  | 'thermal-shutdown'
+  | 'thermal-recovered'
+  | 'power-brownout'
+  | 'power-restored'
+  | 'cloak-collapse'
+  | 'touchdown'
+  | 'liftoff'
+  | 'crash'
+  | 'waypoint-reached'
+  | 'controller-connected'
+  | 'controller-disconnected'
+  | 'context-lost'
+  | 'context-restored'
+  | 'context-restore-failed';
+
+export type FlightState = 'airborne' | 'landed' | 'crashed';
+
+export interface GameEvent {
+  type: GameEventType;
+  message: string;
+}
+
+export type FlightMode = 'manual' | 'stabilize' | 'hover' | 'altitude-hold' | 'heading-hold' | 'waypoint';
+
+export type CameraMode = 'chase' | 'cockpit' | 'orbit' | 'free';
+
+export type QualityLevel = 'low' | 'medium' | 'high' | 'ultra';
+
+// The pilot's graphics choices, saved between sessions
+export interface QualitySettings {
+  level: QualityLevel;
+  dynamicResolution: boolean; // trade render scale for a steady frame rate
+  targetFrameRate: number; // fps the dynamic resolution controller holds
+}
+
+// Passes after the scene is drawn; with every pass off and no multisampling the scene renders straight to the canvas
+export interface PostProcessSettings {
+  bloom: boolean;
+  toneMapping: boolean; // filmic curve; off clamps
+  refraction: boolean; // screen-space heat haze behind cloaked objects
+  samples: number; // MSAA samples for the scene, 0 for none
+}
+
+// Cascaded shadow maps from the environment's key light
+export interface ShadowSettings {
+  enabled: boolean;
+  resolution: number; // texels per side of each cascade
+  cascades: number; // 1-4, split across the view distance
+  distance: number; // furthest shadowed point, m
+}
+
+// Parts of a frame's CPU time the performance monitor times separately
+export type CpuTimingCategory = 'input' | 'physics' | 'audio' | 'render';
+
+// What one frame cost, as recorded by the performance monitor
+export interface PerformanceSample {
+  frameTime: number; // ms since the previous frame
+  cpuTime: number; // ms spent in the frame's update and draw calls
+  cpu: Record<CpuTimingCategory, number>; // ms
+  gpuTime: number | null; // ms, from timer queries a few frames behind; null where unsupported
+  drawCalls: number;
+  triangles: number;
+  bufferMemory: number; // bytes of live buffer storage
+  audioNodes: number; // playing sources
+  terrainChunks: number;
+  buildings: number;
+}
+
+// A rolling history of samples, exported for bug reports
+export interface PerformanceCapture {
+  capturedAt: string; // ISO 8601
+  userAgent: string;
+  renderer: string;
+  canvas: { width: number; height: number };
+  quality: QualitySettings;
+  renderScale: number;
+  samples: PerformanceSample[]; // oldest first
+}
+
+export interface AutopilotTargets {
+  altitude: number; // above ground level, m
+  heading: number; // degrees clockwise from -Z
+  position: Vector3; // station-keeping point for hover
+  waypoint: Vector3 | null;
+}
+
+export interface FlightTelemetry {
+  position: Vector3;
+  velocity: Vector3; // world space, m/s
+  angularVelocity: Vector3; // body space: pitch (x), yaw (y), roll (z) rates, rad/s
+  altitudeAGL: number; // m
+  heading: number; // degrees clockwise from -Z
+  pitch: number; // rad, positive nose up
+  roll: number; // rad, positive right wing up
+  gravity: number; // m/s²
+}
@@ -1,9 +1,25 @@
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const SHADER_FILE = /\/src\/shaders\/[^/]+\.(glsl|vert|frag)$/;
+
+// Push edited shaders to the running game, which recompiles them in place of a page reload
+function shaderHotReload(): Plugin {
+  return {
+    name: 'manta-shader-hot-reload',
+    apply: 'serve',
+    async handleHotUpdate({ file, server, read }) {
+      if (!SHADER_FILE.test(file)) return;
+      const source = await read();
+      server.ws.send({ type: 'custom', event: 'shader-update', data: { file: file.slice(file.lastIndexOf('/') + 1), source } });
+      return [];
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), shaderHotReload()],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },